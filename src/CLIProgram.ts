@@ -9,6 +9,7 @@
 
 import { createRequire } from 'node:module';
 import { UniversalCommand } from './UniversalCommand';
+import { redactArgs } from './secrets';
 
 // Create a require function that works in both ESM and CJS contexts
 const require = createRequire(import.meta.url);
@@ -42,7 +43,7 @@ export interface GlobalOption {
  */
 export interface CLIHooks {
   /**
-   * Called before any command executes
+   * Called before any command executes (secret arguments are redacted)
    * Can modify context or throw to prevent execution
    */
   beforeCommand?: (commandName: string, args: any, context: ExecutionContext) => Promise<void> | void;
@@ -90,6 +91,7 @@ export class CLIProgram {
   private program: any; // Commander.Command
   private options: CLIProgramOptions;
   private commands: Map<string, UniversalCommand> = new Map();
+  private cliCommands: Map<any, UniversalCommand> = new Map();
 
   constructor(options: CLIProgramOptions) {
     this.options = options;
@@ -121,7 +123,10 @@ export class CLIProgram {
     if (options.hooks?.beforeCommand) {
       this.program.hook('preAction', async (thisCommand: any, actionCommand: any) => {
         const commandName = actionCommand.name();
-        const args = actionCommand.opts();
+        const command = this.cliCommands.get(actionCommand);
+        const args = command
+          ? redactArgs(actionCommand.opts(), command.getParameters())
+          : actionCommand.opts();
         const context: ExecutionContext = {
           interface: 'cli',
           globalOptions: this.program.opts(), // Pass global options in context
@@ -170,11 +175,12 @@ export class CLIProgram {
 
     // Get CLI command from UniversalCommand
     const cliCommand = command.toCLI();
+    this.cliCommands.set(cliCommand, command);
 
     // Wrap the action to inject global options and hooks
     const originalAction = (cliCommand as any)._actionHandler;
     if (originalAction) {
-      (cliCommand as any)._actionHandler = this.wrapAction(commandName, originalAction);
+      (cliCommand as any)._actionHandler = this.wrapAction(command, originalAction);
     }
 
     // Add to program
@@ -196,7 +202,8 @@ export class CLIProgram {
   /**
    * Wrap command action with hooks
    */
-  private wrapAction(commandName: string, originalAction: Function): Function {
+  private wrapAction(command: UniversalCommand, originalAction: Function): Function {
+    const commandName = command.schema.name;
     return async (...args: any[]) => {
       const context: ExecutionContext = {
         interface: 'cli',
@@ -207,7 +214,11 @@ export class CLIProgram {
         // beforeCommand hook (if not already handled by Commander hook)
         if (this.options.hooks?.beforeCommand) {
           const commandArgs = args[args.length - 2]; // Commander passes options as second-to-last
-          await this.options.hooks.beforeCommand(commandName, commandArgs, context);
+          await this.options.hooks.beforeCommand(
+            commandName,
+            redactArgs(commandArgs, command.getParameters()),
+            context
+          );
         }
 
         // Execute original action
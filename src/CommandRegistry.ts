@@ -3,15 +3,34 @@
  */
 
 import { UniversalCommand } from './UniversalCommand';
+import { MiddlewareStack, type Middleware } from './middleware';
 
 export class CommandRegistry {
   private commands: Map<string, UniversalCommand> = new Map();
+  private middleware = new MiddlewareStack();
 
   /**
    * Register a command
    */
   register(command: UniversalCommand): void {
+    this.commands.get(command.schema.name)?.getMiddleware().removeParent(this.middleware);
     this.commands.set(command.schema.name, command);
+    command.getMiddleware().addParent(this.middleware);
+  }
+
+  /**
+   * Add middleware around every registered command
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get the registry's middleware stack
+   */
+  getMiddleware(): MiddlewareStack {
+    return this.middleware;
   }
 
   /**
@@ -60,6 +79,7 @@ export class CommandRegistry {
    * Remove a command
    */
   unregister(name: string): boolean {
+    this.commands.get(name)?.getMiddleware().removeParent(this.middleware);
     return this.commands.delete(name);
   }
 
@@ -67,6 +87,9 @@ export class CommandRegistry {
    * Clear all commands
    */
   clear(): void {
+    for (const command of this.commands.values()) {
+      command.getMiddleware().removeParent(this.middleware);
+    }
     this.commands.clear();
   }
 
@@ -6,6 +6,9 @@
  */
 
 import type { CommandSchema, Parameter } from './types';
+import { resolveParameters } from './standard-schema';
+import { describeConstraints } from './constraints';
+import { describeFallbacks } from './config';
 import type { LazyUniversalCommand } from './LazyUniversalCommand';
 import type { UniversalCommand } from './UniversalCommand';
 
@@ -65,12 +68,20 @@ export class HelpGenerator {
     sections.push('');
 
     // Parameters
-    if (metadata.input.parameters && metadata.input.parameters.length > 0) {
-      const params = this.formatParameters(metadata.input.parameters);
+    const parameters = resolveParameters(metadata.input);
+    if (parameters.length > 0) {
+      const params = this.formatParameters(parameters);
       sections.push(this.formatSection('PARAMETERS', params));
       sections.push('');
     }
 
+    // Cross-parameter constraints
+    const constraints = describeConstraints(metadata.input.constraints, parameters);
+    if (constraints.length > 0) {
+      sections.push(this.formatSection('CONSTRAINTS', constraints.join('\n  ')));
+      sections.push('');
+    }
+
     // Output
     sections.push(this.formatSection('OUTPUT', `Type: ${metadata.output.type}`));
     sections.push('');
@@ -108,7 +119,8 @@ export class HelpGenerator {
     const parts: string[] = [commandName];
 
     // Add positional arguments
-    const positional = metadata.input.parameters
+    const parameters = resolveParameters(metadata.input);
+    const positional = parameters
       .filter((p: Parameter) => p.positional)
       .sort((a: Parameter, b: Parameter) => {
         const posA = a.position !== undefined ? a.position : Infinity;
@@ -125,7 +137,7 @@ export class HelpGenerator {
     }
 
     // Add option flags indicator
-    const hasOptions = metadata.input.parameters.some((p: Parameter) => !p.positional);
+    const hasOptions = parameters.some((p: Parameter) => !p.positional);
     if (hasOptions) {
       parts.push('[options]');
     }
@@ -173,7 +185,7 @@ export class HelpGenerator {
       parts.push(`  ${syntax.padEnd(20)}`);
     } else {
       // Option: --name <value>
-      const syntax = `--${param.name}${param.type !== 'boolean' ? ` <${param.type}>` : ''}`;
+      const syntax = `--${param.name}${param.type !== 'boolean' ? ` <${param.format ?? param.type}>` : ''}`;
       parts.push(`  ${syntax.padEnd(20)}`);
     }
 
@@ -183,7 +195,9 @@ export class HelpGenerator {
     // Metadata
     const meta: string[] = [];
     if (param.required) meta.push('required');
-    if (param.default !== undefined) meta.push(`default: ${param.default}`);
+    meta.push(...describeFallbacks(param));
+    if (param.secret) meta.push('secret');
+    if (param.default !== undefined && !param.secret) meta.push(`default: ${param.default}`);
     if (param.enum) meta.push(`choices: ${param.enum.join(', ')}`);
 
     if (meta.length > 0) {
@@ -264,10 +278,22 @@ export class HelpGenerator {
     sections.push('');
 
     // Parameters
-    if (metadata.input.parameters && metadata.input.parameters.length > 0) {
+    const parameters = resolveParameters(metadata.input);
+    if (parameters.length > 0) {
       sections.push('## Parameters');
       sections.push('');
-      sections.push(this.generateMarkdownParameters(metadata.input.parameters));
+      sections.push(this.generateMarkdownParameters(parameters));
+      sections.push('');
+    }
+
+    // Constraints
+    const constraints = describeConstraints(metadata.input.constraints, parameters);
+    if (constraints.length > 0) {
+      sections.push('## Constraints');
+      sections.push('');
+      for (const line of constraints) {
+        sections.push(`- ${line}`);
+      }
       sections.push('');
     }
 
@@ -299,7 +325,10 @@ export class HelpGenerator {
       const name = param.positional ? `\`<${param.name}>\`` : `\`--${param.name}\``;
       const type = `\`${param.type}\``;
       const required = param.required ? '✓' : '';
-      const desc = param.description;
+      const fallbacks = describeFallbacks(param);
+      const desc = fallbacks.length
+        ? `${param.description} (${fallbacks.map((f) => `\`${f}\``).join(', ')})`
+        : param.description;
 
       lines.push(`| ${name} | ${type} | ${required} | ${desc} |`);
     }
@@ -15,12 +15,12 @@
 import type {
   CommandSchema,
   ExecutionContext,
-  
+  HandlerResult,
+  MCPRequestExtra,
   MCPToolDefinition,
   NextAPIRoute,
 } from './types';
 import { UniversalCommand } from './UniversalCommand';
-import { ValidationError } from './errors';
 
 /**
  * Lazy command schema where handler is a path to load, not actual function
@@ -42,7 +42,7 @@ export interface LazyCommandSchema<TInput = any, TOutput = any>
   /**
    * Optional: Pre-loaded handler (used after lazy load or for testing)
    */
-  handler?: (args: TInput, context: ExecutionContext) => Promise<TOutput>;
+  handler?: (args: TInput, context: ExecutionContext) => HandlerResult<TOutput>;
 }
 
 /**
@@ -156,23 +156,11 @@ export class LazyUniversalCommand<TInput = any, TOutput = any> extends Universal
   }
 
   /**
-   * Execute command (loads handler on first call)
+   * Load the handler on first execution, after access checks and validation
    */
-  override async execute(args: TInput, context: ExecutionContext): Promise<TOutput> {
-    // Validate BEFORE loading handler (fail fast!)
-    const validation = this.validateArgs(args);
-    if (!validation.valid) {
-      throw new ValidationError(
-        'Invalid command arguments',
-        validation.errors || []
-      );
-    }
-
-    // Lazy load handler AFTER validation
+  protected override async resolveHandler(): Promise<CommandSchema<TInput, TOutput>['handler']> {
     await this.loadHandler();
-
-    // Execute handler with validated args
-    return await (this.schema as any).handler(validation.data as TInput, context);
+    return (this.schema as any).handler;
   }
 
   /**
@@ -224,12 +212,12 @@ export class LazyUniversalCommand<TInput = any, TOutput = any> extends Universal
 
     return {
       ...baseMCP,
-      execute: async (args: any) => {
+      execute: async (args: any, extra?: MCPRequestExtra) => {
         // Lazy load handler on first MCP call
         await this.loadHandler();
 
         // Execute using parent class
-        return baseMCP.execute(args);
+        return baseMCP.execute(args, extra);
       },
     };
   }
@@ -10,17 +10,96 @@ import type {
   ExecutionContext,
   ValidationResult,
   MCPToolDefinition,
+  MCPToolAnnotations,
+  MCPRequestExtra,
   NextAPIRoute,
   Parameter,
 } from './types';
-import { ValidationError } from './errors';
+import { CancelledError, OutputValidationError, ValidationError } from './errors';
+import { resolveParameters, toValidationResult } from './standard-schema';
+import { runParameterHooks, validateParameters } from './validation';
+import { validateOutput, type OutputValidationMode } from './output-validation';
+import { checkConstraints, constraintsToJSONSchema, describeConstraints } from './constraints';
+import { formatPlaceholder, formatToJSONSchema } from './formats';
+import { applyFallbacks, hasFallback, loadProjectConfig } from './config';
+import { MiddlewareStack, type Middleware } from './middleware';
+import { createAbortScope, throwIfCancelled, type AbortScope } from './cancellation';
+import {
+  CONFIRMATION_HEADER,
+  createMCPConfirm,
+  isDestructive,
+  requireConfirmation,
+} from './confirmation';
+import {
+  REDACTED,
+  addSecrets,
+  bindSecrets,
+  redactError,
+  secretHeader,
+  secretValues,
+  secretsOf,
+} from './secrets';
+import { resolveDryRun, withDryRunParameter, isDryRunPlan } from './dry-run';
+import { requireAccess } from './auth';
+import { enforceRateLimit, rateLimitHeaders } from './rate-limit';
+import { cacheHeaders, matchesETag, runCached } from './cache';
+import { resourceLinks } from './resources';
+import { formatPlan } from './formatting';
+import {
+  createMCPParameterPrompt,
+  createTerminalParameterPrompt,
+  createTerminalPrompt,
+  fillMissingParameters,
+} from './prompting';
+import { Logger, defaultLogger, levelFromFlags, mcpSink, textSink } from './logger';
+import {
+  isAsyncIterable,
+  encodeChunk,
+  streamContentType,
+  forEachChunk,
+  collectChunks,
+  toReadableStream,
+} from './streaming';
+import {
+  TerminalProgress,
+  createMCPProgress,
+  acceptsEventStream,
+  formatServerSentEvent,
+  EVENT_STREAM_HEADERS,
+} from './progress';
 
 // Create a require function that works in both ESM and CJS contexts
 const require = createRequire(import.meta.url);
 
+/** CLI flags added to every command (descriptions for help) */
+const BUILT_IN_FLAGS = {
+  verbose: 'Show debug logs',
+  quiet: 'Only show errors',
+  yes: 'Confirm without prompting',
+};
+
 export class UniversalCommand<TInput = any, TOutput = any> {
+  private middleware = new MiddlewareStack();
+
   constructor(public readonly schema: CommandSchema<TInput, TOutput>) {
     this.validateSchema();
+
+    // Derive the Parameter list from input.schema so every interface sees one,
+    // plus dryRun for commands that support dry runs
+    const parameters = withDryRunParameter(
+      schema,
+      schema.input.parameters ?? resolveParameters(schema.input)
+    );
+    if (parameters !== schema.input.parameters) {
+      this.schema = { ...schema, input: { ...schema.input, parameters } };
+    }
+  }
+
+  /**
+   * Get the effective parameter list (declared or derived from input.schema)
+   */
+  getParameters(): Parameter[] {
+    return this.schema.input.parameters ?? [];
   }
 
   /**
@@ -38,146 +117,315 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     }
   }
 
+  /**
+   * Add middleware around this command's execution
+   */
+  use(middleware: Middleware<TInput, TOutput>): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get this command's middleware stack (registries link theirs as parents)
+   */
+  getMiddleware(): MiddlewareStack {
+    return this.middleware;
+  }
+
   /**
    * Execute the command with given arguments and context
    */
   async execute(args: TInput, context: ExecutionContext): Promise<TOutput> {
-    // Validate input
-    const validation = this.validateArgs(args);
-    if (!validation.valid) {
-      throw new ValidationError('Invalid command arguments', validation.errors || []);
+    const { command, signal, progress, logger, dryRun } = context;
+    const abort = createAbortScope({
+      signal,
+      timeout: this.schema.timeout,
+      name: this.schema.name,
+    });
+    // Secret parameter values never reach logs or errors
+    const secrets = secretValues(args, this.getParameters(), context.env);
+    const executionLogger = (logger ?? defaultLogger(context)).redact(secrets);
+    const unbindSecrets = bindSecrets(context, secrets);
+    context.command = this.schema;
+    context.progress = progress ?? (() => {});
+    context.logger = executionLogger;
+
+    let result: TOutput;
+    let resolvedDryRun: boolean | undefined;
+    try {
+      context.signal = abort.signal;
+      result = await Promise.race([
+        this.middleware.run(args, context, (input) => this.invoke(input, context)),
+        abort.aborted,
+      ]);
+    } catch (error) {
+      abort.dispose();
+      throw redactError(error, secrets);
+    } finally {
+      resolvedDryRun = context.dryRun;
+      context.command = command;
+      context.signal = signal;
+      context.progress = progress;
+      context.logger = logger;
+      context.dryRun = dryRun;
+      unbindSecrets();
     }
 
-    // Execute handler
-    return await this.schema.handler(validation.data as TInput, context);
+    // Generators run after execute() returns; give them the same context, and
+    // keep the timeout and the caller's signal in force until they finish
+    if (isAsyncIterable(result)) {
+      return this.bindContext(
+        result,
+        context,
+        {
+          command: this.schema,
+          signal: abort.signal,
+          progress: progress ?? (() => {}),
+          logger: executionLogger,
+          dryRun: resolvedDryRun,
+        },
+        secrets,
+        abort
+      ) as TOutput;
+    }
+    abort.dispose();
+    return result;
   }
 
   /**
-   * Validate arguments against parameter schema
+   * Yield a stream's chunks with execution fields set on the context while
+   * each chunk is produced (and secrets redacted from its errors), failing
+   * once the execution's signal aborts
    */
-  validateArgs(args: unknown): ValidationResult<TInput> {
-    const errors: Array<{ path: string; message: string }> = [];
-    const data: any = {};
-
-    for (const param of this.schema.input.parameters) {
-      const value = (args as any)?.[param.name];
-
-      // Check required
-      if (param.required && (value === undefined || value === null)) {
-        errors.push({
-          path: param.name,
-          message: `Parameter '${param.name}' is required`,
-        });
-        continue;
+  private async *bindContext(
+    stream: AsyncIterable<unknown>,
+    context: ExecutionContext,
+    fields: Pick<ExecutionContext, 'command' | 'signal' | 'progress' | 'logger' | 'dryRun'>,
+    secrets: string[],
+    abort: AbortScope
+  ): AsyncGenerator<unknown> {
+    const iterator = stream[Symbol.asyncIterator]();
+    try {
+      for (;;) {
+        throwIfCancelled(abort.signal);
+        const saved = {
+          command: context.command,
+          signal: context.signal,
+          progress: context.progress,
+          logger: context.logger,
+          dryRun: context.dryRun,
+        };
+        Object.assign(context, fields);
+        const unbindSecrets = bindSecrets(context, secrets);
+        let step: IteratorResult<unknown>;
+        try {
+          step = await Promise.race([iterator.next(), abort.aborted]);
+        } catch (error) {
+          throw redactError(error, secrets);
+        } finally {
+          Object.assign(context, saved);
+          unbindSecrets();
+        }
+        if (step.done) return;
+        yield step.value;
       }
-
-      // Use default if not provided
-      if (value === undefined && param.default !== undefined) {
-        data[param.name] = param.default;
-        continue;
+    } finally {
+      abort.dispose();
+      // A stream still producing its next chunk cannot be closed until that
+      // chunk settles, so after an abort it is closed without waiting
+      const closing = iterator.return?.();
+      if (abort.signal.aborted) {
+        Promise.resolve(closing).catch(() => {});
+      } else {
+        await closing;
       }
+    }
+  }
 
-      // Skip validation if value is undefined and not required
-      if (value === undefined) {
-        continue;
-      }
+  /**
+   * Innermost step of execute(): validate, run the handler, check output
+   */
+  protected async invoke(args: TInput, context: ExecutionContext): Promise<TOutput> {
+    // Refuse unauthenticated or over-limit API/MCP callers before looking at the input
+    requireAccess(this.schema, context);
+    await enforceRateLimit(this.schema, context);
 
-      // Type validation
-      const typeValid = this.validateType(value, param);
-      if (!typeValid.valid) {
-        errors.push({
-          path: param.name,
-          message: typeValid.error || 'Invalid type',
-        });
-        continue;
-      }
+    // Validate input
+    const input = await this.validateInput(args, context);
+    resolveDryRun(this.schema, args, input, context);
+    await requireConfirmation(this.schema, input, context);
 
-      // Enum validation
-      if (param.enum && !param.enum.includes(value)) {
-        errors.push({
-          path: param.name,
-          message: `Value must be one of: ${param.enum.join(', ')}`,
-        });
-        continue;
-      }
+    // Execute handler (or answer from the result cache)
+    const handler = await this.resolveHandler();
+    const result = (await runCached(this.schema, input, context, handler)) as TOutput;
 
-      // Range validation (numbers)
-      if (param.type === 'number') {
-        if (param.min !== undefined && value < param.min) {
-          errors.push({
-            path: param.name,
-            message: `Value must be >= ${param.min}`,
-          });
-          continue;
-        }
-        if (param.max !== undefined && value > param.max) {
-          errors.push({
-            path: param.name,
-            message: `Value must be <= ${param.max}`,
-          });
-          continue;
-        }
-      }
+    return this.checkOutput(result, context);
+  }
 
-      // Pattern validation (strings)
-      if (param.type === 'string' && param.pattern) {
-        const regex = new RegExp(param.pattern);
-        if (!regex.test(value)) {
-          errors.push({
-            path: param.name,
-            message: `Value does not match pattern: ${param.pattern}`,
-          });
-          continue;
-        }
+  /**
+   * Handler invoke() runs once the input is accepted (overridden for lazy loading)
+   */
+  protected async resolveHandler(): Promise<CommandSchema<TInput, TOutput>['handler']> {
+    return this.schema.handler;
+  }
+
+  /**
+   * Full input pipeline for execute(): env/config fallbacks, declarative
+   * validation, then the per-parameter validate/transform hooks.
+   * Throws ValidationError.
+   */
+  protected async validateInput(args: unknown, context: ExecutionContext): Promise<TInput> {
+    const resolved = applyFallbacks(args, this.getParameters(), {
+      env: context.env,
+      config: context.config ?? (() => loadProjectConfig(context.projectRoot)),
+    });
+
+    // --verbose shows where fallback values came from (names only, never values)
+    for (const param of this.getParameters()) {
+      const source = resolved.sources[param.name];
+      if (source === 'env' || source === 'config') {
+        context.logger?.debug(`Using ${param.name} from ${source} ${param[source]}`);
       }
+    }
+
+    // Ask for required parameters that are still missing (terminal, elicitation)
+    const filled = await fillMissingParameters(resolved.args, this.getParameters(), context);
 
-      data[param.name] = value;
+    // Secrets from config, defaults or prompts are redacted like passed ones
+    const secrets = secretsOf(context);
+    if (secrets) addSecrets(secrets, secretValues(filled, this.getParameters(), {}));
+
+    const validation = await this.validateArgsAsync(filled as TInput, context.projectRoot);
+    if (!validation.valid) {
+      throw new ValidationError('Invalid command arguments', validation.errors || []);
     }
 
+    const errors: Array<{ path: string; message: string }> = [];
+    const data = await runParameterHooks(
+      validation.data as Record<string, any>,
+      this.getParameters(),
+      context,
+      errors
+    );
     if (errors.length > 0) {
-      return { valid: false, errors };
+      throw new ValidationError('Invalid command arguments', errors);
     }
 
-    return { valid: true, data };
+    return data as TInput;
   }
 
   /**
-   * Validate value type
+   * Validate a handler result against output.schema (opt-in via output.validate
+   * or context.outputValidation). Streamed results are checked chunk by chunk
+   * as they are consumed.
    */
-  private validateType(value: any, param: Parameter): { valid: boolean; error?: string } {
-    switch (param.type) {
-      case 'string':
-        if (typeof value !== 'string') {
-          return { valid: false, error: 'Must be a string' };
-        }
-        break;
+  protected checkOutput(result: TOutput, context: ExecutionContext): TOutput {
+    const { schema, validate } = this.schema.output;
+    const mode = context.outputValidation ?? validate ?? 'off';
+    if (mode === 'off' || !schema) return result;
 
-      case 'number':
-        if (typeof value !== 'number' || isNaN(value)) {
-          return { valid: false, error: 'Must be a number' };
-        }
-        break;
+    if (isAsyncIterable(result)) {
+      return this.checkChunks(result, mode, context) as TOutput;
+    }
 
-      case 'boolean':
-        if (typeof value !== 'boolean') {
-          return { valid: false, error: 'Must be a boolean' };
-        }
-        break;
+    this.reportOutputErrors(result, mode, context);
+    return result;
+  }
 
-      case 'array':
-        if (!Array.isArray(value)) {
-          return { valid: false, error: 'Must be an array' };
-        }
-        break;
+  /**
+   * Yield a stream's chunks, checking each against output.schema
+   */
+  private async *checkChunks(
+    stream: AsyncIterable<unknown>,
+    mode: OutputValidationMode,
+    context: ExecutionContext
+  ): AsyncGenerator<unknown> {
+    for await (const chunk of stream) {
+      this.reportOutputErrors(chunk as TOutput, mode, context);
+      yield chunk;
+    }
+  }
 
-      case 'object':
-        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-          return { valid: false, error: 'Must be an object' };
-        }
-        break;
+  /**
+   * Throw or warn about a value that does not match output.schema
+   */
+  private reportOutputErrors(
+    result: TOutput,
+    mode: OutputValidationMode,
+    context: ExecutionContext
+  ): void {
+    const { schema, onValidationError } = this.schema.output;
+
+    const errors = validateOutput(schema!, result);
+    if (errors.length === 0) return;
+
+    if (mode === 'strict') {
+      throw new OutputValidationError(
+        `Output of '${this.schema.name}' does not match its schema`,
+        errors
+      );
+    }
+
+    if (onValidationError) {
+      onValidationError(errors, result, context);
+    } else {
+      console.warn(
+        `Output of '${this.schema.name}' does not match its schema:\n` +
+          errors.map((e) => `  ${e.path || '(root)'}: ${e.message}`).join('\n')
+      );
+    }
+  }
+
+  /**
+   * Validate arguments against parameter schema
+   *
+   * When input.schema is set it is the source of truth; the Parameter list is
+   * only used for interface generation. Cross-parameter constraints are
+   * checked against the raw arguments either way. Relative `file` and
+   * `directory` values are checked against `baseDir` (default: the working
+   * directory; execute() passes context.projectRoot).
+   */
+  validateArgs(args: unknown, baseDir?: string): ValidationResult<TInput> {
+    if (!this.schema.input.schema) {
+      return this.withConstraints(
+        args,
+        validateParameters(args, this.getParameters(), baseDir) as ValidationResult<TInput>
+      );
+    }
+
+    const result = this.schema.input.schema['~standard'].validate(args ?? {});
+    if (result instanceof Promise) {
+      throw new TypeError(
+        `Input schema for '${this.schema.name}' validates asynchronously; use validateArgsAsync()`
+      );
     }
+    return this.withConstraints(args, toValidationResult<TInput>(result));
+  }
+
+  /**
+   * Validate arguments, awaiting input.schema validators that return a
+   * Promise (Standard Schema allows async validation)
+   */
+  async validateArgsAsync(args: unknown, baseDir?: string): Promise<ValidationResult<TInput>> {
+    if (!this.schema.input.schema) return this.validateArgs(args, baseDir);
 
-    return { valid: true };
+    const result = await this.schema.input.schema['~standard'].validate(args ?? {});
+    return this.withConstraints(args, toValidationResult<TInput>(result));
+  }
+
+  /**
+   * Add cross-parameter constraint errors to a validation result
+   */
+  private withConstraints(
+    args: unknown,
+    result: ValidationResult<TInput>
+  ): ValidationResult<TInput> {
+    const constraintErrors = checkConstraints(args, this.schema.input.constraints);
+    if (constraintErrors.length === 0) {
+      return result;
+    }
+
+    return { valid: false, errors: [...(result.errors || []), ...constraintErrors] };
   }
 
   /**
@@ -186,9 +434,10 @@ export class UniversalCommand<TInput = any, TOutput = any> {
   toCLI(): any {
     // Lazy load commander to avoid hard dependency
     let Command: any;
+    let Option: any;
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
-      Command = require('commander').Command;
+      ({ Command, Option } = require('commander'));
     } catch {
       throw new Error(
         'commander package is required for CLI generation. Install with: npm install commander'
@@ -212,7 +461,7 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     }
 
     // Separate positional from option parameters (P0-2)
-    const positionalParams = this.schema.input.parameters
+    const positionalParams = this.getParameters()
       .filter((p) => p.positional)
       .sort((a, b) => {
         const posA = a.position !== undefined ? a.position : Infinity;
@@ -220,7 +469,12 @@ export class UniversalCommand<TInput = any, TOutput = any> {
         return posA - posB;
       });
 
-    const optionParams = this.schema.input.parameters.filter((p) => !p.positional);
+    const optionParams = this.getParameters().filter((p) => !p.positional);
+
+    // On a terminal, execute() prompts for missing required parameters, so
+    // Commander must not reject them first
+    const interactive = process.stdin.isTTY === true && process.stderr.isTTY === true;
+    const mandatory = (param: Parameter) => param.required && !hasFallback(param) && !interactive;
 
     // Add positional arguments (P0-2)
     for (const param of positionalParams) {
@@ -231,29 +485,69 @@ export class UniversalCommand<TInput = any, TOutput = any> {
         argSyntax = param.required ? `<${param.name}...>` : `[${param.name}...]`;
       } else {
         // Regular positional: <file>
-        argSyntax = param.required ? `<${param.name}>` : `[${param.name}]`;
+        // Parameters with env/config fallbacks are checked by validation instead
+        argSyntax = mandatory(param) ? `<${param.name}>` : `[${param.name}]`;
       }
 
-      cmd.argument(argSyntax, param.description, param.default);
+      // Secret defaults stay out of help; validation still applies them
+      cmd.argument(argSyntax, param.description, param.secret ? undefined : param.default);
     }
 
     // Add option parameters
     for (const param of optionParams) {
       // Boolean flags don't take values - just --flag (not --flag [value])
+      // Value placeholders name the format (<file>, <dir>) as a completion hint
+      // The dry-run parameter is spelled --dry-run (Commander maps it to dryRun)
       const isBoolean = param.type === 'boolean';
+      const placeholder = formatPlaceholder(param);
+      const name = this.schema.supportsDryRun && param.name === 'dryRun' ? 'dry-run' : param.name;
       const flags = isBoolean
-        ? `--${param.name}`
+        ? `--${name}`
         : param.required
-          ? `--${param.name} <${param.name}>`
-          : `--${param.name} [${param.name}]`;
+          ? `--${name} <${placeholder}>`
+          : `--${name} [${placeholder}]`;
 
-      if (param.required && !isBoolean) {
+      if (mandatory(param) && !isBoolean) {
         cmd.requiredOption(flags, param.description);
       } else {
-        cmd.option(flags, param.description, param.default);
+        cmd.option(flags, param.description, param.secret ? undefined : param.default);
       }
     }
 
+    // Scripts written before --dry-run keep working: --dryRun is a hidden alias
+    if (this.schema.supportsDryRun && optionParams.some((param) => param.name === 'dryRun')) {
+      cmd.addOption(new Option('--dryRun').hideHelp());
+    }
+
+    // Log level flags (and --yes for destructive commands), unless the command
+    // already defines parameters with these names
+    const builtInFlags = (Object.keys(BUILT_IN_FLAGS) as Array<keyof typeof BUILT_IN_FLAGS>).filter(
+      (flag) =>
+        (flag !== 'yes' || isDestructive(this.schema)) &&
+        !this.getParameters().some((param) => param.name === flag)
+    );
+    for (const flag of builtInFlags) {
+      cmd.option(`--${flag}`, BUILT_IN_FLAGS[flag]);
+    }
+    const confirmFlags = isDestructive(this.schema)
+      ? (this.schema.cli?.confirmFlags ?? []).filter(
+          (flag) => !this.getParameters().some((param) => param.name === flag)
+        )
+      : [];
+    for (const flag of confirmFlags) {
+      cmd.option(`--${flag}`, BUILT_IN_FLAGS.yes);
+    }
+
+    // Show cross-parameter constraints in help
+    const constraintLines = describeConstraints(
+      this.schema.input.constraints,
+      this.getParameters()
+    );
+    if (constraintLines.length > 0) {
+      const text = constraintLines.map((line) => `  ${line}`).join('\n');
+      cmd.addHelpText('after', `\nConstraints:\n${text}`);
+    }
+
     // Add aliases if specified
     if (this.schema.cli?.aliases) {
       for (const alias of this.schema.cli.aliases) {
@@ -271,14 +565,30 @@ export class UniversalCommand<TInput = any, TOutput = any> {
         const options = actionArgs[actionArgs.length - 2];
         const positionalValues = actionArgs.slice(0, actionArgs.length - 2);
 
-        // Merge positional args with options
-        const args: any = { ...options };
+        // Merge positional args with options, leaving out values Commander only
+        // filled from defaults so validation sees what the user actually passed
+        const args: any = {};
+        for (const [key, value] of Object.entries(options)) {
+          if (cmdObj.getOptionValueSource?.(key) !== 'default') {
+            args[key] = value;
+          }
+        }
         for (let i = 0; i < positionalParams.length; i++) {
           const param = positionalParams[i];
-          if (i < positionalValues.length) {
+          if (i < positionalValues.length && positionalValues[i] !== param.default) {
             args[param.name] = positionalValues[i];
           }
         }
+        for (const flag of [...builtInFlags, ...confirmFlags]) {
+          delete args[flag];
+        }
+
+        // Log level follows only flags given on the command line: a command's
+        // own verbose/quiet parameter may default to true
+        const logFlags = {
+          verbose: cmdObj.getOptionValueSource?.('verbose') === 'cli' && options.verbose,
+          quiet: cmdObj.getOptionValueSource?.('quiet') === 'cli' && options.quiet,
+        };
 
         // Build execution context (P0-4, P0-5, P0-6)
         const context: ExecutionContext = {
@@ -287,40 +597,26 @@ export class UniversalCommand<TInput = any, TOutput = any> {
           stderr: process.stderr,
           stdin: process.stdin,
           isTTY: process.stdout.isTTY,
+          logger: new Logger(textSink(process.stderr), { level: levelFromFlags(logFlags) }),
+          confirmed: ['yes', ...confirmFlags].some((flag) => options[flag] === true),
         };
 
+        // On a terminal, ask before destructive commands (otherwise --yes is
+        // required) and for missing required parameters. Questions go to
+        // stderr so piped stdout stays clean
+        if (interactive) {
+          const prompt = createTerminalPrompt(process.stdin, process.stderr);
+          context.prompt = prompt;
+          context.promptParameters = createTerminalParameterPrompt(prompt, process.stderr);
+          context.confirm = async (message: string) =>
+            /^y(es)?$/i.test((await prompt(`${message} [y/N]`)).trim());
+        }
+
         // Add streaming support if enabled (P0-4)
         if (this.schema.cli?.streaming) {
           context.stream = process.stdout;
         }
 
-        // Add prompt function if TTY (P0-5)
-        if (context.isTTY) {
-          context.prompt = async (
-            message: string,
-            options?: { default?: string; mask?: boolean }
-          ) => {
-            // Simple readline-based prompt
-            // eslint-disable-next-line @typescript-eslint/no-var-requires
-            const readline = require('readline');
-            const rl = readline.createInterface({
-              input: process.stdin,
-              output: process.stdout,
-            });
-
-            return new Promise<string>((resolve) => {
-              const promptText = options?.default
-                ? `${message} [${options.default}]: `
-                : `${message}: `;
-
-              rl.question(promptText, (answer: string) => {
-                rl.close();
-                resolve(answer || options?.default || '');
-              });
-            });
-          };
-        }
-
         // Add pass-through options if enabled (P0-6)
         if (this.schema.cli?.passThroughOptions && cmdObj.args) {
           // Find '--' separator and capture everything after
@@ -330,11 +626,46 @@ export class UniversalCommand<TInput = any, TOutput = any> {
           }
         }
 
-        const result = await this.execute(args, context);
+        // Ctrl-C aborts context.signal; a second Ctrl-C kills the process
+        const controller = new AbortController();
+        const onInterrupt = () => controller.abort(new CancelledError('Interrupted'));
+        process.once('SIGINT', onInterrupt);
+        context.signal = controller.signal;
+
+        // Progress goes to stderr so piped stdout stays clean
+        const progress = process.stderr.isTTY ? new TerminalProgress() : undefined;
+        if (progress) {
+          context.progress = (update) => progress.update(update);
+        }
+
+        let result: any;
+        try {
+          result = await this.execute(args, context);
+
+          // Write streamed results chunk by chunk; Ctrl-C still stops them
+          if (isAsyncIterable(result)) {
+            const format = this.schema.cli?.format;
+            await forEachChunk(
+              result,
+              (chunk) => {
+                process.stdout.write(
+                  format ? format(chunk) + '\n' : encodeChunk(chunk, this.schema.output.type)
+                );
+              },
+              controller.signal
+            );
+            return;
+          }
+        } finally {
+          process.removeListener('SIGINT', onInterrupt);
+          progress?.done();
+        }
 
         // Format output
         if (this.schema.cli?.format) {
           console.log(this.schema.cli.format(result));
+        } else if (isDryRunPlan(result)) {
+          console.log(formatPlan(result));
         } else if (this.schema.output.type === 'json') {
           console.log(JSON.stringify(result, null, 2));
         } else {
@@ -423,15 +754,39 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     const method = this.schema.api?.method || 'GET';
 
     const handler = async (request: any, context?: any) => {
+      const executionContext: ExecutionContext = {
+        interface: 'api',
+        request,
+        signal: request?.signal,
+        confirmationToken: request?.headers?.get?.(CONFIRMATION_HEADER) ?? undefined,
+      };
+
       try {
         // Extract arguments from request
         const args = await this.extractAPIArgs(request, context);
 
+        // Stream progress as Server-Sent Events when the client asks for it
+        if (acceptsEventStream(request?.headers?.get?.('accept'))) {
+          return await this.streamEvents(args, executionContext);
+        }
+
         // Execute command
-        const result = await this.execute(args, {
-          interface: 'api',
-          request,
-        });
+        const result = await this.execute(args, executionContext);
+        const headers = {
+          ...rateLimitHeaders(executionContext.rateLimit),
+          ...cacheHeaders(this.schema, executionContext.cache),
+        };
+
+        // Stream chunks as the client reads them instead of buffering
+        if (isAsyncIterable(result)) {
+          return this.streamResponse(result, headers);
+        }
+
+        // The client already has this result
+        const etag = executionContext.cache?.etag;
+        if (etag && matchesETag(request?.headers?.get?.('if-none-match'), etag)) {
+          return new Response(null, { status: 304, headers });
+        }
 
         // Create response
         let NextResponse: any;
@@ -444,26 +799,9 @@ export class UniversalCommand<TInput = any, TOutput = any> {
           );
         }
 
-        const response = NextResponse.json(result);
-
-        // Apply cache control if specified
-        if (this.schema.api?.cacheControl) {
-          const { maxAge, staleWhileRevalidate, revalidate } = this.schema.api.cacheControl;
-          const cacheHeader = [
-            maxAge !== undefined && `max-age=${maxAge}`,
-            staleWhileRevalidate !== undefined && `stale-while-revalidate=${staleWhileRevalidate}`,
-            revalidate !== undefined && `s-maxage=${revalidate}`,
-          ]
-            .filter(Boolean)
-            .join(', ');
-
-          if (cacheHeader) {
-            response.headers.set('Cache-Control', cacheHeader);
-          }
-        }
-
-        return response;
+        return NextResponse.json(result, { headers });
       } catch (error: any) {
+        const headers = rateLimitHeaders(executionContext.rateLimit);
         let NextResponse: any;
         try {
           // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -472,13 +810,13 @@ export class UniversalCommand<TInput = any, TOutput = any> {
           // Fallback to basic Response
           return new Response(JSON.stringify({ error: error.message }), {
             status: error.details?.status || 500,
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...headers },
           });
         }
 
         return NextResponse.json(
           { error: error.message, details: error.details },
-          { status: error.details?.status || 500 }
+          { status: error.details?.status || 500, headers }
         );
       }
     };
@@ -486,6 +824,80 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     return { [method]: handler } as NextAPIRoute;
   }
 
+  /**
+   * Chunked response for a streamed result (NDJSON unless output is text)
+   */
+  private streamResponse(
+    result: AsyncIterable<unknown>,
+    headers: Record<string, string> = {}
+  ): Response {
+    const { type } = this.schema.output;
+
+    const body = toReadableStream(
+      result,
+      (chunk) => encodeChunk(chunk, type),
+      // A text stream has no way to carry an error, so abort it
+      (error) =>
+        type === 'text'
+          ? undefined
+          : JSON.stringify({ error: error.message, details: error.details }) + '\n'
+    );
+
+    return new Response(body, {
+      headers: { 'Content-Type': streamContentType(type), ...headers },
+    });
+  }
+
+  /**
+   * Execute for an API request, sending `progress` events followed by a
+   * `result` or `error` event
+   *
+   * The stream opens with the first event, so access, rate limit and
+   * validation failures still get their own status and headers.
+   */
+  private async streamEvents(args: TInput, context: ExecutionContext): Promise<Response> {
+    const encoder = new TextEncoder();
+    let stream!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        stream = controller;
+      },
+    });
+
+    let started = false;
+    let onStart!: () => void;
+    const streaming = new Promise<void>((resolve) => (onStart = resolve));
+    const send = (event: string, data: unknown) => {
+      started = true;
+      onStart();
+      stream.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+    };
+
+    const run = async () => {
+      try {
+        context.progress = (update) => send('progress', update);
+        const result = await this.execute(args, context);
+
+        if (isAsyncIterable(result)) {
+          const count = await forEachChunk(result, (chunk) => send('chunk', chunk), context.signal);
+          send('end', { count });
+        } else {
+          send('result', result);
+        }
+      } catch (error: any) {
+        if (!started) throw error;
+        send('error', { error: error.message, details: error.details });
+      }
+      stream.close();
+    };
+
+    await Promise.race([streaming, run()]);
+
+    return new Response(body, {
+      headers: { ...EVENT_STREAM_HEADERS, ...rateLimitHeaders(context.rateLimit) },
+    });
+  }
+
   /**
    * Extract arguments from API request
    */
@@ -494,12 +906,33 @@ export class UniversalCommand<TInput = any, TOutput = any> {
 
     // Extract from URL search params (GET requests)
     if (request.nextUrl?.searchParams) {
-      for (const param of this.schema.input.parameters) {
+      for (const param of this.getParameters()) {
         const value = request.nextUrl.searchParams.get(param.name);
+        if (value !== null && param.secret) {
+          // URLs end up in access logs and browser history
+          throw new ValidationError(
+            `Secret parameter '${param.name}' must be sent in the request body or the ${secretHeader(param.name)} header`,
+            [{ path: param.name, message: 'Not accepted in the query string' }]
+          );
+        }
         if (value !== null) {
           args[param.name] = this.coerceType(value, param.type);
         }
       }
+
+      // Keep ?dryRun for commands without dry runs so execute() can refuse it
+      const dryRun = request.nextUrl.searchParams.get('dryRun');
+      if (dryRun !== null && !('dryRun' in args)) {
+        args.dryRun = dryRun;
+      }
+    }
+
+    // Secret parameters sent as headers (the only way for GET)
+    for (const param of this.getParameters()) {
+      const value = param.secret ? request.headers?.get?.(secretHeader(param.name)) : null;
+      if (value !== null && value !== undefined) {
+        args[param.name] = this.coerceType(value, param.type);
+      }
     }
 
     // Extract from route params (e.g., [repoId])
@@ -540,17 +973,53 @@ export class UniversalCommand<TInput = any, TOutput = any> {
   /**
    * Generate MCP tool definition
    */
+  /**
+   * Execution context for an MCP request: progress, logging, confirmation and
+   * parameter prompts go through the client
+   */
+  createMCPContext(extra?: MCPRequestExtra): ExecutionContext {
+    const toolName = this.getMCPToolName();
+    const sink = mcpSink(extra, toolName);
+    return {
+      interface: 'mcp',
+      signal: extra?.signal,
+      progress: createMCPProgress(extra),
+      logger: sink && new Logger(sink),
+      confirm: createMCPConfirm(extra),
+      promptParameters: createMCPParameterPrompt(extra, toolName),
+      request: extra?.requestInfo,
+      authInfo: extra?.authInfo,
+      sessionId: extra?.sessionId,
+    };
+  }
+
   toMCP(): MCPToolDefinition {
     const toolName =
       this.schema.mcp?.toolName || `sc_${this.schema.name.replace(/\s+/g, '_').toLowerCase()}`;
+    const annotations = this.getMCPAnnotations();
 
     return {
       name: toolName,
       description: this.schema.description,
       inputSchema: this.parametersToJSONSchema(),
-      execute: async (args: any) => {
+      ...(annotations && { annotations }),
+      execute: async (args: any, extra?: MCPRequestExtra) => {
         try {
-          const result = await this.execute(args, { interface: 'mcp' });
+          const context = this.createMCPContext(extra);
+          const progress = context.progress;
+          const result = await this.execute(args, context);
+
+          // MCP has no partial tool results: accumulate, reporting each chunk
+          if (isAsyncIterable(result)) {
+            const chunks = await collectChunks(result, extra?.signal, (count) =>
+              progress?.({ current: count, message: `${count} received` })
+            );
+            const text =
+              this.schema.output.type === 'json' || chunks.some((c) => typeof c !== 'string')
+                ? JSON.stringify(chunks, null, 2)
+                : chunks.join('');
+            return { content: [{ type: 'text', text }, ...resourceLinks(this.schema, args)] };
+          }
 
           return {
             content: [
@@ -558,6 +1027,7 @@ export class UniversalCommand<TInput = any, TOutput = any> {
                 type: 'text',
                 text: JSON.stringify(result, null, 2),
               },
+              ...resourceLinks(this.schema, args),
             ],
           };
         } catch (error: any) {
@@ -581,10 +1051,11 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     const properties: any = {};
     const required: string[] = [];
 
-    for (const param of this.schema.input.parameters) {
+    for (const param of this.getParameters()) {
       properties[param.name] = this.parameterToJSONSchema(param);
 
-      if (param.required) {
+      // Callers may omit parameters the server can fill from env/config
+      if (param.required && !hasFallback(param)) {
         required.push(param.name);
       }
     }
@@ -593,6 +1064,7 @@ export class UniversalCommand<TInput = any, TOutput = any> {
       type: 'object',
       properties,
       ...(required.length > 0 && { required }),
+      ...constraintsToJSONSchema(this.schema.input.constraints),
     };
   }
 
@@ -601,7 +1073,7 @@ export class UniversalCommand<TInput = any, TOutput = any> {
    */
   private parameterToJSONSchema(param: Parameter): any {
     const schema: any = {
-      type: param.type,
+      type: param.nullable ? [param.type, 'null'] : param.type,
       description: param.description,
     };
 
@@ -622,17 +1094,45 @@ export class UniversalCommand<TInput = any, TOutput = any> {
       schema.pattern = param.pattern;
     }
 
-    if (param.type === 'array' && param.items) {
-      schema.items = this.parameterToJSONSchema(param.items);
+    if (param.type === 'string' && param.format) {
+      Object.assign(schema, formatToJSONSchema(param.format));
     }
 
-    if (param.type === 'object' && param.properties) {
-      schema.properties = Object.fromEntries(
-        Object.entries(param.properties).map(([key, prop]) => [
-          key,
-          this.parameterToJSONSchema(prop),
-        ])
-      );
+    // Clients should mask secrets and never be shown a default
+    if (param.secret) {
+      delete schema.default;
+      schema.writeOnly = true;
+      if (param.type === 'string') schema.format = 'password';
+    }
+
+    if (param.type === 'array') {
+      if (param.items) schema.items = this.parameterToJSONSchema(param.items);
+      if (param.minItems !== undefined) schema.minItems = param.minItems;
+      if (param.maxItems !== undefined) schema.maxItems = param.maxItems;
+      if (param.uniqueItems) schema.uniqueItems = true;
+    }
+
+    if (param.type === 'object') {
+      if (param.properties) {
+        schema.properties = Object.fromEntries(
+          Object.entries(param.properties).map(([key, prop]) => [
+            key,
+            this.parameterToJSONSchema(prop),
+          ])
+        );
+
+        const required = Object.entries(param.properties)
+          .filter(([, prop]) => prop.required)
+          .map(([key]) => key);
+        if (required.length > 0) schema.required = required;
+      }
+
+      if (param.additionalProperties !== undefined) {
+        schema.additionalProperties =
+          typeof param.additionalProperties === 'object'
+            ? this.parameterToJSONSchema(param.additionalProperties)
+            : param.additionalProperties;
+      }
     }
 
     return schema;
@@ -653,6 +1153,13 @@ export class UniversalCommand<TInput = any, TOutput = any> {
     return this.schema.mcp?.toolName || `sc_${this.schema.name.replace(/\s+/g, '_').toLowerCase()}`;
   }
 
+  /**
+   * MCP tool annotations (destructiveHint for commands that need confirmation)
+   */
+  getMCPAnnotations(): MCPToolAnnotations | undefined {
+    return isDestructive(this.schema) ? { destructiveHint: true } : undefined;
+  }
+
   /**
    * Describe all interfaces this command supports
    * Useful for discovery and debugging
@@ -672,11 +1179,11 @@ export class UniversalCommand<TInput = any, TOutput = any> {
         cli: {
           command: `sc ${this.schema.name}`,
           aliases: this.schema.cli?.aliases?.map((a) => `sc ${a}`) || [],
-          options: this.schema.input.parameters.map((p) => ({
+          options: this.getParameters().map((p) => ({
             flag: `--${p.name}`,
             description: p.description,
             required: p.required || false,
-            default: p.default,
+            default: p.secret && p.default !== undefined ? REDACTED : p.default,
             type: p.type,
           })),
         },
@@ -691,12 +1198,12 @@ export class UniversalCommand<TInput = any, TOutput = any> {
         },
       },
 
-      parameters: this.schema.input.parameters.map((p) => ({
+      parameters: this.getParameters().map((p) => ({
         name: p.name,
         type: p.type,
         description: p.description,
         required: p.required || false,
-        default: p.default,
+        default: p.secret && p.default !== undefined ? REDACTED : p.default,
         enum: p.enum,
       })),
     };
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { apiKeyAuth, authenticate, bearerAuth, checkAccess, type Principal } from './auth';
+import { UniversalCommand } from './UniversalCommand';
+import { AuthenticationError, AuthorizationError } from './errors';
+import type { ExecutionContext } from './types';
+
+const admin: Principal = { id: 'ada', roles: ['admin'] };
+const viewer: Principal = { id: 'vic', roles: ['viewer'] };
+
+function createCommand(handler = vi.fn(async () => ({ deployed: true }))) {
+  const cmd = new UniversalCommand({
+    name: 'app deploy',
+    description: 'Deploy the app',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    api: { method: 'POST', auth: { required: true, roles: ['admin'] } },
+    handler,
+  });
+  return { cmd, handler };
+}
+
+function post(headers: Record<string, string> = {}) {
+  return new Request('http://localhost/api/app/deploy', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: '{}',
+  });
+}
+
+const tokens = bearerAuth((token) => ({ 'ada-token': admin, 'vic-token': viewer })[token]);
+
+describe('auth', () => {
+  describe('checkAccess', () => {
+    it('should allow commands without auth requirements', () => {
+      const schema = { ...createCommand().cmd.schema, api: { method: 'POST' as const } };
+      expect(() => checkAccess(schema, undefined)).not.toThrow();
+    });
+
+    it('should require a principal with one of the roles', () => {
+      const { schema } = createCommand().cmd;
+
+      expect(() => checkAccess(schema, undefined)).toThrow(AuthenticationError);
+      expect(() => checkAccess(schema, viewer)).toThrow(
+        new AuthorizationError("'app deploy' requires one of the roles: admin")
+      );
+      expect(() => checkAccess(schema, admin)).not.toThrow();
+    });
+  });
+
+  describe('providers', () => {
+    const context = (headers: Record<string, string>): ExecutionContext => ({
+      interface: 'api',
+      request: new Request('http://localhost', { headers }),
+    });
+
+    it('should resolve bearer tokens and reject unknown ones', async () => {
+      expect(await tokens(context({ authorization: 'Bearer ada-token' }))).toBe(admin);
+      expect(await tokens(context({}))).toBeUndefined();
+      await expect(tokens(context({ authorization: 'Bearer nope' }))).rejects.toThrow(
+        'Invalid bearer token'
+      );
+    });
+
+    it('should prefer the token verified by an MCP transport', async () => {
+      expect(await tokens({ interface: 'mcp', authInfo: { token: 'vic-token' } })).toBe(viewer);
+    });
+
+    it('should look up API keys from a map or Express-style headers', async () => {
+      const keys = apiKeyAuth({ 'key-123': admin }, { header: 'X-Deploy-Key' });
+
+      expect(
+        await keys({ interface: 'api', request: { headers: { 'x-deploy-key': 'key-123' } } })
+      ).toBe(admin);
+      await expect(
+        keys({ interface: 'api', request: { headers: { 'x-deploy-key': 'key-999' } } })
+      ).rejects.toThrow('Invalid API key');
+    });
+  });
+
+  describe('API', () => {
+    it('should answer 401 without credentials and 403 without the role', async () => {
+      const { cmd, handler } = createCommand();
+      cmd.use(authenticate(tokens));
+      const route = cmd.toNextAPI();
+
+      const anonymous = await route.POST!(post());
+      const forbidden = await route.POST!(post({ authorization: 'Bearer vic-token' }));
+      const invalid = await route.POST!(post({ authorization: 'Bearer nope' }));
+
+      expect(anonymous.status).toBe(401);
+      expect((await anonymous.json()).error).toBe("'app deploy' requires authentication");
+      expect(forbidden.status).toBe(403);
+      expect(invalid.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should run the handler with context.user for an authorized caller', async () => {
+      const { cmd, handler } = createCommand();
+      cmd.use(authenticate(tokens));
+
+      const response = await cmd.toNextAPI().POST!(post({ authorization: 'Bearer ada-token' }));
+
+      expect(response.status).toBe(200);
+      expect((handler.mock.calls[0] as any[])[1].user).toBe(admin);
+    });
+
+    it('should refuse protected commands when no provider is configured', async () => {
+      const { cmd, handler } = createCommand();
+
+      const response = await cmd.toNextAPI().POST!(post({ authorization: 'Bearer ada-token' }));
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('MCP', () => {
+    it('should authenticate tool calls from the request headers', async () => {
+      const { cmd, handler } = createCommand();
+      cmd.use(authenticate(tokens));
+      const tool = cmd.toMCP();
+
+      const denied = await tool.execute({}, { requestInfo: { headers: {} } });
+      await tool.execute({}, { requestInfo: { headers: { authorization: 'Bearer ada-token' } } });
+
+      expect(denied.content[0].text).toBe("Error: 'app deploy' requires authentication");
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CLI', () => {
+    it('should not check the CLI unless asked to', async () => {
+      const { cmd, handler } = createCommand();
+      await cmd.execute({}, { interface: 'cli' });
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      const fromEnv = vi.fn((context: ExecutionContext) =>
+        context.env?.DEPLOY_USER ? { id: context.env.DEPLOY_USER } : undefined
+      );
+      cmd.use(authenticate(fromEnv, { interfaces: ['cli'] }));
+
+      await expect(cmd.execute({}, { interface: 'cli', env: {} })).rejects.toThrow(
+        AuthenticationError
+      );
+      await expect(
+        cmd.execute({}, { interface: 'cli', env: { DEPLOY_USER: 'ops' } })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Authentication and role checks
+ *
+ * An AuthProvider turns request credentials into a Principal. The
+ * authenticate() middleware runs the providers and sets context.user, and
+ * execute() enforces each command's `api.auth` (`required`, `roles`) for
+ * API and MCP calls before validation and the handler, failing with
+ * AuthenticationError (401) or AuthorizationError (403).
+ *
+ * @example
+ * ```typescript
+ * server.use(authenticate([
+ *   bearerAuth(async (token) => sessions.lookup(token)),
+ *   apiKeyAuth({ [process.env.CI_KEY!]: { id: 'ci', roles: ['deployer'] } }),
+ * ]));
+ * ```
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { AuthenticationError, AuthorizationError } from './errors';
+import type { Middleware } from './middleware';
+import type { CommandSchema, ExecutionContext } from './types';
+
+/**
+ * The authenticated caller
+ */
+export interface Principal {
+  /** User, client or key identifier */
+  id: string;
+
+  /** Roles matched against `api.auth.roles` */
+  roles?: string[];
+
+  [key: string]: unknown;
+}
+
+/**
+ * Resolve the caller from a request
+ *
+ * Resolve undefined when the request carries no credentials this provider
+ * understands, and throw AuthenticationError when it carries invalid ones.
+ */
+export type AuthProvider = (
+  context: ExecutionContext
+) => Principal | undefined | Promise<Principal | undefined>;
+
+/**
+ * Options for authenticate()
+ */
+export interface AuthenticateOptions {
+  /** Interfaces to authenticate and enforce `api.auth` for (default: api and mcp) */
+  interfaces?: Array<ExecutionContext['interface']>;
+}
+
+/** Interfaces execute() always enforces `api.auth` for */
+const REMOTE_INTERFACES: Array<ExecutionContext['interface']> = ['api', 'mcp'];
+
+/**
+ * Middleware that sets context.user from the first provider that resolves a
+ * principal, then enforces the command's `api.auth`
+ *
+ * Add `'cli'` to `interfaces` to enforce auth for the CLI as well (providers
+ * then read credentials from context.env, for example).
+ */
+export function authenticate(
+  providers: AuthProvider | AuthProvider[],
+  options: AuthenticateOptions = {}
+): Middleware {
+  const list = Array.isArray(providers) ? providers : [providers];
+  const interfaces = options.interfaces ?? REMOTE_INTERFACES;
+
+  return async (args, context, next) => {
+    if (!interfaces.includes(context.interface)) return next();
+
+    if (!context.user) {
+      for (const provider of list) {
+        const principal = await provider(context);
+        if (principal) {
+          context.user = principal;
+          break;
+        }
+      }
+    }
+
+    if (context.command) checkAccess(context.command, context.user);
+    return next();
+  };
+}
+
+/**
+ * Throw unless the principal may run the command
+ *
+ * Commands without `api.auth` are open to everyone.
+ */
+export function checkAccess(schema: CommandSchema, user: Principal | undefined): void {
+  const auth = schema.api?.auth;
+  const roles = auth?.roles ?? [];
+  if (!auth?.required && roles.length === 0) return;
+
+  if (!user) {
+    throw new AuthenticationError(`'${schema.name}' requires authentication`);
+  }
+  if (roles.length > 0 && !roles.some((role) => user.roles?.includes(role))) {
+    throw new AuthorizationError(`'${schema.name}' requires one of the roles: ${roles.join(', ')}`);
+  }
+}
+
+/**
+ * Enforce `api.auth` for API and MCP executions (used by execute())
+ *
+ * Fails closed: a command that requires auth is refused when no provider
+ * set context.user.
+ */
+export function requireAccess(schema: CommandSchema, context: ExecutionContext): void {
+  if (REMOTE_INTERFACES.includes(context.interface)) {
+    checkAccess(schema, context.user);
+  }
+}
+
+/**
+ * Provider for `Authorization: Bearer <token>` (or the token an MCP
+ * transport already verified)
+ */
+export function bearerAuth(
+  verify: (
+    token: string,
+    context: ExecutionContext
+  ) => Principal | undefined | Promise<Principal | undefined>
+): AuthProvider {
+  return async (context) => {
+    const token = bearerToken(context);
+    if (token === undefined) return undefined;
+
+    const principal = await verify(token, context);
+    if (!principal) throw new AuthenticationError('Invalid bearer token');
+    return principal;
+  };
+}
+
+/**
+ * Provider for an API key header (default: x-api-key), checked against a
+ * key → principal map or a verify function
+ */
+export function apiKeyAuth(
+  keys:
+    | Record<string, Principal>
+    | ((
+        key: string,
+        context: ExecutionContext
+      ) => Principal | undefined | Promise<Principal | undefined>),
+  options: { header?: string } = {}
+): AuthProvider {
+  const header = options.header ?? 'x-api-key';
+
+  return async (context) => {
+    const key = requestHeader(context, header);
+    if (key === undefined) return undefined;
+
+    const principal = typeof keys === 'function' ? await keys(key, context) : findKey(keys, key);
+    if (!principal) throw new AuthenticationError('Invalid API key');
+    return principal;
+  };
+}
+
+/**
+ * Bearer token from the Authorization header or MCP authInfo
+ */
+export function bearerToken(context: ExecutionContext): string | undefined {
+  if (context.authInfo?.token) return context.authInfo.token;
+
+  const match = requestHeader(context, 'authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim();
+}
+
+/**
+ * Read a header from context.request (Fetch Request, Express request, or
+ * MCP request info)
+ */
+export function requestHeader(context: ExecutionContext, name: string): string | undefined {
+  const headers = context.request?.headers;
+  if (!headers) return undefined;
+
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : (value ?? undefined);
+}
+
+/**
+ * Look up an API key in constant time per key
+ */
+function findKey(keys: Record<string, Principal>, key: string): Principal | undefined {
+  const actual = Buffer.from(key);
+  for (const [candidate, principal] of Object.entries(keys)) {
+    const expected = Buffer.from(candidate);
+    if (actual.length === expected.length && timingSafeEqual(actual, expected)) {
+      return principal;
+    }
+  }
+  return undefined;
+}
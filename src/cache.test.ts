@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryCacheStore, cacheKey, computeETag, matchesETag } from './cache';
+import { UniversalCommand } from './UniversalCommand';
+import type { CommandSchema } from './types';
+
+function createCommands(store = new MemoryCacheStore()) {
+  let count = 0;
+  const list = vi.fn(async (args: any) => ({ status: args.status, count: ++count }));
+  const create = vi.fn(async () => ({ created: true }));
+
+  const listCmd = new UniversalCommand({
+    name: 'req list',
+    description: 'List requirements',
+    input: {
+      parameters: [{ name: 'status', type: 'string', description: 'Filter by status' }],
+    },
+    output: { type: 'json' },
+    api: { cacheControl: { maxAge: 60, staleWhileRevalidate: 30 } },
+    cache: { tags: ['requirements'], store },
+    handler: list,
+  });
+  const newCmd = new UniversalCommand({
+    name: 'req new',
+    description: 'Create a requirement',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    supportsDryRun: true,
+    cache: { invalidates: ['requirements'], store },
+    handler: create,
+  });
+  return { listCmd, newCmd, list, create };
+}
+
+function get(headers: Record<string, string> = {}) {
+  const url = new URL('http://localhost/api/req/list?status=open');
+  return Object.assign(new Request(url, { headers }), { nextUrl: url });
+}
+
+describe('result caching', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should answer repeated calls from the cache on every interface', async () => {
+    const { listCmd, list } = createCommands();
+
+    const first = await listCmd.execute({ status: 'open' }, { interface: 'cli' });
+    const second = await listCmd.toMCP().execute({ status: 'open' });
+    const other = await listCmd.execute({ status: 'done' }, { interface: 'test' });
+
+    expect(first).toEqual({ status: 'open', count: 1 });
+    expect(JSON.parse(second.content[0].text)).toEqual(first);
+    expect(other).toEqual({ status: 'done', count: 2 });
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not let callers change cached results', async () => {
+    const { listCmd, list } = createCommands();
+
+    const first = await listCmd.execute({ status: 'open' }, { interface: 'test' });
+    first.status = 'changed';
+    const second = await listCmd.execute({ status: 'open' }, { interface: 'test' });
+    second.count = 99;
+    const third = await listCmd.execute({ status: 'open' }, { interface: 'test' });
+
+    expect(third).toEqual({ status: 'open', count: 1 });
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return results that cannot be copied without caching them', async () => {
+    const handler = vi.fn(async () => ({ format: (n: number) => `${n} items` }));
+    const cmd = new UniversalCommand({
+      name: 'req formatter',
+      description: 'Get a formatter',
+      input: { parameters: [] },
+      output: { type: 'json' },
+      api: { cacheControl: { maxAge: 60 } },
+      handler,
+    });
+    const context = { interface: 'test' as const };
+
+    const first = await cmd.execute({}, context);
+    await cmd.execute({}, context);
+
+    expect(first.format(2)).toBe('2 items');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve stale results while refreshing in the background', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { listCmd, list } = createCommands();
+
+    await listCmd.execute({ status: 'open' }, { interface: 'api' });
+    vi.setSystemTime(Date.now() + 70_000);
+    const context = { interface: 'api' as const };
+    const stale = await listCmd.execute({ status: 'open' }, context);
+    await vi.waitFor(() => expect(list).toHaveBeenCalledTimes(2));
+    const refreshed = await listCmd.execute({ status: 'open' }, { interface: 'api' });
+
+    expect(stale).toEqual({ status: 'open', count: 1 });
+    expect(context).toMatchObject({ cache: { status: 'stale' } });
+    expect(refreshed).toEqual({ status: 'open', count: 2 });
+
+    vi.setSystemTime(Date.now() + 200_000);
+    expect(await listCmd.execute({ status: 'open' }, { interface: 'api' })).toEqual({
+      status: 'open',
+      count: 3,
+    });
+  });
+
+  it('should drop tagged entries when a mutating command succeeds', async () => {
+    const { listCmd, newCmd, list } = createCommands();
+
+    await listCmd.execute({ status: 'open' }, { interface: 'cli' });
+    await newCmd.execute({ dryRun: true } as any, { interface: 'cli' });
+    await listCmd.execute({ status: 'open' }, { interface: 'cli' });
+    expect(list).toHaveBeenCalledTimes(1);
+
+    await newCmd.execute({}, { interface: 'mcp' });
+    await listCmd.execute({ status: 'open' }, { interface: 'cli' });
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip the cache for calls excluded by when', async () => {
+    const handler = vi.fn(async () => ({ ok: true }));
+    const cmd = new UniversalCommand({
+      name: 'feature audit',
+      description: 'Audit features',
+      input: { parameters: [{ name: 'fix', type: 'boolean', description: 'Fix issues' }] },
+      output: { type: 'json' },
+      api: { cacheControl: { maxAge: 60 } },
+      cache: { store: new MemoryCacheStore(), when: (args: any) => !args.fix },
+      handler,
+    });
+
+    await cmd.execute({ fix: true }, { interface: 'cli' });
+    await cmd.execute({ fix: true }, { interface: 'cli' });
+    await cmd.execute({}, { interface: 'cli' });
+    await cmd.execute({}, { interface: 'cli' });
+
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  describe('API', () => {
+    it('should send ETag and answer If-None-Match with 304', async () => {
+      const { listCmd, list } = createCommands();
+      const route = listCmd.toNextAPI();
+
+      const miss = await route.GET!(get());
+      const etag = miss.headers.get('ETag')!;
+      const notModified = await route.GET!(get({ 'if-none-match': etag }));
+      const changed = await route.GET!(get({ 'if-none-match': '"old"' }));
+
+      expect(miss.status).toBe(200);
+      expect(miss.headers.get('X-Cache')).toBe('MISS');
+      expect(miss.headers.get('Cache-Control')).toBe('max-age=60, stale-while-revalidate=30');
+      expect(etag).toBe(computeETag({ status: 'open', count: 1 }));
+      expect(notModified.status).toBe(304);
+      expect(notModified.headers.get('X-Cache')).toBe('HIT');
+      expect(changed.status).toBe(200);
+      expect(list).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should key by validated arguments regardless of order, user and project', () => {
+    const schema = createCommands().listCmd.schema as CommandSchema;
+    const key = (args: object, context = {}) =>
+      cacheKey(schema, args, { interface: 'api', projectRoot: '/repo', ...context });
+
+    expect(key({ a: 1, b: { c: 2, d: 3 } })).toBe(key({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(key({ a: 1 })).not.toBe(key({ a: 1 }, { user: { id: 'u' } }));
+    expect(key({ a: 1 })).not.toBe(key({ a: 1 }, { projectRoot: '/other' }));
+  });
+
+  it('should match If-None-Match lists and wildcards', () => {
+    expect(matchesETag('"a", W/"b"', '"b"')).toBe(true);
+    expect(matchesETag('*', '"a"')).toBe(true);
+    expect(matchesETag(undefined, '"a"')).toBe(false);
+  });
+
+  it('should evict the oldest entries beyond maxEntries', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    const entry = { value: 1, etag: '"1"', tags: [], expiresAt: Infinity, staleUntil: Infinity };
+
+    store.set('a', entry);
+    store.set('b', entry);
+    store.set('c', entry);
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.get('c')).toBe(entry);
+  });
+});
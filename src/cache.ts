@@ -0,0 +1,320 @@
+/**
+ * Server-side result caching
+ *
+ * Commands with `api.cacheControl` keep their results in a CacheStore for
+ * `revalidate` (or `maxAge`) seconds, keyed by the validated arguments, the
+ * caller and the project. Within `staleWhileRevalidate` seconds after that
+ * the stale result is returned while the handler refreshes it in the
+ * background. The cache sits inside execute(), so CLI, API and MCP calls
+ * share it; the API adds ETag / If-None-Match (304) on top.
+ *
+ * Results carry the command's `cache.tags`; a successful run of a command
+ * with `cache.invalidates` drops every entry with one of those tags:
+ *
+ * @example
+ * ```typescript
+ * // planning req list
+ * api: { cacheControl: { maxAge: 60 } },
+ * cache: { tags: ['requirements'] },
+ *
+ * // planning req new
+ * cache: { invalidates: ['requirements'] },
+ * ```
+ *
+ * The default store lives in memory; pass a shared store as `cache.store`
+ * or RuntimeServer.setCacheStore() so several processes (including one-shot
+ * CLI runs) see the same entries.
+ */
+
+import { createHash } from 'node:crypto';
+import { isAsyncIterable } from './streaming';
+import { stableStringify } from './confirmation';
+import type { CommandSchema, ExecutionContext } from './types';
+
+/**
+ * A cached result
+ */
+export interface CacheEntry {
+  value: unknown;
+
+  /** Strong ETag of the JSON value (quoted) */
+  etag: string;
+
+  /** Tags for invalidation */
+  tags: string[];
+
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+
+  /** Epoch milliseconds after which the entry may no longer be served */
+  staleUntil: number;
+}
+
+/**
+ * Storage for cached results
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+
+  /** Drop every entry carrying one of these tags */
+  invalidateTags(tags: string[]): void | Promise<void>;
+}
+
+/**
+ * How execute() answered a cached command (context.cache)
+ */
+export interface CacheState {
+  /** hit: fresh entry; stale: served while refreshing; miss: handler ran */
+  status: 'hit' | 'stale' | 'miss';
+
+  /** ETag of the result */
+  etag: string;
+}
+
+/** Default size of a MemoryCacheStore */
+const MAX_ENTRIES = 1000;
+
+/**
+ * In-memory cache store (single process), dropping the oldest entries
+ * beyond `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? MAX_ENTRIES;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  invalidateTags(tags: string[]): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Forget all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/** Store used when neither the command nor the context names one */
+const defaultStore = new MemoryCacheStore();
+
+/** Background refreshes in progress, so a stale key is refreshed once */
+const refreshing = new Set<string>();
+
+type Handler = (args: any, context: ExecutionContext) => unknown;
+
+/**
+ * Run the handler through the cache (used by execute() after validation)
+ *
+ * Sets context.cache for cached commands and invalidates `cache.invalidates`
+ * tags after a successful run. Dry runs and streamed results bypass the cache.
+ */
+export async function runCached(
+  schema: CommandSchema,
+  args: unknown,
+  context: ExecutionContext,
+  handler: Handler
+): Promise<unknown> {
+  const options = schema.cache;
+  const store = options?.store ?? context.cacheStore ?? defaultStore;
+  const ttl = cacheTTL(schema);
+
+  if (!ttl || context.dryRun || (options?.when && !options.when(args as any))) {
+    const result = await handler(args, context);
+    if (!context.dryRun) await invalidate(schema, args, store);
+    return result;
+  }
+
+  const key = cacheKey(schema, args, context);
+  const entry = await store.get(key);
+  const now = Date.now();
+
+  // Callers get copies, so changing a result cannot change the cached entry
+  if (entry && now < entry.expiresAt) {
+    context.cache = { status: 'hit', etag: entry.etag };
+    return structuredClone(entry.value);
+  }
+  if (entry && now < entry.staleUntil) {
+    context.cache = { status: 'stale', etag: entry.etag };
+    refresh(key, schema, args, context, handler, store);
+    return structuredClone(entry.value);
+  }
+
+  const result = await handler(args, context);
+  if (isAsyncIterable(result)) return result;
+
+  const fresh = await save(key, schema, args, result, store);
+  if (fresh) context.cache = { status: 'miss', etag: fresh.etag };
+  await invalidate(schema, args, store);
+  return result;
+}
+
+/**
+ * Seconds a result stays fresh on the server (`revalidate`, else `maxAge`)
+ */
+export function cacheTTL(schema: CommandSchema): number {
+  const control = schema.api?.cacheControl;
+  return control?.revalidate ?? control?.maxAge ?? 0;
+}
+
+/**
+ * Cache key for a call: command, project, caller and validated arguments
+ */
+export function cacheKey(schema: CommandSchema, args: unknown, context: ExecutionContext): string {
+  if (schema.cache?.key) return `${schema.name}:${schema.cache.key(args, context)}`;
+
+  const project = context.projectRoot ?? process.cwd();
+  const user = context.user?.id ?? '';
+  return `${schema.name}:${digest(stableStringify({ project, user, args }))}`;
+}
+
+/**
+ * Strong ETag for a JSON value
+ */
+export function computeETag(value: unknown): string {
+  return `"${digest(stableStringify(value))}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag
+ */
+export function matchesETag(ifNoneMatch: string | null | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Cache-Control header value for api.cacheControl
+ */
+export function cacheControlHeader(schema: CommandSchema): string | undefined {
+  const control = schema.api?.cacheControl;
+  if (!control) return undefined;
+
+  const { maxAge, staleWhileRevalidate, revalidate } = control;
+  const header = [
+    maxAge !== undefined && `max-age=${maxAge}`,
+    staleWhileRevalidate !== undefined && `stale-while-revalidate=${staleWhileRevalidate}`,
+    revalidate !== undefined && `s-maxage=${revalidate}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return header || undefined;
+}
+
+/**
+ * Cache-Control, ETag and X-Cache (HIT, STALE or MISS) headers for a response
+ */
+export function cacheHeaders(
+  schema: CommandSchema,
+  state: CacheState | undefined
+): Record<string, string> {
+  const control = cacheControlHeader(schema);
+  return {
+    ...(control && { 'Cache-Control': control }),
+    ...(state && { ETag: state.etag, 'X-Cache': state.status.toUpperCase() }),
+  };
+}
+
+/**
+ * Store a copy of a result; results that cannot be copied (functions,
+ * streams, sockets) are not cached and give undefined
+ */
+async function save(
+  key: string,
+  schema: CommandSchema,
+  args: unknown,
+  value: unknown,
+  store: CacheStore
+): Promise<CacheEntry | undefined> {
+  let copy: unknown;
+  try {
+    copy = structuredClone(value);
+  } catch {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const expiresAt = now + cacheTTL(schema) * 1000;
+  const entry: CacheEntry = {
+    value: copy,
+    etag: computeETag(value),
+    tags: resolveTags(schema.cache?.tags, args),
+    expiresAt,
+    staleUntil: expiresAt + (schema.api?.cacheControl?.staleWhileRevalidate ?? 0) * 1000,
+  };
+  await store.set(key, entry);
+  return entry;
+}
+
+function refresh(
+  key: string,
+  schema: CommandSchema,
+  args: unknown,
+  context: ExecutionContext,
+  handler: Handler,
+  store: CacheStore
+): void {
+  if (refreshing.has(key)) return;
+  refreshing.add(key);
+
+  // The request may be over before the refresh is: detach from its signal
+  const detached: ExecutionContext = {
+    ...context,
+    signal: new AbortController().signal,
+    progress: () => {},
+  };
+  const logger = context.logger;
+
+  (async () => {
+    try {
+      const result = await handler(args, detached);
+      if (!isAsyncIterable(result)) await save(key, schema, args, result, store);
+    } catch (error: any) {
+      logger?.warn(`Refreshing cached '${schema.name}' failed: ${error.message}`);
+    } finally {
+      refreshing.delete(key);
+    }
+  })();
+}
+
+async function invalidate(schema: CommandSchema, args: unknown, store: CacheStore): Promise<void> {
+  const tags = resolveTags(schema.cache?.invalidates, args);
+  if (tags.length > 0) await store.invalidateTags(tags);
+}
+
+function resolveTags(
+  tags: string[] | ((args: any) => string[]) | undefined,
+  args: unknown
+): string[] {
+  return typeof tags === 'function' ? tags(args) : (tags ?? []);
+}
+
+function digest(text: string): string {
+  return createHash('sha1').update(text).digest('base64url');
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { runWithAbort } from './cancellation';
+import { UniversalCommand } from './UniversalCommand';
+import { CancelledError, ExitCode, TimeoutError } from './errors';
+import type { ExecutionContext } from './types';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createCommand(options: { timeout?: number; onSignal?: (signal: AbortSignal) => void }) {
+  return new UniversalCommand({
+    name: 'test run',
+    description: 'Run tests',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    timeout: options.timeout,
+    handler: async (args, context) => {
+      options.onSignal?.(context.signal!);
+      await sleep(200);
+      return { done: true };
+    },
+  });
+}
+
+describe('cancellation', () => {
+  describe('runWithAbort', () => {
+    it('should resolve normally without a signal or timeout', async () => {
+      await expect(runWithAbort(async () => 'ok', { name: 'x' })).resolves.toBe('ok');
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      let ran = false;
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        runWithAbort(
+          async () => {
+            ran = true;
+          },
+          { name: 'x', signal: controller.signal }
+        )
+      ).rejects.toThrow(CancelledError);
+      expect(ran).toBe(false);
+    });
+
+    it('should keep command errors given as abort reasons', async () => {
+      const controller = new AbortController();
+      const run = runWithAbort(() => sleep(200), { name: 'x', signal: controller.signal });
+      controller.abort(new TimeoutError('upstream'));
+
+      await expect(run).rejects.toThrow('upstream');
+    });
+  });
+
+  describe('timeout', () => {
+    it('should abort context.signal and throw TimeoutError', async () => {
+      let signal: AbortSignal | undefined;
+      const cmd = createCommand({ timeout: 20, onSignal: (s) => (signal = s) });
+
+      const error = await cmd.execute({}, { interface: 'test' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.message).toBe("Command 'test run' timed out after 20ms");
+      expect(error.getExitCode()).toBe(ExitCode.TIMEOUT);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should keep running while a returned stream is read', async () => {
+      const cmd = new UniversalCommand({
+        name: 'logs follow',
+        description: 'Follow logs',
+        input: { parameters: [] },
+        output: { type: 'text' },
+        timeout: 30,
+        handler: async function* () {
+          for (;;) {
+            yield 'line\n';
+            // Ignores the signal, like a stuck upstream
+            await new Promise(() => {});
+          }
+        },
+      });
+
+      const chunks: unknown[] = [];
+      const error = await (async () => {
+        for await (const chunk of (await cmd.execute({}, { interface: 'test' })) as any) {
+          chunks.push(chunk);
+        }
+      })().catch((e) => e);
+
+      expect(chunks).toEqual(['line\n']);
+      expect(error).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should not fire when the handler finishes in time', async () => {
+      const cmd = createCommand({ timeout: 1000 });
+
+      await expect(cmd.execute({}, { interface: 'test' })).resolves.toEqual({ done: true });
+    });
+  });
+
+  describe('caller signal', () => {
+    it('should cancel execution when the caller aborts', async () => {
+      const controller = new AbortController();
+      let signal: AbortSignal | undefined;
+      const cmd = createCommand({ onSignal: (s) => (signal = s) });
+
+      const run = cmd.execute({}, { interface: 'api', signal: controller.signal });
+      await sleep(10);
+      controller.abort();
+
+      const error = await run.catch((e) => e);
+      expect(error).toBeInstanceOf(CancelledError);
+      expect(error.getExitCode()).toBe(ExitCode.INTERRUPTED);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should cancel a returned stream when the caller aborts', async () => {
+      const controller = new AbortController();
+      const cmd = new UniversalCommand({
+        name: 'logs follow',
+        description: 'Follow logs',
+        input: { parameters: [] },
+        output: { type: 'text' },
+        handler: async function* () {
+          for (let i = 0; ; i++) {
+            yield `line ${i}\n`;
+            await sleep(5);
+          }
+        },
+      });
+
+      const chunks: unknown[] = [];
+      const stream = await cmd.execute({}, { interface: 'api', signal: controller.signal });
+      const error = await (async () => {
+        for await (const chunk of stream as any) {
+          chunks.push(chunk);
+          if (chunks.length === 2) controller.abort();
+        }
+      })().catch((e) => e);
+
+      expect(chunks).toEqual(['line 0\n', 'line 1\n']);
+      expect(error).toBeInstanceOf(CancelledError);
+    });
+
+    it('should restore the caller context afterwards', async () => {
+      const controller = new AbortController();
+      const context: ExecutionContext = { interface: 'test', signal: controller.signal };
+
+      await createCommand({}).execute({}, context);
+
+      expect(context.signal).toBe(controller.signal);
+    });
+
+    it('should pass the MCP request signal through toMCP', async () => {
+      const controller = new AbortController();
+      const cmd = createCommand({});
+
+      const run = cmd.toMCP().execute({}, { signal: controller.signal });
+      controller.abort();
+
+      const result = await run;
+      expect(result.content[0].text).toBe('Error: Operation cancelled');
+    });
+
+    it('should use the request signal in toNextAPI', async () => {
+      const controller = new AbortController();
+      let signal: AbortSignal | undefined;
+      const cmd = createCommand({ onSignal: (s) => (signal = s) });
+
+      const response = cmd.toNextAPI().GET!(
+        new Request('http://localhost/api/test/run', { signal: controller.signal })
+      );
+      await sleep(10);
+      controller.abort();
+
+      expect((await response).status).toBe(499);
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Cancellation and timeouts
+ *
+ * Runs an execution under an AbortSignal that fires when the caller's
+ * signal aborts (Ctrl-C, client disconnect, MCP notifications/cancelled) or
+ * when the command's `timeout` elapses. The execution rejects as soon as the
+ * signal fires, even if the handler ignores it. For a streamed result the
+ * signal and timeout stay in force until the stream has been read.
+ */
+
+import { CancelledError, CommandError, TimeoutError } from './errors';
+
+/**
+ * Options for runWithAbort
+ */
+export interface AbortOptions {
+  /** Caller's signal */
+  signal?: AbortSignal;
+
+  /** Milliseconds before aborting with TimeoutError */
+  timeout?: number;
+
+  /** Used in the timeout message */
+  name: string;
+}
+
+/**
+ * Combined cancellation/timeout signal for one execution
+ */
+export interface AbortScope {
+  signal: AbortSignal;
+
+  /** Rejects with the CancelledError / TimeoutError once the signal fires */
+  aborted: Promise<never>;
+
+  /** Stop the timer and stop following the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Start an execution's combined signal; throws if the caller's signal has
+ * already aborted. Call dispose() once the execution (including any stream
+ * it returned) is over.
+ */
+export function createAbortScope(options: AbortOptions): AbortScope {
+  const { signal, timeout, name } = options;
+
+  throwIfCancelled(signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(toCancelledError(signal!.reason));
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timer =
+    timeout !== undefined
+      ? setTimeout(
+          () =>
+            controller.abort(new TimeoutError(`Command '${name}' timed out after ${timeout}ms`)),
+          timeout
+        )
+      : undefined;
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), {
+      once: true,
+    });
+  });
+  // Nothing may be waiting on it when it fires (a stream not read yet)
+  aborted.catch(() => {});
+
+  return {
+    signal: controller.signal,
+    aborted,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Run a function under a combined cancellation/timeout signal
+ */
+export async function runWithAbort<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  options: AbortOptions
+): Promise<T> {
+  const scope = createAbortScope(options);
+  try {
+    return await Promise.race([run(scope.signal), scope.aborted]);
+  } finally {
+    scope.dispose();
+  }
+}
+
+/**
+ * Throw the CancelledError (or TimeoutError) behind an aborted signal, e.g.
+ * between chunks of a stream consumed after execute() returned
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw toCancelledError(signal.reason);
+  }
+}
+
+/**
+ * Abort reasons that are already command errors pass through; anything else
+ * (DOMException AbortError, undefined) becomes a CancelledError.
+ */
+function toCancelledError(reason: unknown): CommandError {
+  if (reason instanceof CommandError) return reason;
+  if (reason instanceof Error && reason.name !== 'AbortError') {
+    return new CancelledError(reason.message);
+  }
+  return new CancelledError();
+}
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { AgentWorktreeManager } = require('../../../../../supernal-code-package/lib/lib/agent/AgentWorktreeManager');
@@ -34,25 +35,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<AgentStatusOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    // Capture console output if context streams provided
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const manager = new AgentWorktreeManager(process.cwd());
 
       // Print context banner
@@ -108,10 +91,7 @@ export async function handler(
         assignment: assignment || undefined,
         context: contextInfo,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Agent status check failed', {
       code: 'AGENT_STATUS_FAILED',
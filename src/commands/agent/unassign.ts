@@ -17,6 +17,11 @@ export const agentUnassignCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  confirm: {
+    message: 'Unassign and delete this worktree? Uncommitted work in it will be lost.',
+    when: (args) => args.remove && !args.keep,
+  },
+
   handlerPath: './unassign-handler',
   handlerExport: 'handler',
 
@@ -5,7 +5,9 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
+import { createPlan, type DryRunPlan } from '../../dry-run';
 
 // Import existing implementation
 const existingImpl = require('../../../../../supernal-code-package/lib/cli/commands/git/git-commit');
@@ -39,7 +41,23 @@ export interface CommitOutput {
 export async function handler(
   args: CommitInput,
   context: ExecutionContext
-): Promise<CommitOutput> {
+): Promise<CommitOutput | DryRunPlan> {
+  // Explicit file lists are previewed without touching the repository; the
+  // other modes (--nit, --auto) find their files in the legacy dry run
+  const files =
+    args.files.length > 0
+      ? args.files
+      : (args.filesOption ?? '')
+          .split(',')
+          .map((file) => file.trim())
+          .filter(Boolean);
+  if (context.dryRun && files.length > 0) {
+    return createPlan(
+      files.map((file) => ({ action: 'update', target: file, description: 'commit' })),
+      `Would commit ${files.length} file(s)${args.message ? `: ${args.message}` : ''}`
+    );
+  }
+
   try {
     // Map universal-command args to legacy format
     const options = {
@@ -56,25 +74,7 @@ export async function handler(
       auto: args.auto,
     };
 
-    // Capture stdout/stderr if provided
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...args: any[]) => {
-        const msg = args.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...args: any[]) => {
-        const msg = args.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Call existing implementation
       await existingImpl.handleCommit(args.files, options);
 
@@ -83,11 +83,7 @@ export async function handler(
         success: true,
         message: 'Commit completed',
       };
-    } finally {
-      // Restore console
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     // Map to CommandError with appropriate exit code
     throw new CommandError(
@@ -25,6 +25,8 @@ export const gitCommitCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  supportsDryRun: true,
+
   handlerPath: './commit-handler',
   handlerExport: 'handler',
 
@@ -118,6 +120,9 @@ export const gitCommitCommand = new LazyUniversalCommand({
         default: false,
       },
     ],
+    constraints: {
+      conflicts: { files: ['filesOption'] },
+    },
   },
 
   output: {
@@ -5,6 +5,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 // Import existing implementation
@@ -47,25 +48,7 @@ export async function handler(
     const quiet = args.quiet || args.q || false;
     const verbose = args.verbose === undefined ? !quiet : args.verbose;
 
-    // Capture stdout/stderr if provided
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Create instance and perform merge
       const safeMerge = new SafeMerge();
       const result = await safeMerge.performMerge({
@@ -89,11 +72,7 @@ export async function handler(
           ? 'Merge cancelled by user'
           : 'Merge failed',
       };
-    } finally {
-      // Restore console
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     // Map to CommandError with appropriate exit code
     throw new CommandError(
@@ -22,6 +22,12 @@ export const gitMergeCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  confirm: {
+    message: (args) =>
+      `Merge ${args.branch ?? 'the current branch'} and delete the local branch afterwards?`,
+    when: (args) => args.deleteLocal || args.delete,
+  },
+
   handlerPath: './merge-handler',
   handlerExport: 'handler',
 
@@ -101,6 +107,12 @@ export const gitMergeCommand = new LazyUniversalCommand({
         default: true,
       },
     ],
+    constraints: {
+      atMostOneOf: [
+        ['autoPush', 'push'],
+        ['deleteLocal', 'delete'],
+      ],
+    },
   },
 
   output: {
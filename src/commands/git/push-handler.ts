@@ -5,6 +5,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 // Import existing implementation
@@ -29,25 +30,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<PushOutput> {
   try {
-    // Capture stdout/stderr if provided
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Call existing implementation
       const result = await autoPushUpstream({
         verbose: args.verbose ?? true,
@@ -59,11 +42,7 @@ export async function handler(
         commitsPushed: result.commitsPushed || 0,
         message: result.message || (result.success ? 'Push completed' : 'Push failed'),
       };
-    } finally {
-      // Restore console
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     // Map to CommandError with appropriate exit code
     throw new CommandError(
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { auditFeatures } = require('../../../../../supernal-code-package/lib/cli/commands/planning/feature/audit');
@@ -26,24 +27,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<FeatureAuditOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Call legacy audit function
       await auditFeatures(args.featureId, {
         verbose: args.verbose,
@@ -59,10 +43,7 @@ export async function handler(
         issues: 0, // Not available from legacy
         fixed: 0, // Not available from legacy
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Feature audit failed', {
       code: 'FEATURE_AUDIT_FAILED',
@@ -69,4 +69,14 @@ export const featureAuditCommand = new LazyUniversalCommand({
   mcp: {
     toolName: 'planning_feature_audit',
   },
+
+  // Read-only audits are cached; --fix changes features, so it runs and invalidates
+  api: {
+    cacheControl: { maxAge: 30 },
+  },
+  cache: {
+    tags: ['features'],
+    when: (args) => !args.fix && !args.commit,
+    invalidates: (args) => (args.fix ? ['features'] : []),
+  },
 });
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { createFeature } = require('../../../../../supernal-code-package/lib/cli/commands/planning/feature/create');
@@ -28,24 +29,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<FeatureCreateOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Call legacy create function
       await createFeature({
         id: args.id,
@@ -62,10 +46,7 @@ export async function handler(
         featurePath: `docs/features/${args.domain}/${args.id}`,
         message: 'Feature created successfully',
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Feature creation failed', {
       code: 'FEATURE_CREATE_FAILED',
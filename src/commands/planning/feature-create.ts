@@ -81,7 +81,28 @@ export const featureCreateCommand = new LazyUniversalCommand({
     },
   },
 
+  cache: { invalidates: ['features'] },
+
   mcp: {
     toolName: 'planning_feature_create',
   },
+
+  prompts: [
+    {
+      name: 'plan-feature',
+      description: 'Create a feature, write its requirements and check their test coverage',
+      arguments: [
+        { name: 'feature', description: 'Feature ID (kebab-case)', required: true },
+        { name: 'domain', description: 'Feature domain (from supernal.yaml)', required: true },
+        { name: 'goal', description: 'What the feature should achieve', required: true },
+      ],
+      messages:
+        'Plan the feature "{{feature}}" in the {{domain}} domain. Goal: {{goal}}\n\n' +
+        '1. Create it with planning_feature_create (id "{{feature}}", domain "{{domain}}").\n' +
+        '2. Load the workflow-management scope and add one requirement per user-facing ' +
+        'behaviour with planning_req_new, passing the new feature path as `feature`.\n' +
+        '3. Run test_audit with action "requirements" and list the requirements that still ' +
+        'need tests.',
+    },
+  ],
 });
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { moveFeatureCommand } = require('../../../../../supernal-code-package/lib/cli/commands/planning/feature/move');
@@ -24,24 +25,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<FeatureMoveOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       // Call legacy move function
       await moveFeatureCommand(args.featureId, args.targetDomain, {
         projectRoot: process.cwd(),
@@ -53,10 +37,7 @@ export async function handler(
         to: args.targetDomain,
         message: `Feature ${args.featureId} moved to ${args.targetDomain}`,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Feature move failed', {
       code: 'FEATURE_MOVE_FAILED',
@@ -52,6 +52,8 @@ export const featureMoveCommand = new LazyUniversalCommand({
     },
   },
 
+  cache: { invalidates: ['features'] },
+
   mcp: {
     toolName: 'planning_feature_move',
   },
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { RequirementCommandHandler } = require('../../../../../supernal-code-package/lib/cli/commands/requirement/index');
@@ -27,24 +28,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<ReqGenerateTestsOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const handler = new RequirementCommandHandler();
       const legacyArgs = [args.requirementId];
 
@@ -59,10 +43,7 @@ export async function handler(
         requirementId: args.requirementId,
         message: 'Tests generated successfully',
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Test generation failed', {
       code: 'REQ_GENERATE_TESTS_FAILED',
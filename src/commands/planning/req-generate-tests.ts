@@ -17,6 +17,8 @@ export const planningReqGenerateTestsCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  supportsDryRun: true,
+
   handlerPath: './req-generate-tests-handler',
   handlerExport: 'handler',
 
@@ -69,5 +71,6 @@ export const planningReqGenerateTestsCommand = new LazyUniversalCommand({
 
   mcp: {
     toolName: 'planning_req_generate_tests',
+    resourceLinks: ['req://{requirementId}'],
   },
 });
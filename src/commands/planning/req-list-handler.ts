@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { RequirementCommandHandler } = require('../../../../../supernal-code-package/lib/cli/commands/requirement/index');
@@ -29,24 +30,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<ReqListOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const handler = new RequirementCommandHandler();
       const legacyArgs: string[] = [];
 
@@ -64,10 +48,7 @@ export async function handler(
         success: true,
         message: 'Requirements listed successfully',
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'List failed', {
       code: 'REQ_LIST_FAILED',
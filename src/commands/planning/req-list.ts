@@ -89,4 +89,10 @@ export const planningReqListCommand = new LazyUniversalCommand({
   mcp: {
     toolName: 'planning_req_list',
   },
+
+  // Served from the result cache until a requirement changes
+  api: {
+    cacheControl: { maxAge: 30 },
+  },
+  cache: { tags: ['requirements'] },
 });
@@ -22,6 +22,9 @@ export const planningReqNewCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  supportsDryRun: true,
+  cache: { invalidates: ['requirements'] },
+
   handlerPath: './req-new-handler',
   handlerExport: 'handler',
 
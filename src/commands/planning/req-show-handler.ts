@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { RequirementCommandHandler } = require('../../../../../supernal-code-package/lib/cli/commands/requirement/index');
@@ -25,24 +26,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<ReqShowOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const handler = new RequirementCommandHandler();
       const legacyArgs = [args.requirementId];
 
@@ -56,10 +40,7 @@ export async function handler(
         requirementId: args.requirementId,
         message: 'Requirement displayed successfully',
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Show failed', {
       code: 'REQ_SHOW_FAILED',
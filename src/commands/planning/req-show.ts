@@ -60,5 +60,10 @@ export const planningReqShowCommand = new LazyUniversalCommand({
 
   mcp: {
     toolName: 'planning_req_show',
+    // resources/read req://REQ-042 shows REQ-042
+    resource: {
+      uri: 'req://{requirementId}',
+      name: 'Requirement',
+    },
   },
 });
@@ -76,5 +76,6 @@ export const planningReqValidateCommand = new LazyUniversalCommand({
 
   mcp: {
     toolName: 'planning_req_validate',
+    resourceLinks: ['req://{requirementId}'],
   },
 });
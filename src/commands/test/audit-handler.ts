@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { auditTraceability } = require('../../../../../supernal-code-package/lib/cli/commands/test/testing/audit-traceability');
@@ -32,24 +33,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<TestAuditOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const resolvedAction = args.skipped ? 'skipped-tests' : (args.action || 'traceability');
 
       // For 'traceability' action, use existing function
@@ -103,10 +87,7 @@ export async function handler(
         action: mappedAction,
         message: `Audit completed for ${mappedAction}`,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'Test audit failed', {
       code: 'TEST_AUDIT_FAILED',
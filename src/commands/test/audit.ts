@@ -17,6 +17,8 @@ export const testAuditCommand = new LazyUniversalCommand({
     passThroughOptions: false,
   },
 
+  supportsDryRun: true,
+
   handlerPath: './audit-handler',
   handlerExport: 'handler',
 
@@ -98,4 +100,19 @@ export const testAuditCommand = new LazyUniversalCommand({
   mcp: {
     toolName: 'test_audit',
   },
+
+  prompts: [
+    {
+      name: 'triage-failing-tests',
+      description: 'Run the tests, audit them and file requirements for the failures',
+      arguments: [{ name: 'pattern', description: 'Only tests matching this pattern' }],
+      messages: ({ pattern }) =>
+        `Triage failing tests${pattern ? ` matching "${pattern}"` : ''}.\n\n` +
+        '1. Run the test tool and collect the failures.\n' +
+        '2. Run test_audit with action "all" to find skipped tests and untraced requirements.\n' +
+        '3. Group the failures by likely cause. For each group, load the workflow-management ' +
+        'scope and file a requirement with planning_req_new (requestType "bug", category ' +
+        '"testing"), quoting the failing test names.',
+    },
+  ],
 });
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const { TestCommand } = require('../../../../../supernal-code-package/lib/cli/commands/test/testing/test-command');
@@ -36,62 +37,41 @@ export async function handler(
   context: ExecutionContext
 ): Promise<TestOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
+    return await captureConsole(
+      context,
+      async (output) => {
+        const testCmd = new TestCommand();
 
-    let stdoutBuffer = '';
-    let stderrBuffer = '';
+        // Convert args to legacy format
+        const legacyOptions = {
+          watch: args.watch,
+          coverage: args.coverage,
+          verbose: args.verbose,
+          req: args.req,
+          feature: args.feature,
+          compliance: args.compliance || args.evidence,
+          since: args.since,
+          format: args.format,
+          noAutoCommit: args.noAutoCommit,
+        };
 
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        stdoutBuffer += msg;
-        context.stdout?.write(msg);
-      };
-    }
+        // Execute with proper context
+        await testCmd.execute(
+          args.action || 'help',
+          args.target,
+          legacyOptions,
+          [] // extraArgs
+        );
 
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        stderrBuffer += msg;
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
-      const testCmd = new TestCommand();
-
-      // Convert args to legacy format
-      const legacyOptions = {
-        watch: args.watch,
-        coverage: args.coverage,
-        verbose: args.verbose,
-        req: args.req,
-        feature: args.feature,
-        compliance: args.compliance || args.evidence,
-        since: args.since,
-        format: args.format,
-        noAutoCommit: args.noAutoCommit,
-      };
-
-      // Execute with proper context
-      await testCmd.execute(
-        args.action || 'help',
-        args.target,
-        legacyOptions,
-        [] // extraArgs
-      );
-
-      return {
-        success: true,
-        exitCode: 0,
-        stdout: stdoutBuffer,
-        stderr: stderrBuffer,
-      };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+        return {
+          success: true,
+          exitCode: 0,
+          stdout: output.stdout,
+          stderr: output.stderr,
+        };
+      },
+      { record: true }
+    );
   } catch (error: any) {
     throw new CommandError(error.message || 'Test execution failed', {
       code: 'TEST_FAILED',
@@ -8,6 +8,7 @@ import { wipUnregisterCommand } from '../wip-unregister';
 import { wipListCommand } from '../wip-list';
 import { wipStatusCommand } from '../wip-status';
 import { wipCleanupCommand } from '../wip-cleanup';
+import { confirmationMessage } from '../../../confirmation';
 
 describe('Workflow WIP Register Command (Universal Command)', () => {
   it('should have correct metadata', () => {
@@ -253,11 +254,19 @@ describe('Workflow WIP Cleanup Command (Universal Command)', () => {
     const v2 = wipCleanupCommand.validateArgs({
       olderThan: '14d',
       dryRun: true,
-      force: false,
     });
     expect(v2.valid).toBe(true);
   });
 
+  it('should ask for confirmation, which only CLI --yes/--force skips', () => {
+    expect(confirmationMessage(wipCleanupCommand.schema, { olderThan: '14d' })).toBe(
+      'Clean up WIP-tracked files older than 14d?'
+    );
+    expect(confirmationMessage(wipCleanupCommand.schema, { force: true })).toBe(
+      'Clean up WIP-tracked files older than 7d?'
+    );
+  });
+
   it('should pass P0-3: Lazy Loading', () => {
     expect(wipCleanupCommand['handlerLoaded']).toBe(false);
     const metadata = wipCleanupCommand.getMetadata();
@@ -272,7 +281,7 @@ describe('Workflow WIP Cleanup Command (Universal Command)', () => {
     expect(mcpTool.description.toLowerCase()).toContain('clean');
     expect(mcpTool.inputSchema.properties).toHaveProperty('olderThan');
     expect(mcpTool.inputSchema.properties).toHaveProperty('dryRun');
-    expect(mcpTool.inputSchema.properties).toHaveProperty('force');
+    expect(mcpTool.inputSchema.properties).not.toHaveProperty('force');
   });
 
   it('should have default values', () => {
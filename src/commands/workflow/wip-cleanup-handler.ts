@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const WipManager = require('../../../../../supernal-code-package/lib/wip/WipManager');
@@ -10,7 +11,6 @@ const WipManager = require('../../../../../supernal-code-package/lib/wip/WipMana
 export interface WipCleanupInput {
   olderThan?: string;
   dryRun?: boolean;
-  force?: boolean;
 }
 
 export interface WipCleanupOutput {
@@ -24,30 +24,15 @@ export async function handler(
   context: ExecutionContext
 ): Promise<WipCleanupOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const manager = new WipManager();
 
       const result = await manager.cleanup({
         olderThan: (args.olderThan || '7d').replace('d', ''),
         dryRun: args.dryRun,
-        force: args.force,
+        // The framework has already confirmed (or this is a dry run), so the
+        // manager must not prompt or read stdin again
+        force: true,
       });
 
       if (result.cleaned === 0) {
@@ -64,10 +49,7 @@ export async function handler(
         cleaned: result.cleaned,
         message: result.message || `Cleaned ${result.cleaned} files`,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'WIP cleanup failed', {
       code: 'WIP_CLEANUP_FAILED',
@@ -15,8 +15,15 @@ export const wipCleanupCommand = new LazyUniversalCommand({
     path: ['workflow', 'wip', 'cleanup'],
     allowUnknownOption: false,
     passThroughOptions: false,
+    confirmFlags: ['force'],
   },
 
+  // Deleting tracked files cannot be undone; dry runs and --yes/--force skip confirmation
+  confirm: {
+    message: (args) => `Clean up WIP-tracked files older than ${args.olderThan ?? '7d'}?`,
+  },
+  supportsDryRun: true,
+
   handlerPath: './wip-cleanup-handler',
   handlerExport: 'handler',
 
@@ -36,13 +43,6 @@ export const wipCleanupCommand = new LazyUniversalCommand({
         required: false,
         default: false,
       },
-      {
-        name: 'force',
-        type: 'boolean',
-        description: 'Skip confirmation prompts',
-        required: false,
-        default: false,
-      },
     ],
   },
 
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const WipManager = require('../../../../../supernal-code-package/lib/wip/WipManager');
@@ -33,24 +34,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<WipListOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const manager = new WipManager();
       const files = await manager.list({
         olderThan: args.olderThan ? args.olderThan.replace('d', '') : null,
@@ -92,10 +76,7 @@ export async function handler(
         files: files,
         count: files.length,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'WIP list failed', {
       code: 'WIP_LIST_FAILED',
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const WipManager = require('../../../../../supernal-code-package/lib/wip/WipManager');
@@ -32,25 +33,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<WipRegisterOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    // Capture console output
-    if (context.stdout) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const manager = new WipManager();
 
       const entry = await manager.register(args.file, {
@@ -77,10 +60,7 @@ export async function handler(
         userid: entry.userid,
         reason: entry.reason,
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'WIP registration failed', {
       code: 'WIP_REGISTER_FAILED',
@@ -3,6 +3,7 @@
  */
 
 import { ExecutionContext } from '../../types';
+import { captureConsole } from '../../console-capture';
 import { CommandError } from '../../errors';
 
 const WipManager = require('../../../../../supernal-code-package/lib/wip/WipManager');
@@ -23,24 +24,7 @@ export async function handler(
   context: ExecutionContext
 ): Promise<WipUnregisterOutput> {
   try {
-    const originalStdout = console.log;
-    const originalStderr = console.error;
-
-    if (context.stdout && !args.quiet) {
-      console.log = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stdout?.write(msg);
-      };
-    }
-
-    if (context.stderr) {
-      console.error = (...logArgs: any[]) => {
-        const msg = logArgs.map((a) => String(a)).join(' ') + '\n';
-        context.stderr?.write(msg);
-      };
-    }
-
-    try {
+    return await captureConsole(context, async () => {
       const manager = new WipManager();
       const result = await manager.unregister(args.file, { quiet: args.quiet });
 
@@ -57,10 +41,7 @@ export async function handler(
         removed: result.removed,
         message: result.message || (result.removed ? 'File unregistered' : 'File not in registry'),
       };
-    } finally {
-      console.log = originalStdout;
-      console.error = originalStderr;
-    }
+    });
   } catch (error: any) {
     throw new CommandError(error.message || 'WIP unregister failed', {
       code: 'WIP_UNREGISTER_FAILED',
@@ -0,0 +1,195 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applyFallbacks,
+  coerceEnvValue,
+  findProjectConfig,
+  getConfigValue,
+  loadProjectConfig,
+} from './config';
+import { UniversalCommand } from './UniversalCommand';
+import { createHelpGenerator } from './HelpGenerator';
+import { ValidationError } from './errors';
+import { Logger } from './logger';
+import type { Parameter } from './types';
+
+describe('parameter fallbacks', () => {
+  const base: Parameter = {
+    name: 'base',
+    type: 'string',
+    description: 'Base branch',
+    required: true,
+    env: 'SC_BRANCH_BASE',
+    config: 'git.baseBranch',
+  };
+
+  describe('applyFallbacks', () => {
+    it('should resolve argument → env → config → default', () => {
+      const params: Parameter[] = [{ ...base, required: false, default: 'main' }];
+      const config = { git: { baseBranch: 'develop' } };
+
+      expect(
+        applyFallbacks({ base: 'arg' }, params, { env: { SC_BRANCH_BASE: 'env' }, config })
+      ).toEqual({
+        args: { base: 'arg' },
+        sources: { base: 'argument' },
+      });
+      expect(applyFallbacks({}, params, { env: { SC_BRANCH_BASE: 'env' }, config })).toEqual({
+        args: { base: 'env' },
+        sources: { base: 'env' },
+      });
+      expect(applyFallbacks({}, params, { env: {}, config })).toEqual({
+        args: { base: 'develop' },
+        sources: { base: 'config' },
+      });
+      expect(applyFallbacks({}, params, { env: {}, config: {} })).toEqual({
+        args: {},
+        sources: { base: 'default' },
+      });
+    });
+
+    it('should only load config when a config key is needed', () => {
+      let loads = 0;
+      const loader = () => {
+        loads++;
+        return {};
+      };
+
+      applyFallbacks({ base: 'x' }, [base], { env: {}, config: loader });
+      expect(loads).toBe(0);
+
+      applyFallbacks({}, [base, { ...base, name: 'other' }], { env: {}, config: loader });
+      expect(loads).toBe(1);
+    });
+  });
+
+  describe('coerceEnvValue', () => {
+    it('should convert to the parameter type', () => {
+      const param = (type: Parameter['type'], extra: Partial<Parameter> = {}): Parameter => ({
+        name: 'p',
+        type,
+        description: 'P',
+        ...extra,
+      });
+
+      expect(coerceEnvValue('3', param('number'))).toBe(3);
+      expect(coerceEnvValue('three', param('number'))).toBe('three');
+      expect(coerceEnvValue('yes', param('boolean'))).toBe(true);
+      expect(coerceEnvValue('0', param('boolean'))).toBe(false);
+      expect(coerceEnvValue('a, b', param('array'))).toEqual(['a', 'b']);
+      expect(coerceEnvValue('1,2', param('array', { items: param('number') }))).toEqual([1, 2]);
+      expect(coerceEnvValue('["x"]', param('array'))).toEqual(['x']);
+      expect(coerceEnvValue('{"a":1}', param('object'))).toEqual({ a: 1 });
+    });
+  });
+
+  describe('project config', () => {
+    const root = mkdtempSync(join(tmpdir(), 'uc-config-'));
+    const nested = join(root, 'packages', 'app');
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(join(root, 'supernal.yaml'), 'git:\n  baseBranch: develop\n');
+
+    afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+    it('should find the nearest config walking up', () => {
+      expect(findProjectConfig(nested)).toBe(join(root, 'supernal.yaml'));
+    });
+
+    it('should parse YAML and read dotted keys', () => {
+      const config = loadProjectConfig(nested);
+
+      expect(getConfigValue(config, 'git.baseBranch')).toBe('develop');
+      expect(getConfigValue(config, 'git.missing.key')).toBeUndefined();
+    });
+
+    it('should prefer JSON config in a closer directory', () => {
+      writeFileSync(join(nested, 'supernal.json'), '{"git":{"baseBranch":"trunk"}}');
+
+      expect(getConfigValue(loadProjectConfig(nested), 'git.baseBranch')).toBe('trunk');
+    });
+  });
+
+  describe('UniversalCommand', () => {
+    const createCommand = () =>
+      new UniversalCommand({
+        name: 'git merge',
+        description: 'Merge',
+        input: {
+          parameters: [
+            base,
+            { name: 'retries', type: 'number', description: 'Retries', env: 'SC_RETRIES' },
+          ],
+        },
+        output: { type: 'json' },
+        handler: async (args) => args,
+      });
+
+    it('should apply fallbacks in execute for every interface', async () => {
+      const cmd = createCommand();
+
+      await expect(
+        cmd.execute({} as any, {
+          interface: 'mcp',
+          env: { SC_BRANCH_BASE: 'main', SC_RETRIES: '2' },
+        })
+      ).resolves.toEqual({ base: 'main', retries: 2 });
+      await expect(
+        cmd.execute({} as any, {
+          interface: 'api',
+          env: {},
+          config: { git: { baseBranch: 'develop' } },
+        })
+      ).resolves.toEqual({ base: 'develop' });
+    });
+
+    it('should log where fallback values came from at debug level', async () => {
+      const messages: string[] = [];
+      const logger = new Logger((entry) => messages.push(entry.message), { level: 'debug' });
+
+      await createCommand().execute({} as any, {
+        interface: 'cli',
+        env: { SC_RETRIES: '2' },
+        config: { git: { baseBranch: 'develop' } },
+        logger,
+      });
+
+      expect(messages).toEqual([
+        'Using base from config git.baseBranch',
+        'Using retries from env SC_RETRIES',
+      ]);
+    });
+
+    it('should still require a value from some source', async () => {
+      const cmd = createCommand();
+
+      await expect(
+        cmd.execute({} as any, { interface: 'api', env: {}, config: {} })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should validate env values like arguments', async () => {
+      const cmd = createCommand();
+      const error = await cmd
+        .execute({ base: 'main' } as any, { interface: 'api', env: { SC_RETRIES: 'many' } })
+        .catch((e) => e);
+
+      expect(error.errors).toEqual([{ path: 'retries', message: 'Must be a number' }]);
+    });
+
+    it('should let callers omit parameters with fallbacks', () => {
+      const cmd = createCommand();
+
+      expect(cmd.toMCP().inputSchema.required).toBeUndefined();
+      expect(cmd.toCLI().options.find((o: any) => o.long === '--base').mandatory).toBe(false);
+    });
+
+    it('should show fallback sources in help', () => {
+      const help = createHelpGenerator().generateHelp(createCommand());
+
+      expect(help).toContain('env: SC_BRANCH_BASE');
+      expect(help).toContain('config: git.baseBranch');
+    });
+  });
+});
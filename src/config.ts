@@ -0,0 +1,228 @@
+/**
+ * Parameter fallbacks
+ *
+ * Resolves parameters the caller left out from the environment
+ * (`Parameter.env`) and the project config file (`Parameter.config`), in the
+ * order: explicit argument → env → project config → default. Defaults are
+ * applied later by validation.
+ */
+
+import { createRequire } from 'node:module';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ConfigurationError } from './errors';
+import type { Parameter } from './types';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Project config file names, in lookup order
+ */
+export const PROJECT_CONFIG_FILES = ['supernal.yaml', 'supernal.yml', 'supernal.json'];
+
+/**
+ * Where a parameter's value came from
+ */
+export type ValueSource = 'argument' | 'env' | 'config' | 'default';
+
+/**
+ * Inputs for applyFallbacks
+ */
+export interface FallbackOptions {
+  /** Environment variables (default: process.env) */
+  env?: Record<string, string | undefined>;
+
+  /** Project config, or a loader called only when a config key is needed */
+  config?: Record<string, any> | (() => Record<string, any>);
+}
+
+/** Parsed config files, keyed by path and invalidated on modification */
+const configCache = new Map<string, { mtimeMs: number; config: Record<string, any> }>();
+
+/**
+ * Find the nearest project config file, walking up from a directory
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+  for (let dir = resolve(startDir); ; dir = dirname(dir)) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+/**
+ * Load the nearest project config file ({} when there is none)
+ *
+ * YAML files need the optional `yaml` package.
+ */
+export function loadProjectConfig(startDir?: string): Record<string, any> {
+  const path = findProjectConfig(startDir);
+  if (!path) return {};
+
+  const { mtimeMs } = statSync(path);
+  const cached = configCache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  const text = readFileSync(path, 'utf-8');
+  let config: unknown;
+
+  if (path.endsWith('.json')) {
+    try {
+      config = JSON.parse(text);
+    } catch (error: any) {
+      throw new ConfigurationError(`Invalid JSON in ${path}: ${error.message}`);
+    }
+  } else {
+    let YAML: any;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      YAML = require('yaml');
+    } catch {
+      throw new ConfigurationError(
+        `yaml package is required to read ${path}. Install with: npm install yaml`
+      );
+    }
+
+    try {
+      config = YAML.parse(text);
+    } catch (error: any) {
+      throw new ConfigurationError(`Invalid YAML in ${path}: ${error.message}`);
+    }
+  }
+
+  const result = config && typeof config === 'object' ? (config as Record<string, any>) : {};
+  configCache.set(path, { mtimeMs, config: result });
+  return result;
+}
+
+/**
+ * Read a dotted key (e.g. 'git.baseBranch') from a config object
+ */
+export function getConfigValue(config: Record<string, any>, key: string): any {
+  let value: any = config;
+  for (const segment of key.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Convert an environment variable to the parameter's type
+ *
+ * Values that cannot be converted are returned unchanged so validation
+ * reports them against the parameter.
+ */
+export function coerceEnvValue(value: string, param: Parameter): any {
+  switch (param.type) {
+    case 'number': {
+      const number = Number(value);
+      return value.trim() !== '' && !isNaN(number) ? number : value;
+    }
+
+    case 'boolean':
+      if (/^(1|true|yes|on)$/i.test(value)) return true;
+      if (/^(0|false|no|off)?$/i.test(value)) return false;
+      return value;
+
+    case 'array': {
+      if (value.trim().startsWith('[')) {
+        return parseJSON(value);
+      }
+      const items = value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return param.items ? items.map((item) => coerceEnvValue(item, param.items!)) : items;
+    }
+
+    case 'object':
+      return parseJSON(value);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Fill in missing arguments from env and project config
+ *
+ * Returns the arguments with fallbacks applied and the source of every
+ * parameter that has a value (parameters left for their default are marked
+ * 'default').
+ */
+export function applyFallbacks(
+  args: unknown,
+  parameters: Parameter[],
+  options: FallbackOptions = {}
+): { args: Record<string, any>; sources: Record<string, ValueSource> } {
+  const result: Record<string, any> = { ...((args as Record<string, any>) ?? {}) };
+  const sources: Record<string, ValueSource> = {};
+  const env = options.env ?? process.env;
+  let config: Record<string, any> | undefined;
+
+  for (const param of parameters) {
+    if (result[param.name] !== undefined) {
+      sources[param.name] = 'argument';
+      continue;
+    }
+
+    const envValue = param.env !== undefined ? env[param.env] : undefined;
+    if (envValue !== undefined) {
+      result[param.name] = coerceEnvValue(envValue, param);
+      sources[param.name] = 'env';
+      continue;
+    }
+
+    if (param.config) {
+      config ??= readConfigOption(options.config);
+      const configValue = getConfigValue(config, param.config);
+      if (configValue !== undefined) {
+        result[param.name] = configValue;
+        sources[param.name] = 'config';
+        continue;
+      }
+    }
+
+    if (param.default !== undefined) {
+      sources[param.name] = 'default';
+    }
+  }
+
+  return { args: result, sources };
+}
+
+/**
+ * Whether a parameter can be filled from env or project config
+ */
+export function hasFallback(param: Parameter): boolean {
+  return Boolean(param.env || param.config);
+}
+
+/**
+ * Describe a parameter's fallbacks for help output, in resolution order
+ * Example: ['env: SC_BRANCH_BASE', 'config: git.baseBranch']
+ */
+export function describeFallbacks(param: Parameter): string[] {
+  const lines: string[] = [];
+  if (param.env) lines.push(`env: ${param.env}`);
+  if (param.config) lines.push(`config: ${param.config}`);
+  return lines;
+}
+
+function readConfigOption(option: FallbackOptions['config']): Record<string, any> {
+  return (typeof option === 'function' ? option() : option) ?? {};
+}
+
+function parseJSON(value: string): any {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CONFIRMATION_HEADER,
+  confirmationMessage,
+  createConfirmationToken,
+  verifyConfirmationToken,
+} from './confirmation';
+import { UniversalCommand } from './UniversalCommand';
+import { CancelledError, ConfirmationRequiredError, ExitCode } from './errors';
+import { gitMergeCommand } from './commands/git/merge';
+
+function createCommand(handler = vi.fn(async () => ({ deleted: true }))) {
+  const cmd = new UniversalCommand({
+    name: 'branch delete',
+    description: 'Delete a branch',
+    input: {
+      parameters: [
+        { name: 'name', type: 'string', description: 'Branch', required: true },
+        { name: 'remote', type: 'boolean', description: 'Also delete on the remote' },
+      ],
+    },
+    output: { type: 'json' },
+    api: { method: 'POST' },
+    confirm: {
+      message: (args) => `Delete ${args.name}?`,
+      when: (args) => args.remote === true,
+    },
+    handler,
+  });
+  return { cmd, handler };
+}
+
+describe('confirmation', () => {
+  it('should only ask when the rule applies', () => {
+    const { cmd } = createCommand();
+
+    expect(confirmationMessage(cmd.schema, { name: 'x' })).toBeUndefined();
+    expect(confirmationMessage(cmd.schema, { name: 'x', remote: true })).toBe('Delete x?');
+  });
+
+  it('should use a default message for dangerous commands', () => {
+    expect(confirmationMessage({ name: 'db reset', dangerous: true } as any, {})).toBe(
+      "Run 'db reset'? This cannot be undone."
+    );
+  });
+
+  describe('execute', () => {
+    it('should run without confirmation when not needed', async () => {
+      const { cmd, handler } = createCommand();
+
+      await cmd.execute({ name: 'x' }, { interface: 'test' });
+
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should refuse to run without a way to confirm', async () => {
+      const { cmd, handler } = createCommand();
+
+      const error = await cmd
+        .execute({ name: 'x', remote: true }, { interface: 'cli' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfirmationRequiredError);
+      expect(error.message).toBe('Delete x? Pass --yes to confirm');
+      expect(error.getExitCode()).toBe(ExitCode.USAGE);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should ask context.confirm and cancel when declined', async () => {
+      const { cmd, handler } = createCommand();
+      const confirm = vi.fn(async () => false);
+
+      await expect(
+        cmd.execute({ name: 'x', remote: true }, { interface: 'cli', confirm })
+      ).rejects.toThrow(CancelledError);
+
+      expect(confirm).toHaveBeenCalledWith('Delete x?');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should skip the question when already confirmed', async () => {
+      const { cmd, handler } = createCommand();
+      const confirm = vi.fn(async () => false);
+
+      await cmd.execute(
+        { name: 'x', remote: true },
+        { interface: 'cli', confirm, confirmed: true }
+      );
+
+      expect(confirm).not.toHaveBeenCalled();
+      expect(handler).toHaveBeenCalled();
+    });
+  });
+
+  describe('tokens', () => {
+    it('should bind a token to the command and arguments', () => {
+      const token = createConfirmationToken('branch delete', { name: 'x', remote: true });
+
+      expect(verifyConfirmationToken(token, 'branch delete', { remote: true, name: 'x' })).toBe(
+        true
+      );
+      expect(verifyConfirmationToken(token, 'branch delete', { name: 'y', remote: true })).toBe(
+        false
+      );
+      expect(verifyConfirmationToken(token, 'other', { name: 'x', remote: true })).toBe(false);
+      expect(verifyConfirmationToken('garbage', 'branch delete', {})).toBe(false);
+    });
+
+    it('should reject expired tokens', () => {
+      const token = createConfirmationToken('branch delete', {}, Date.now() - 1);
+
+      expect(verifyConfirmationToken(token, 'branch delete', {})).toBe(false);
+    });
+
+    it('should require a token round trip over the API', async () => {
+      const { cmd, handler } = createCommand();
+      const request = (headers: Record<string, string> = {}) =>
+        new Request('http://localhost/api/branch/delete', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ name: 'x', remote: true }),
+        });
+
+      const first = await cmd.toNextAPI().POST!(request());
+      const body = await first.json();
+
+      expect(first.status).toBe(428);
+      expect(body.details.code).toBe('CONFIRMATION_REQUIRED');
+      expect(handler).not.toHaveBeenCalled();
+
+      const second = await cmd.toNextAPI().POST!(
+        request({ [CONFIRMATION_HEADER]: body.details.confirmationToken })
+      );
+
+      expect(second.status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('MCP', () => {
+    it('should mark tools that need confirmation as destructive', () => {
+      expect(createCommand().cmd.toMCP().annotations).toEqual({ destructiveHint: true });
+      expect(gitMergeCommand.toMCP().annotations).toEqual({ destructiveHint: true });
+    });
+
+    it('should confirm through elicitation', async () => {
+      const { cmd, handler } = createCommand();
+      const sendRequest = vi.fn(async () => ({ action: 'accept', content: { confirm: true } }));
+
+      await cmd.toMCP().execute({ name: 'x', remote: true }, { sendRequest });
+
+      expect((sendRequest.mock.calls[0] as any[])[0]).toMatchObject({
+        method: 'elicitation/create',
+        params: { message: 'Delete x?' },
+      });
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should not run when the client cannot elicit', async () => {
+      const { cmd, handler } = createCommand();
+      const sendRequest = vi.fn(async () => {
+        throw new Error('Method not found');
+      });
+
+      const result = await cmd.toMCP().execute({ name: 'x', remote: true }, { sendRequest });
+
+      expect(result.content[0].text).toContain('could not be asked to confirm');
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should add --yes to destructive CLI commands', () => {
+    const flags = createCommand()
+      .cmd.toCLI()
+      .options.map((o: any) => o.long);
+
+    expect(flags).toContain('--yes');
+  });
+
+  it('should confirm through CLI-only confirmFlags', async () => {
+    const handler = vi.fn(async () => ({ deleted: true }));
+    const cmd = new UniversalCommand({
+      name: 'branch prune',
+      description: 'Prune branches',
+      input: { parameters: [] },
+      output: { type: 'json' },
+      cli: { confirmFlags: ['force'] },
+      confirm: { message: 'Prune branches?' },
+      handler,
+    });
+    const cli = cmd.toCLI();
+    cli.exitOverride();
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await cli.parseAsync(['--force'], { from: 'user' });
+    } finally {
+      console.log = log;
+    }
+
+    expect(handler).toHaveBeenCalledWith({}, expect.objectContaining({ confirmed: true }));
+    expect(cmd.toMCP().inputSchema.properties).not.toHaveProperty('force');
+    await expect(cmd.execute({ force: true } as any, { interface: 'api' })).rejects.toThrow(
+      ConfirmationRequiredError
+    );
+  });
+});
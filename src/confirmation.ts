@@ -0,0 +1,185 @@
+/**
+ * Confirmation for destructive commands
+ *
+ * Commands declare `dangerous: true` or a `confirm` rule in their schema and
+ * execute() refuses to run them until the caller confirms: a y/N prompt or
+ * --yes in the CLI, a confirmation token echoed back by API clients, or MCP
+ * elicitation.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { CancelledError, ConfirmationRequiredError } from './errors';
+import { elicit } from './prompting';
+import type { CommandSchema, ExecutionContext, MCPRequestExtra } from './types';
+
+/**
+ * When and how to ask for confirmation
+ */
+export interface ConfirmOptions<TInput = any> {
+  /** Question shown to the user (default: "Run '<name>'? This cannot be undone.") */
+  message?: string | ((args: TInput) => string);
+
+  /** Only ask for some arguments, e.g. args => args.deleteLocal (default: always) */
+  when?: (args: TInput) => boolean;
+}
+
+/**
+ * Request header carrying the confirmation token for API calls
+ */
+export const CONFIRMATION_HEADER = 'x-confirmation-token';
+
+/** How long an API confirmation token stays valid */
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/** Signs confirmation tokens; tokens do not survive a restart */
+const secret = randomBytes(32);
+
+/**
+ * Whether a command may ask for confirmation (for --yes and MCP annotations)
+ */
+export function isDestructive(schema: CommandSchema): boolean {
+  return schema.dangerous === true || schema.confirm !== undefined;
+}
+
+/**
+ * The question to ask before running with these arguments, or undefined when
+ * no confirmation is needed
+ */
+export function confirmationMessage(schema: CommandSchema, args: any): string | undefined {
+  const confirm = schema.confirm ?? (schema.dangerous ? {} : undefined);
+  if (!confirm || (confirm.when && !confirm.when(args))) {
+    return undefined;
+  }
+
+  const { message } = confirm;
+  if (typeof message === 'function') return message(args);
+  return message ?? `Run '${schema.name}'? This cannot be undone.`;
+}
+
+/**
+ * Throw unless the caller confirmed a destructive execution
+ *
+ * Dry runs need no confirmation. Otherwise accepts, in order:
+ * context.confirmed, a valid context.confirmationToken, or a yes from
+ * context.confirm. Throws ConfirmationRequiredError when the
+ * caller has no way to confirm (API errors carry a fresh token) and
+ * CancelledError when the user declines.
+ */
+export async function requireConfirmation(
+  schema: CommandSchema,
+  args: any,
+  context: ExecutionContext
+): Promise<void> {
+  const message = confirmationMessage(schema, args);
+  if (!message || context.confirmed || context.dryRun) return;
+
+  if (context.confirmationToken !== undefined) {
+    if (verifyConfirmationToken(context.confirmationToken, schema.name, args)) return;
+    throw new ConfirmationRequiredError(
+      `${message} The confirmation token is invalid or expired; retry with the new token`,
+      createConfirmationToken(schema.name, args)
+    );
+  }
+
+  if (context.confirm) {
+    if (await context.confirm(message)) return;
+    throw new CancelledError(`'${schema.name}' was not confirmed`);
+  }
+
+  switch (context.interface) {
+    case 'api':
+      throw new ConfirmationRequiredError(
+        `${message} Retry with the ${CONFIRMATION_HEADER} header to confirm`,
+        createConfirmationToken(schema.name, args)
+      );
+    case 'cli':
+      throw new ConfirmationRequiredError(`${message} Pass --yes to confirm`);
+    case 'mcp':
+      throw new ConfirmationRequiredError(
+        `${message} The client must support elicitation to confirm`
+      );
+    default:
+      throw new ConfirmationRequiredError(`${message} Set context.confirmed to confirm`);
+  }
+}
+
+/**
+ * Token confirming one command with exactly these arguments
+ */
+export function createConfirmationToken(
+  name: string,
+  args: any,
+  expires: number = Date.now() + TOKEN_TTL_MS
+): string {
+  return `${expires}.${sign(name, args, expires)}`;
+}
+
+/**
+ * Check a token from createConfirmationToken
+ */
+export function verifyConfirmationToken(token: string, name: string, args: any): boolean {
+  const [expiresText, signature] = token.split('.');
+  const expires = Number(expiresText);
+  if (!signature || !Number.isFinite(expires) || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(name, args, expires));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Confirm through MCP elicitation (a yes/no form shown by the client)
+ *
+ * Returns undefined when the transport cannot send requests to the client.
+ */
+export function createMCPConfirm(
+  extra: MCPRequestExtra | undefined
+): ((message: string) => Promise<boolean>) | undefined {
+  const sendRequest = extra?.sendRequest;
+  if (!sendRequest) return undefined;
+
+  return async (message) => {
+    let result: any;
+    try {
+      result = await elicit(sendRequest, message, {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Confirm', description: message },
+        },
+        required: ['confirm'],
+      });
+    } catch (error: any) {
+      throw new ConfirmationRequiredError(
+        `${message} The client could not be asked to confirm (${error.message})`
+      );
+    }
+
+    return result?.action === 'accept' && result.content?.confirm === true;
+  };
+}
+
+function sign(name: string, args: any, expires: number): string {
+  return createHmac('sha256', secret)
+    .update(`${name}\n${expires}\n${stableStringify(args)}`)
+    .digest('base64url');
+}
+
+/**
+ * JSON with sorted keys, so equal values always serialize the same (used for
+ * confirmation signatures and for cache keys and ETags)
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
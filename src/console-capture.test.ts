@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'stream';
+import { captureConsole } from './console-capture';
+import { Logger, type LogEntry } from './logger';
+import { UniversalCommand } from './UniversalCommand';
+
+function createStream() {
+  let output = '';
+  const stream = new Writable({
+    write(chunk, encoding, callback) {
+      output += chunk.toString();
+      callback();
+    },
+  });
+  return { stream, output: () => output };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('captureConsole', () => {
+  it('should route console output to the context streams', async () => {
+    const stdout = createStream();
+    const stderr = createStream();
+
+    await captureConsole(
+      { interface: 'cli', stdout: stdout.stream, stderr: stderr.stream },
+      async () => {
+        console.log('Committed %d files', 2);
+        console.error('hook warning');
+      }
+    );
+
+    expect(stdout.output()).toBe('Committed 2 files\n');
+    expect(stderr.output()).toBe('hook warning\n');
+  });
+
+  it('should keep concurrent executions apart', async () => {
+    const a = createStream();
+    const b = createStream();
+
+    await Promise.all([
+      captureConsole({ interface: 'api', stdout: a.stream }, async () => {
+        console.log('a1');
+        await tick();
+        console.log('a2');
+      }),
+      captureConsole({ interface: 'api', stdout: b.stream }, async () => {
+        await tick();
+        console.log('b1');
+      }),
+    ]);
+
+    expect(a.output()).toBe('a1\na2\n');
+    expect(b.output()).toBe('b1\n');
+  });
+
+  it('should fall back to context.logger without streams', async () => {
+    const entries: LogEntry[] = [];
+    const logger = new Logger((entry) => entries.push(entry), { level: 'debug' });
+
+    await captureConsole({ interface: 'mcp', logger }, async () => {
+      console.log('listing');
+      console.warn('stale');
+      console.debug('details');
+    });
+
+    expect(entries.map((e) => [e.level, e.message])).toEqual([
+      ['info', 'listing'],
+      ['warn', 'stale'],
+      ['debug', 'details'],
+    ]);
+  });
+
+  it('should record output when asked', async () => {
+    const result = await captureConsole(
+      { interface: 'test' },
+      async (output) => {
+        console.log('out');
+        console.error('err');
+        return output;
+      },
+      { record: true }
+    );
+
+    expect(result).toEqual({ stdout: 'out\n', stderr: 'err\n' });
+  });
+
+  it('should redact secret arguments from captured output', async () => {
+    const stdout = createStream();
+    const cmd = new UniversalCommand({
+      name: 'deploy',
+      description: 'Deploy',
+      input: {
+        parameters: [{ name: 'token', type: 'string', description: 'Token', secret: true }],
+      },
+      output: { type: 'json' },
+      handler: async (args, context) =>
+        captureConsole(
+          context,
+          async (output) => {
+            console.log(`Using token ${args.token}`);
+            return output;
+          },
+          { record: true }
+        ),
+    });
+
+    const output = await cmd.execute(
+      { token: 'hunter2-secret' },
+      { interface: 'cli', stdout: stdout.stream }
+    );
+
+    expect(stdout.output()).toBe('Using token [REDACTED]\n');
+    expect(output.stdout).toBe('Using token [REDACTED]\n');
+  });
+
+  it('should leave console calls outside a capture alone', async () => {
+    const captured = createStream();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+
+    const run = captureConsole({ interface: 'api', stdout: captured.stream }, () => gate);
+    console.log('outside');
+    release();
+    await run;
+
+    expect(captured.output()).toBe('');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Console capture for legacy handlers
+ *
+ * Handlers wrapping older code that prints with console.log used to swap the
+ * global console methods for the duration of a call, which leaks output
+ * between concurrent API/MCP requests. captureConsole patches the console
+ * once and routes each call through AsyncLocalStorage to the execution that
+ * made it; calls made outside any capture reach the real console.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { format } from 'node:util';
+import { silentLogger, type Logger } from './logger';
+import { redactSecrets, secretsOf } from './secrets';
+import type { ExecutionContext } from './types';
+
+/**
+ * Output recorded by captureConsole when `record` is set
+ */
+export interface CapturedOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Options for captureConsole
+ */
+export interface CaptureOptions {
+  /** Also keep the text written, e.g. to return it in the result */
+  record?: boolean;
+}
+
+interface Capture {
+  context: ExecutionContext;
+  logger: Logger;
+  output: CapturedOutput;
+  record: boolean;
+}
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+const storage = new AsyncLocalStorage<Capture>();
+let installed = false;
+
+/**
+ * Run legacy code with its console output scoped to one execution
+ *
+ * console.log/info go to context.stdout and console.warn/error to
+ * context.stderr; without those streams they go to context.logger. Secret
+ * argument values are redacted from all of it.
+ */
+export function captureConsole<T>(
+  context: ExecutionContext,
+  run: (output: CapturedOutput) => Promise<T>,
+  options: CaptureOptions = {}
+): Promise<T> {
+  install();
+
+  const capture: Capture = {
+    context,
+    logger: context.logger ?? silentLogger,
+    output: { stdout: '', stderr: '' },
+    record: options.record ?? false,
+  };
+  return storage.run(capture, () => run(capture.output));
+}
+
+/**
+ * Patch the console methods once; each call checks for an active capture
+ */
+function install(): void {
+  if (installed) return;
+  installed = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as ConsoleMethod[]) {
+    const original = console[method];
+    console[method] = (...args: any[]) => {
+      const capture = storage.getStore();
+      if (!capture) {
+        original.apply(console, args);
+        return;
+      }
+      write(capture, method, redactSecrets(format(...args), secretsOf(capture.context) ?? []));
+    };
+  }
+}
+
+function write(capture: Capture, method: ConsoleMethod, text: string): void {
+  const { context, logger, output, record } = capture;
+
+  if (method === 'debug') {
+    logger.debug(text);
+    return;
+  }
+
+  const isError = method === 'warn' || method === 'error';
+  if (record) {
+    output[isError ? 'stderr' : 'stdout'] += text + '\n';
+  }
+
+  const stream = isError ? context.stderr : context.stdout;
+  if (stream) {
+    stream.write(text + '\n');
+  } else if (method === 'log' || method === 'info') {
+    logger.info(text);
+  } else {
+    logger[method](text);
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { checkConstraints, constraintsToJSONSchema, describeConstraints } from './constraints';
+import { UniversalCommand } from './UniversalCommand';
+import { HelpGenerator } from './HelpGenerator';
+import type { InputConstraints } from './types';
+
+describe('checkConstraints', () => {
+  it('should report conflicting parameters', () => {
+    const constraints: InputConstraints = { conflicts: { files: ['filesOption'] } };
+
+    expect(checkConstraints({ files: ['a'], filesOption: 'a' }, constraints)).toEqual([
+      { path: 'files', message: "Cannot be used together with 'filesOption'" },
+    ]);
+    expect(checkConstraints({ files: [], filesOption: 'a' }, constraints)).toEqual([]);
+  });
+
+  it('should report missing implied parameters', () => {
+    const constraints: InputConstraints = { implies: { deleteLocal: ['branch'] } };
+
+    expect(checkConstraints({ deleteLocal: true }, constraints)).toEqual([
+      { path: 'deleteLocal', message: "Requires 'branch'" },
+    ]);
+    expect(checkConstraints({ deleteLocal: true, branch: 'x' }, constraints)).toEqual([]);
+    expect(checkConstraints({ deleteLocal: false }, constraints)).toEqual([]);
+  });
+
+  it('should require exactly one of a group', () => {
+    const constraints: InputConstraints = { requiresOneOf: [['id', 'name']] };
+
+    expect(checkConstraints({ id: 1 }, constraints)).toEqual([]);
+    expect(checkConstraints({}, constraints)).toHaveLength(1);
+    expect(checkConstraints({ id: 1, name: 'x' }, constraints)).toEqual([
+      { path: '', message: "Exactly one of 'id', 'name' is required" },
+    ]);
+  });
+
+  it('should allow at most one of a group', () => {
+    const constraints: InputConstraints = { atMostOneOf: [['push', 'autoPush']] };
+
+    expect(checkConstraints({}, constraints)).toEqual([]);
+    expect(checkConstraints({ push: true, autoPush: false }, constraints)).toEqual([]);
+    expect(checkConstraints({ push: true, autoPush: true }, constraints)).toEqual([
+      { path: 'autoPush', message: "Only one of 'push', 'autoPush' may be given" },
+    ]);
+  });
+});
+
+describe('constraintsToJSONSchema', () => {
+  it('should emit dependentRequired and dependentSchemas', () => {
+    expect(
+      constraintsToJSONSchema({
+        implies: { deleteLocal: ['branch'] },
+        conflicts: { files: ['filesOption'] },
+      })
+    ).toEqual({
+      dependentRequired: { deleteLocal: ['branch'] },
+      dependentSchemas: { files: { not: { anyOf: [{ required: ['filesOption'] }] } } },
+    });
+  });
+
+  it('should emit oneOf for a single group and allOf for several', () => {
+    expect(constraintsToJSONSchema({ requiresOneOf: [['a', 'b']] })).toEqual({
+      oneOf: [{ required: ['a'] }, { required: ['b'] }],
+    });
+
+    expect(
+      constraintsToJSONSchema({ requiresOneOf: [['a', 'b']], atMostOneOf: [['c', 'd']] })
+    ).toEqual({
+      allOf: [
+        { oneOf: [{ required: ['a'] }, { required: ['b'] }] },
+        { not: { anyOf: [{ required: ['c', 'd'] }] } },
+      ],
+    });
+  });
+});
+
+describe('UniversalCommand constraints', () => {
+  const createCommand = (handler = async (args: any) => args) =>
+    new UniversalCommand({
+      name: 'git commit',
+      description: 'Commit files',
+      input: {
+        parameters: [
+          {
+            name: 'files',
+            type: 'array',
+            description: 'Files',
+            positional: true,
+            variadic: true,
+            default: [],
+          },
+          { name: 'filesOption', type: 'string', description: 'Comma-separated files' },
+        ],
+        constraints: { conflicts: { files: ['filesOption'] } },
+      },
+      output: { type: 'json' },
+      handler,
+    });
+  const cmd = createCommand();
+
+  it('should fail validation on conflicts', () => {
+    const result = cmd.validateArgs({ files: ['a.ts'], filesOption: 'b.ts' });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: 'files', message: "Cannot be used together with 'filesOption'" },
+    ]);
+  });
+
+  it('should reject conflicts through MCP', async () => {
+    const result = await cmd.toMCP().execute({ files: ['a.ts'], filesOption: 'b.ts' });
+    expect(result.content[0].text).toContain('Invalid command arguments');
+  });
+
+  it('should include constraints in the MCP input schema', () => {
+    expect(cmd.toMCP().inputSchema.dependentSchemas).toEqual({
+      files: { not: { anyOf: [{ required: ['filesOption'] }] } },
+    });
+  });
+
+  it('should describe constraints in CLI help', () => {
+    let help = '';
+    const cli = cmd.toCLI();
+    cli.configureOutput({ writeOut: (str: string) => (help += str) });
+    cli.outputHelp();
+
+    expect(help).toContain('Constraints:');
+    expect(help).toContain('<files> cannot be used with --filesOption');
+  });
+
+  it('should describe constraints in generated help', () => {
+    const help = new HelpGenerator().generateHelp(cmd);
+    expect(help).toContain('CONSTRAINTS');
+    expect(describeConstraints(cmd.schema.input.constraints, cmd.getParameters())).toEqual([
+      '<files> cannot be used with --filesOption',
+    ]);
+  });
+
+  it('should not count CLI defaults as given', async () => {
+    let result: any;
+    const cli = createCommand(async (args: any) => (result = args)).toCLI();
+    cli.exitOverride();
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await cli.parseAsync(['--filesOption', 'b.ts'], { from: 'user' });
+    } finally {
+      console.log = log;
+    }
+
+    expect(result).toEqual({ files: [], filesOption: 'b.ts' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Cross-parameter constraints
+ *
+ * Enforces `input.constraints` (conflicts, implies, requiresOneOf, atMostOneOf)
+ * the same way for every interface, and renders them for help text and
+ * JSON Schema.
+ */
+
+import type { InputConstraints, Parameter } from './types';
+import type { ValidationIssue } from './validation';
+
+/**
+ * Whether a parameter was given (undefined, null, false and [] do not count)
+ */
+export function isGiven(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return false;
+  if (Array.isArray(value) && value.length === 0) return false;
+  return true;
+}
+
+/**
+ * Check raw arguments against constraints
+ */
+export function checkConstraints(
+  args: unknown,
+  constraints: InputConstraints | undefined
+): ValidationIssue[] {
+  if (!constraints) return [];
+
+  const errors: ValidationIssue[] = [];
+  const given = (name: string) => isGiven((args as any)?.[name]);
+
+  for (const [name, others] of Object.entries(constraints.conflicts || {})) {
+    if (!given(name)) continue;
+    for (const other of others) {
+      if (given(other)) {
+        errors.push({ path: name, message: `Cannot be used together with '${other}'` });
+      }
+    }
+  }
+
+  for (const [name, required] of Object.entries(constraints.implies || {})) {
+    if (!given(name)) continue;
+    for (const other of required) {
+      if (!given(other)) {
+        errors.push({ path: name, message: `Requires '${other}'` });
+      }
+    }
+  }
+
+  for (const group of constraints.requiresOneOf || []) {
+    const count = group.filter(given).length;
+    if (count !== 1) {
+      errors.push({ path: '', message: `Exactly one of ${quoteList(group)} is required` });
+    }
+  }
+
+  for (const group of constraints.atMostOneOf || []) {
+    const present = group.filter(given);
+    if (present.length > 1) {
+      errors.push({
+        path: present[1],
+        message: `Only one of ${quoteList(group)} may be given`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Render constraints as JSON Schema keywords for the input object
+ */
+export function constraintsToJSONSchema(
+  constraints: InputConstraints | undefined
+): Record<string, any> {
+  if (!constraints) return {};
+
+  const schema: Record<string, any> = {};
+  const combined: Array<Record<string, any>> = [];
+
+  if (constraints.implies && Object.keys(constraints.implies).length > 0) {
+    schema.dependentRequired = constraints.implies;
+  }
+
+  if (constraints.conflicts && Object.keys(constraints.conflicts).length > 0) {
+    schema.dependentSchemas = Object.fromEntries(
+      Object.entries(constraints.conflicts).map(([name, others]) => [
+        name,
+        { not: { anyOf: others.map((other) => ({ required: [other] })) } },
+      ])
+    );
+  }
+
+  for (const group of constraints.requiresOneOf || []) {
+    combined.push({ oneOf: group.map((name) => ({ required: [name] })) });
+  }
+
+  for (const group of constraints.atMostOneOf || []) {
+    const pairs: string[][] = [];
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        pairs.push([group[i], group[j]]);
+      }
+    }
+    combined.push({ not: { anyOf: pairs.map((pair) => ({ required: pair })) } });
+  }
+
+  if (combined.length === 1) {
+    Object.assign(schema, combined[0]);
+  } else if (combined.length > 1) {
+    schema.allOf = combined;
+  }
+
+  return schema;
+}
+
+/**
+ * Describe constraints as human-readable lines for help output
+ * Positional parameters render as `<name>`, options as `--name`.
+ */
+export function describeConstraints(
+  constraints: InputConstraints | undefined,
+  parameters: Parameter[] = []
+): string[] {
+  if (!constraints) return [];
+
+  const positional = new Set(parameters.filter((p) => p.positional).map((p) => p.name));
+  const flag = (name: string) => (positional.has(name) ? `<${name}>` : `--${name}`);
+  const flags = (names: string[]) => names.map(flag).join(', ');
+  const lines: string[] = [];
+
+  for (const [name, others] of Object.entries(constraints.conflicts || {})) {
+    lines.push(`${flag(name)} cannot be used with ${flags(others)}`);
+  }
+  for (const [name, required] of Object.entries(constraints.implies || {})) {
+    lines.push(`${flag(name)} requires ${flags(required)}`);
+  }
+  for (const group of constraints.requiresOneOf || []) {
+    lines.push(`Exactly one of ${flags(group)} is required`);
+  }
+  for (const group of constraints.atMostOneOf || []) {
+    lines.push(`At most one of ${flags(group)} may be given`);
+  }
+
+  return lines;
+}
+
+function quoteList(names: string[]): string {
+  return names.map((name) => `'${name}'`).join(', ');
+}
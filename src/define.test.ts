@@ -0,0 +1,143 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { defineCommand } from './define';
+import type { InferArguments, InferJSONSchema, InferParameters } from './define';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+
+describe('defineCommand', () => {
+  const commit = defineCommand({
+    name: 'git commit',
+    description: 'Commit files',
+    input: {
+      parameters: [
+        { name: 'message', type: 'string', description: 'Commit message', required: true },
+        {
+          name: 'files',
+          type: 'array',
+          description: 'Files',
+          items: { name: 'file', type: 'string', description: 'File' },
+        },
+        { name: 'mode', type: 'string', description: 'Mode', enum: ['safe', 'fast'], default: 'safe' },
+      ],
+    },
+    output: {
+      type: 'json',
+      schema: {
+        type: 'object',
+        properties: { commitHash: { type: 'string' }, filesCommitted: { type: 'number' } },
+        required: ['commitHash'],
+      },
+    },
+    handler: async (args) => ({
+      commitHash: `${args.mode}:${args.message}`,
+      filesCommitted: args.files?.length ?? 0,
+    }),
+  });
+
+  it('should return a UniversalCommand', () => {
+    expect(commit).toBeInstanceOf(UniversalCommand);
+    expect(commit.schema.name).toBe('git commit');
+  });
+
+  it('should execute with defaults applied', async () => {
+    const result = await commit.execute({ message: 'init' }, { interface: 'test' });
+    expect(result).toEqual({ commitHash: 'safe:init', filesCommitted: 0 });
+  });
+
+  it('should still validate at runtime', async () => {
+    await expect(commit.execute({} as any, { interface: 'test' })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should infer input and output types', () => {
+    type Args = Parameters<typeof commit.execute>[0];
+    type Result = Awaited<ReturnType<typeof commit.execute>>;
+
+    expectTypeOf<Args>().toEqualTypeOf<{
+      message: string;
+      files?: string[];
+      mode?: 'safe' | 'fast';
+    }>();
+    expectTypeOf<Result>().toMatchTypeOf<{ commitHash: string; filesCommitted?: number }>();
+    expectTypeOf<{ commitHash: string }>().toMatchTypeOf<Result>();
+  });
+
+  it('should pass defaulted parameters to the handler as present', () => {
+    defineCommand({
+      name: 'git push',
+      description: 'Push',
+      input: {
+        parameters: [
+          { name: 'remote', type: 'string', description: 'Remote', default: 'origin' },
+          { name: 'force', type: 'boolean', description: 'Force' },
+        ],
+      },
+      output: { type: 'json' },
+      handler: async (args) => {
+        expectTypeOf(args).toEqualTypeOf<{ remote: string; force?: boolean }>();
+        return args.remote;
+      },
+    });
+  });
+});
+
+describe('type inference helpers', () => {
+  it('should map parameter types', () => {
+    type Args = InferParameters<
+      [
+        { name: 'count'; type: 'number'; description: ''; required: true },
+        { name: 'verbose'; type: 'boolean'; description: '' },
+        {
+          name: 'config';
+          type: 'object';
+          description: '';
+          properties: { retries: { name: 'retries'; type: 'number'; description: '' } };
+        },
+      ]
+    >;
+
+    expectTypeOf<Args>().toMatchTypeOf<{
+      count: number;
+      verbose?: boolean;
+      config?: { retries?: number };
+    }>();
+    expectTypeOf<{ count: number }>().toMatchTypeOf<Args>();
+  });
+
+  it('should key object properties by their record key', () => {
+    type Params = [
+      {
+        name: 'config';
+        type: 'object';
+        description: '';
+        required: true;
+        properties: {
+          retries: { name: 'ignored'; type: 'number'; description: ''; default: 3 };
+          label: { name: 'label'; type: 'string'; description: ''; nullable: true };
+        };
+      },
+    ];
+
+    expectTypeOf<InferParameters<Params>>().toEqualTypeOf<{
+      config: { retries?: number; label?: string | null };
+    }>();
+    expectTypeOf<InferArguments<Params>>().toEqualTypeOf<{
+      config: { retries: number; label?: string | null };
+    }>();
+  });
+
+  it('should map JSON Schema types', () => {
+    type Output = InferJSONSchema<{
+      type: 'object';
+      properties: {
+        status: { enum: ['ok', 'failed'] };
+        items: { type: 'array'; items: { type: 'integer' } };
+      };
+      required: ['status'];
+    }>;
+
+    expectTypeOf<Output>().toMatchTypeOf<{ status: 'ok' | 'failed'; items?: number[] }>();
+    expectTypeOf<{ status: 'ok' }>().toMatchTypeOf<Output>();
+  });
+});
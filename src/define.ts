@@ -0,0 +1,210 @@
+/**
+ * defineCommand - typed command definitions
+ *
+ * Infers TInput from a `const` parameter list and TOutput from output.schema,
+ * so a handler that disagrees with its declared schema fails to compile
+ * instead of drifting silently.
+ *
+ * @example
+ * ```typescript
+ * const commit = defineCommand({
+ *   name: 'git commit',
+ *   description: 'Commit files',
+ *   input: {
+ *     parameters: [
+ *       { name: 'message', type: 'string', description: 'Message', required: true },
+ *       { name: 'files', type: 'array', description: 'Files', items: { name: 'file', type: 'string', description: 'File' } },
+ *     ],
+ *   },
+ *   output: {
+ *     type: 'json',
+ *     schema: { type: 'object', properties: { commitHash: { type: 'string' } }, required: ['commitHash'] },
+ *   },
+ *   // args: { message: string; files?: string[] } → Promise<{ commitHash: string }>
+ *   handler: async (args) => ({ commitHash: await commit(args.message, args.files) }),
+ * });
+ * ```
+ */
+
+import { UniversalCommand } from './UniversalCommand';
+import type { CommandSchema, ExecutionContext, Parameter } from './types';
+
+// ============================================================================
+// Input inference (Parameter[] → TInput)
+// ============================================================================
+
+/**
+ * Parameter as written in a `const` literal (arrays arrive readonly)
+ */
+export type ParameterDefinition = Omit<
+  Parameter,
+  'enum' | 'aliases' | 'items' | 'properties' | 'additionalProperties'
+> & {
+  readonly enum?: readonly any[];
+  readonly aliases?: readonly string[];
+  readonly items?: ParameterDefinition;
+  readonly properties?: { readonly [key: string]: ParameterDefinition };
+  readonly additionalProperties?: boolean | ParameterDefinition;
+};
+
+interface ParameterTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+  array: unknown[];
+  object: Record<string, unknown>;
+}
+
+/** Formats whose values are coerced before reaching the handler */
+interface FormatTypeMap {
+  duration: number;
+  'date-time': Date;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Whose view of the arguments: callers may omit defaulted parameters, while
+ * the handler receives them filled in
+ */
+type Side = 'input' | 'handler';
+
+/**
+ * Value type of a single parameter
+ */
+export type InferParameter<P, S extends Side = 'input'> = P extends { nullable: true }
+  ? InferValue<P, S> | null
+  : InferValue<P, S>;
+
+type InferValue<P, S extends Side> = P extends { enum: readonly (infer E)[] }
+  ? E
+  : P extends { format: infer F extends keyof FormatTypeMap }
+    ? FormatTypeMap[F]
+    : P extends { type: 'array'; items: infer I }
+      ? InferParameter<I, S>[]
+      : P extends { type: 'object'; properties: infer Props }
+        ? InferObject<Props, S>
+        : P extends { type: infer T extends keyof ParameterTypeMap }
+          ? ParameterTypeMap[T]
+          : unknown;
+
+/** Required parameters must be passed; defaulted ones always reach the handler */
+type IsPresent<P, S extends Side> = P extends { required: true }
+  ? true
+  : S extends 'handler'
+    ? P extends { default: NonNullable<unknown> | null }
+      ? true
+      : false
+    : false;
+
+type InferProperties<Ps extends readonly unknown[], S extends Side> = Simplify<
+  {
+    [P in Ps[number] as IsPresent<P, S> extends true ? NameOf<P> : never]: InferParameter<P, S>;
+  } & {
+    [P in Ps[number] as IsPresent<P, S> extends true ? never : NameOf<P>]?: InferParameter<P, S>;
+  }
+>;
+
+/** Object properties are keyed by their record key */
+type InferObject<Props, S extends Side> = Simplify<
+  {
+    [K in keyof Props as IsPresent<Props[K], S> extends true ? K : never]: InferParameter<
+      Props[K],
+      S
+    >;
+  } & {
+    [K in keyof Props as IsPresent<Props[K], S> extends true ? never : K]?: InferParameter<
+      Props[K],
+      S
+    >;
+  }
+>;
+
+type NameOf<P> = P extends { name: infer N extends string } ? N : never;
+
+/**
+ * Arguments object type for a parameter list, as passed by callers
+ */
+export type InferParameters<Ps extends readonly ParameterDefinition[]> = InferProperties<
+  Ps,
+  'input'
+>;
+
+/**
+ * Arguments object type for a parameter list, as received by the handler
+ * (defaults applied)
+ */
+export type InferArguments<Ps extends readonly ParameterDefinition[]> = InferProperties<
+  Ps,
+  'handler'
+>;
+
+// ============================================================================
+// Output inference (JSON Schema → TOutput)
+// ============================================================================
+
+/**
+ * TypeScript type described by a JSON Schema literal
+ */
+export type InferJSONSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { const: infer C }
+    ? C
+    : S extends { type: 'string' }
+      ? string
+      : S extends { type: 'number' | 'integer' }
+        ? number
+        : S extends { type: 'boolean' }
+          ? boolean
+          : S extends { type: 'null' }
+            ? null
+            : S extends { type: 'array'; items: infer I }
+              ? InferJSONSchema<I>[]
+              : S extends { type: 'array' }
+                ? unknown[]
+                : S extends { type: 'object'; properties: infer Props }
+                  ? InferJSONObject<Props, S extends { required: readonly (infer R)[] } ? R : never>
+                  : S extends { type: 'object' }
+                    ? Record<string, unknown>
+                    : unknown;
+
+type InferJSONObject<Props, Required> = Simplify<
+  {
+    [K in keyof Props as K extends Required ? K : never]: InferJSONSchema<Props[K]>;
+  } & {
+    [K in keyof Props as K extends Required ? never : K]?: InferJSONSchema<Props[K]>;
+  }
+>;
+
+/**
+ * Handler result type for an output declaration (any when no schema is given)
+ */
+export type InferOutput<O> = O extends { schema: infer S } ? InferJSONSchema<S> : any;
+
+// ============================================================================
+// defineCommand
+// ============================================================================
+
+/**
+ * Schema accepted by defineCommand: input and output drive the handler's types
+ */
+export type DefineCommandSchema<
+  Ps extends readonly ParameterDefinition[],
+  O extends CommandSchema['output'],
+> = Omit<CommandSchema<InferParameters<Ps>, InferOutput<O>>, 'input' | 'output' | 'handler'> & {
+  input: { parameters: Ps };
+  output: O;
+  handler: (args: InferArguments<Ps>, context: ExecutionContext) => Promise<InferOutput<O>>;
+};
+
+/**
+ * Define a command whose handler types are inferred from its schema
+ */
+export function defineCommand<
+  const Ps extends readonly ParameterDefinition[],
+  const O extends CommandSchema['output'],
+>(schema: DefineCommandSchema<Ps, O>): UniversalCommand<InferParameters<Ps>, InferOutput<O>> {
+  return new UniversalCommand(
+    schema as unknown as CommandSchema<InferParameters<Ps>, InferOutput<O>>
+  );
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { stripVTControlCharacters } from 'node:util';
+import { DRY_RUN_PARAMETER, createPlan, isDryRunPlan } from './dry-run';
+import { formatPlan } from './formatting';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+import type { ExecutionContext } from './types';
+
+function createCommand(supportsDryRun = true) {
+  const handler = vi.fn(async (args: { name: string }, context: ExecutionContext) =>
+    context.dryRun
+      ? createPlan([{ action: 'delete', target: `branch ${args.name}` }])
+      : { deleted: args.name }
+  );
+  const cmd = new UniversalCommand({
+    name: 'branch delete',
+    description: 'Delete a branch',
+    input: {
+      parameters: [{ name: 'name', type: 'string', description: 'Branch', required: true }],
+    },
+    output: { type: 'json' },
+    api: { method: 'POST' },
+    dangerous: true,
+    supportsDryRun,
+    handler,
+  });
+  return { cmd, handler };
+}
+
+describe('dry run', () => {
+  it('should add the dryRun parameter to every interface', () => {
+    const { cmd } = createCommand();
+
+    expect(cmd.getParameters()).toContainEqual(DRY_RUN_PARAMETER);
+    expect(cmd.toCLI().options.map((o: any) => o.long)).toContain('--dry-run');
+    expect(cmd.toMCP().inputSchema.properties).toHaveProperty('dryRun');
+    expect(
+      createCommand(false)
+        .cmd.getParameters()
+        .map((p) => p.name)
+    ).toEqual(['name']);
+  });
+
+  it('should accept --dryRun as a hidden CLI alias', async () => {
+    const { cmd, handler } = createCommand();
+    const cli = cmd.toCLI();
+    cli.exitOverride();
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await cli.parseAsync(['--name', 'old', '--dryRun'], { from: 'user' });
+    } finally {
+      console.log = log;
+    }
+
+    expect(isDryRunPlan(await handler.mock.results[0].value)).toBe(true);
+    expect(cli.helpInformation()).not.toContain('--dryRun');
+  });
+
+  it('should pass context.dryRun to the handler and skip confirmation', async () => {
+    const { cmd } = createCommand();
+    const context: ExecutionContext = { interface: 'cli' };
+
+    const result = await cmd.execute({ name: 'old', dryRun: true } as any, context);
+
+    expect(isDryRunPlan(result)).toBe(true);
+    expect(context.dryRun).toBeUndefined();
+  });
+
+  it('should still confirm real runs', async () => {
+    const { cmd, handler } = createCommand();
+
+    await expect(cmd.execute({ name: 'old' }, { interface: 'cli' })).rejects.toThrow('--yes');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should refuse dry runs for commands that do not support them', async () => {
+    const { cmd, handler } = createCommand(false);
+
+    await expect(
+      cmd.execute({ name: 'old', dryRun: true } as any, { interface: 'test', confirmed: true })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      cmd.execute({ name: 'old' }, { interface: 'test', confirmed: true, dryRun: true })
+    ).rejects.toThrow("'branch delete' does not support dry runs");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should read dryRun from the API body', async () => {
+    const { cmd } = createCommand();
+    const response = await cmd.toNextAPI().POST!(
+      new Request('http://localhost/api/branch/delete', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'old', dryRun: true }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ dryRun: true });
+  });
+
+  it('should read dryRun from MCP arguments', async () => {
+    const { cmd } = createCommand();
+
+    const result = await cmd.toMCP().execute({ name: 'old', dryRun: true });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      dryRun: true,
+      changes: [{ action: 'delete', target: 'branch old' }],
+    });
+  });
+
+  describe('formatPlan', () => {
+    it('should list changes with a line diff', () => {
+      const plan = createPlan(
+        [
+          { action: 'create', target: 'src/a.ts', description: 'new file' },
+          { action: 'update', target: 'package.json', before: 'a\nb', after: 'a\nc' },
+          { action: 'delete', target: 'tmp/' },
+        ],
+        'Scaffold module'
+      );
+
+      expect(stripVTControlCharacters(formatPlan(plan))).toBe(
+        [
+          'Dry run: Scaffold module',
+          '  + src/a.ts (new file)',
+          '  ~ package.json',
+          '      - b',
+          '      + c',
+          '  - tmp/',
+          '3 changes planned; nothing was applied',
+        ].join('\n')
+      );
+    });
+
+    it('should say when there is nothing to change', () => {
+      expect(stripVTControlCharacters(formatPlan(createPlan([])))).toBe(
+        'Dry run\nNothing to change'
+      );
+    });
+  });
+});
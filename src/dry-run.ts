@@ -0,0 +1,114 @@
+/**
+ * Dry-run mode
+ *
+ * Commands with `supportsDryRun: true` get a dryRun parameter on every
+ * interface (--dry-run in the CLI, a dryRun field for the API and MCP).
+ * execute() passes it to the handler as context.dryRun, and handlers return
+ * a plan describing what they would change instead of changing it.
+ */
+
+import { ValidationError } from './errors';
+import type { CommandSchema, ExecutionContext, Parameter } from './types';
+
+/**
+ * Parameter added to commands that support dry runs
+ */
+export const DRY_RUN_PARAMETER: Parameter = {
+  name: 'dryRun',
+  type: 'boolean',
+  description: 'Preview the changes without applying them',
+  required: false,
+  default: false,
+};
+
+/**
+ * One change a command would make
+ */
+export interface PlannedChange {
+  /** What would happen to the target */
+  action: 'create' | 'update' | 'delete' | 'run';
+
+  /** File, branch, record, or command affected */
+  target: string;
+
+  /** Short explanation shown next to the target */
+  description?: string;
+
+  /** Current content (update/delete), shown as a line diff */
+  before?: string;
+
+  /** New content (create/update), shown as a line diff */
+  after?: string;
+}
+
+/**
+ * What a dry run would have done
+ */
+export interface DryRunPlan {
+  dryRun: true;
+
+  /** One-line summary, e.g. "Would commit 3 files" */
+  summary?: string;
+
+  changes: PlannedChange[];
+}
+
+/**
+ * Build a plan for a handler to return when context.dryRun is set
+ */
+export function createPlan(changes: PlannedChange[], summary?: string): DryRunPlan {
+  return summary === undefined ? { dryRun: true, changes } : { dryRun: true, summary, changes };
+}
+
+/**
+ * Whether a result is a plan from createPlan
+ */
+export function isDryRunPlan(value: unknown): value is DryRunPlan {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as DryRunPlan).dryRun === true &&
+    Array.isArray((value as DryRunPlan).changes)
+  );
+}
+
+/**
+ * Add the dryRun parameter for commands with supportsDryRun, unless they
+ * already declare one
+ */
+export function withDryRunParameter(schema: CommandSchema, parameters: Parameter[]): Parameter[] {
+  if (!schema.supportsDryRun || parameters.some((param) => param.name === 'dryRun')) {
+    return parameters;
+  }
+  return [...parameters, DRY_RUN_PARAMETER];
+}
+
+/**
+ * Set context.dryRun from the arguments
+ *
+ * Throws ValidationError when a dry run is requested from a command that
+ * cannot do one, rather than letting it make real changes. Commands that
+ * declare their own dryRun parameter without supportsDryRun handle it
+ * themselves.
+ */
+export function resolveDryRun(
+  schema: CommandSchema,
+  args: unknown,
+  input: any,
+  context: ExecutionContext
+): void {
+  if (schema.supportsDryRun) {
+    context.dryRun = context.dryRun === true || input?.dryRun === true;
+    return;
+  }
+
+  const handlesDryRun = schema.input.parameters?.some((param) => param.name === 'dryRun');
+  const requested = (args as any)?.dryRun;
+  const asked = requested !== undefined && requested !== false && requested !== 'false';
+  if (context.dryRun || (!handlesDryRun && asked)) {
+    throw new ValidationError(`'${schema.name}' does not support dry runs`, [
+      { path: 'dryRun', message: 'Dry runs are not supported by this command' },
+    ]);
+  }
+  context.dryRun = false;
+}
@@ -47,6 +47,8 @@ export enum ExitCode {
   TIMEOUT = 124,
   /** Terminated by signal */
   SIGNAL = 128,
+  /** Interrupted by Ctrl-C (128 + SIGINT) */
+  INTERRUPTED = 130,
 }
 
 /**
@@ -95,6 +97,26 @@ export class ValidationError extends CommandError {
   }
 }
 
+/**
+ * Output validation error (handler result does not match output.schema)
+ */
+export class OutputValidationError extends CommandError {
+  constructor(
+    message: string,
+    public readonly errors: Array<{
+      path: string;
+      message: string;
+    }>
+  ) {
+    super(message, {
+      code: 'OUTPUT_VALIDATION_ERROR',
+      status: 500,
+      exitCode: ExitCode.SOFTWARE,
+    });
+    this.name = 'OutputValidationError';
+  }
+}
+
 /**
  * Authentication error
  */
@@ -137,6 +159,52 @@ export class TimeoutError extends CommandError {
   }
 }
 
+/**
+ * Cancellation error (Ctrl-C, client disconnect, MCP cancel)
+ */
+export class CancelledError extends CommandError {
+  constructor(message: string = 'Operation cancelled') {
+    super(message, {
+      code: 'CANCELLED',
+      status: 499,
+      exitCode: ExitCode.INTERRUPTED,
+    });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Destructive command run without confirmation
+ * API errors carry a confirmationToken to send back in the retry
+ */
+export class ConfirmationRequiredError extends CommandError {
+  constructor(message: string, confirmationToken?: string) {
+    super(message, {
+      code: 'CONFIRMATION_REQUIRED',
+      status: 428,
+      exitCode: ExitCode.USAGE,
+      ...(confirmationToken && { confirmationToken }),
+    });
+    this.name = 'ConfirmationRequiredError';
+  }
+}
+
+/**
+ * Too many requests (APIOptions.rateLimit)
+ * retryAfter is the number of seconds until the next call is allowed
+ */
+export class RateLimitError extends CommandError {
+  constructor(message: string, retryAfter: number) {
+    super(message, {
+      code: 'RATE_LIMITED',
+      status: 429,
+      exitCode: ExitCode.TEMP_FAIL,
+      retryAfter,
+    });
+    this.name = 'RateLimitError';
+  }
+}
+
 /**
  * Configuration error
  */
@@ -0,0 +1,173 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { checkFormat, formatToJSONSchema, parseDuration } from './formats';
+import { validateParameters } from './validation';
+import { schemaToParameters } from './standard-schema';
+import { UniversalCommand } from './UniversalCommand';
+import type { Parameter } from './types';
+
+describe('formats', () => {
+  describe('parseDuration', () => {
+    it('should parse unit sequences', () => {
+      expect(parseDuration('1h30m')).toBe(90 * 60 * 1000);
+      expect(parseDuration('45s')).toBe(45000);
+      expect(parseDuration('250ms')).toBe(250);
+      expect(parseDuration('1.5h')).toBe(90 * 60 * 1000);
+      expect(parseDuration('2d')).toBe(2 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should parse ISO 8601 durations', () => {
+      expect(parseDuration('PT1H30M')).toBe(90 * 60 * 1000);
+      expect(parseDuration('P1DT2S')).toBe(24 * 60 * 60 * 1000 + 2000);
+    });
+
+    it('should reject other text', () => {
+      expect(parseDuration('soon')).toBeUndefined();
+      expect(parseDuration('10')).toBeUndefined();
+      expect(parseDuration('P')).toBeUndefined();
+      expect(parseDuration('PT')).toBeUndefined();
+    });
+  });
+
+  describe('checkFormat', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'uc-formats-'));
+    const file = join(dir, 'config.json');
+    writeFileSync(file, '{}');
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('should check files and directories exist', () => {
+      expect(checkFormat(file, 'file')).toEqual({ valid: true, value: file });
+      expect(checkFormat(dir, 'file')).toEqual({ valid: false, message: `Not a file: ${dir}` });
+      expect(checkFormat(join(dir, 'missing'), 'file')).toMatchObject({ valid: false });
+
+      expect(checkFormat(dir, 'directory')).toEqual({ valid: true, value: dir });
+      expect(checkFormat(file, 'directory')).toEqual({
+        valid: false,
+        message: `Not a directory: ${file}`,
+      });
+    });
+
+    it('should resolve relative paths against the project root', async () => {
+      expect(checkFormat('config.json', 'file', dir)).toEqual({
+        valid: true,
+        value: 'config.json',
+      });
+      expect(checkFormat('config.json', 'file')).toMatchObject({ valid: false });
+
+      const cmd = new UniversalCommand({
+        name: 'lint',
+        description: 'Lint a config',
+        input: {
+          parameters: [{ name: 'config', type: 'string', description: 'Config', format: 'file' }],
+        },
+        output: { type: 'json' },
+        handler: async (args) => args,
+      });
+      await expect(
+        cmd.execute({ config: 'config.json' }, { interface: 'api', projectRoot: dir })
+      ).resolves.toEqual({ config: 'config.json' });
+    });
+
+    it('should accept any path for the path format', () => {
+      expect(checkFormat('does/not/exist', 'path')).toEqual({
+        valid: true,
+        value: 'does/not/exist',
+      });
+    });
+
+    it('should validate url, email, uuid and semver', () => {
+      expect(checkFormat('https://example.com/x', 'url').valid).toBe(true);
+      expect(checkFormat('example.com', 'url').valid).toBe(false);
+      expect(checkFormat('a@b.io', 'email').valid).toBe(true);
+      expect(checkFormat('a@b', 'email').valid).toBe(false);
+      expect(checkFormat('123e4567-e89b-12d3-a456-426614174000', 'uuid').valid).toBe(true);
+      expect(checkFormat('123e4567', 'uuid').valid).toBe(false);
+      expect(checkFormat('1.2.3-beta.1+build.5', 'semver').valid).toBe(true);
+      expect(checkFormat('1.2', 'semver').valid).toBe(false);
+    });
+
+    it('should coerce date-time to Date and duration to milliseconds', () => {
+      const date = checkFormat('2025-01-31T10:00:00Z', 'date-time');
+      expect(date.valid && date.value).toEqual(new Date('2025-01-31T10:00:00Z'));
+      expect(checkFormat('31/01/2025', 'date-time').valid).toBe(false);
+      expect(checkFormat('2025-01-31', 'date-time').valid).toBe(false);
+      expect(checkFormat('2025-01-31T10:00', 'date-time').valid).toBe(false);
+
+      expect(checkFormat('10m', 'duration')).toEqual({ valid: true, value: 600000 });
+    });
+  });
+
+  describe('validation', () => {
+    const params: Parameter[] = [
+      { name: 'timeout', type: 'string', description: 'Timeout', format: 'duration' },
+      { name: 'since', type: 'string', description: 'Since', format: 'date-time' },
+      { name: 'homepage', type: 'string', description: 'Homepage', format: 'url' },
+    ];
+
+    it('should return coerced values', () => {
+      const result = validateParameters({ timeout: '1m', since: '2025-01-31T00:00:00Z' }, params);
+
+      expect(result.data).toEqual({ timeout: 60000, since: new Date('2025-01-31T00:00:00Z') });
+    });
+
+    it('should accept already-coerced values', () => {
+      const first = validateParameters({ timeout: '1m', since: '2025-01-31T00:00:00Z' }, params);
+      const second = validateParameters(first.data, params);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should report format errors at the parameter path', () => {
+      const result = validateParameters({ timeout: 'forever', homepage: 'nope' }, params);
+
+      expect(result.errors).toEqual([
+        { path: 'timeout', message: 'Must be a duration (e.g. 1h30m, 45s, PT10M)' },
+        { path: 'homepage', message: 'Must be a valid URL' },
+      ]);
+    });
+  });
+
+  describe('interfaces', () => {
+    const cmd = new UniversalCommand({
+      name: 'deploy',
+      description: 'Deploy',
+      input: {
+        parameters: [
+          { name: 'config', type: 'string', description: 'Config file', format: 'file' },
+          { name: 'homepage', type: 'string', description: 'Homepage', format: 'url' },
+        ],
+      },
+      output: { type: 'json' },
+      handler: async () => ({}),
+    });
+
+    it('should emit JSON Schema format, and x-format for nonstandard formats', () => {
+      const schema = cmd.toMCP().inputSchema;
+
+      expect(schema.properties.config).toMatchObject({ 'x-format': 'file' });
+      expect(schema.properties.config.format).toBeUndefined();
+      expect(schema.properties.homepage.format).toBe('uri');
+      expect(formatToJSONSchema('date-time')).toEqual({ format: 'date-time' });
+      expect(formatToJSONSchema('duration')).toEqual({ 'x-format': 'duration' });
+    });
+
+    it('should name the format in CLI value placeholders', () => {
+      const flags = cmd.toCLI().options.map((option: any) => option.flags);
+
+      expect(flags).toContain('--config [file]');
+      expect(flags).toContain('--homepage [url]');
+    });
+
+    it('should derive formats from Zod string checks', () => {
+      const params = schemaToParameters(
+        z.object({ email: z.string().email(), id: z.string().uuid() })
+      );
+
+      expect(params.map((p) => p.format)).toEqual(['email', 'uuid']);
+    });
+  });
+});
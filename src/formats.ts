@@ -0,0 +1,237 @@
+/**
+ * String formats
+ *
+ * `Parameter.format` adds semantic checks on top of `type: 'string'`.
+ * Some formats coerce the value the handler receives: `duration` becomes
+ * milliseconds and `date-time` becomes a Date. Coerced values are accepted
+ * as input too, so validated data can be validated again.
+ */
+
+import { accessSync, constants, statSync } from 'fs';
+import { resolve } from 'path';
+import type { Parameter } from './types';
+
+/**
+ * Supported string formats
+ * - 'path': any filesystem path (no existence check)
+ * - 'file': existing, readable file
+ * - 'directory': existing directory
+ * - 'url': absolute URL
+ * - 'email', 'uuid', 'semver'
+ * - 'date-time': RFC 3339 date-time with offset (`2025-01-31T10:00:00Z`) → Date
+ * - 'duration': `1h30m`, `500ms` or ISO 8601 `PT1H30M` → milliseconds
+ */
+export type ParameterFormat =
+  | 'path'
+  | 'file'
+  | 'directory'
+  | 'url'
+  | 'email'
+  | 'uuid'
+  | 'date-time'
+  | 'semver'
+  | 'duration';
+
+/**
+ * Result of checking a value against a format
+ */
+export type FormatResult = { valid: true; value: any } | { valid: false; message: string };
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SEMVER =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+const ISO_DURATION =
+  /^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration into milliseconds
+ *
+ * Accepts unit sequences (`1h30m`, `90s`, `250ms`, `1.5h`) and ISO 8601
+ * durations (`PT1H30M`). Returns undefined when the text is not a duration.
+ */
+export function parseDuration(text: string): number | undefined {
+  const trimmed = text.trim();
+
+  const iso = ISO_DURATION.exec(trimmed);
+  if (iso && trimmed !== 'P' && !trimmed.toUpperCase().endsWith('T')) {
+    const [, weeks, days, hours, minutes, seconds] = iso.map((part) => Number(part ?? 0));
+    return (
+      weeks * UNIT_MS.w +
+      days * UNIT_MS.d +
+      hours * UNIT_MS.h +
+      minutes * UNIT_MS.m +
+      seconds * UNIT_MS.s
+    );
+  }
+
+  const parts = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d|w))+$/i.test(trimmed)
+    ? trimmed.match(/\d+(?:\.\d+)?(?:ms|s|m|h|d|w)/gi)
+    : null;
+  if (!parts) {
+    return undefined;
+  }
+
+  let total = 0;
+  for (const part of parts) {
+    const [, amount, unit] = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/i.exec(part)!;
+    total += Number(amount) * UNIT_MS[unit.toLowerCase()];
+  }
+  return total;
+}
+
+/**
+ * Whether a value is already in the coerced form of its format
+ */
+export function isCoerced(value: unknown, format: ParameterFormat): boolean {
+  switch (format) {
+    case 'date-time':
+      return value instanceof Date && !isNaN(value.getTime());
+    case 'duration':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a string against a format, returning the (possibly coerced) value
+ *
+ * Relative paths are resolved against `baseDir` (execute() passes the
+ * project root; default: the current working directory).
+ */
+export function checkFormat(
+  value: string,
+  format: ParameterFormat,
+  baseDir: string = process.cwd()
+): FormatResult {
+  switch (format) {
+    case 'path':
+      return { valid: true, value };
+
+    case 'file': {
+      const path = resolve(baseDir, value);
+      const stats = statOrUndefined(path);
+      if (!stats) return { valid: false, message: `File not found: ${value}` };
+      if (!stats.isFile()) return { valid: false, message: `Not a file: ${value}` };
+      try {
+        accessSync(path, constants.R_OK);
+      } catch {
+        return { valid: false, message: `File is not readable: ${value}` };
+      }
+      return { valid: true, value };
+    }
+
+    case 'directory': {
+      const stats = statOrUndefined(resolve(baseDir, value));
+      if (!stats) return { valid: false, message: `Directory not found: ${value}` };
+      if (!stats.isDirectory()) return { valid: false, message: `Not a directory: ${value}` };
+      return { valid: true, value };
+    }
+
+    case 'url':
+      try {
+        new URL(value);
+        return { valid: true, value };
+      } catch {
+        return { valid: false, message: 'Must be a valid URL' };
+      }
+
+    case 'email':
+      return EMAIL.test(value)
+        ? { valid: true, value }
+        : { valid: false, message: 'Must be a valid email address' };
+
+    case 'uuid':
+      return UUID.test(value)
+        ? { valid: true, value }
+        : { valid: false, message: 'Must be a UUID' };
+
+    case 'semver':
+      return SEMVER.test(value)
+        ? { valid: true, value }
+        : { valid: false, message: 'Must be a semantic version (e.g. 1.2.3)' };
+
+    case 'date-time': {
+      const date = DATE_TIME.test(value) ? new Date(value) : undefined;
+      if (!date || isNaN(date.getTime())) {
+        return {
+          valid: false,
+          message: 'Must be an RFC 3339 date-time (e.g. 2025-01-31T10:00:00Z)',
+        };
+      }
+      return { valid: true, value: date };
+    }
+
+    case 'duration': {
+      const ms = parseDuration(value);
+      if (ms === undefined) {
+        return { valid: false, message: 'Must be a duration (e.g. 1h30m, 45s, PT10M)' };
+      }
+      return { valid: true, value: ms };
+    }
+
+    default:
+      return { valid: true, value };
+  }
+}
+
+/** Formats defined by JSON Schema; others are published as `x-format` */
+const JSON_SCHEMA_FORMATS: Partial<Record<ParameterFormat, string>> = {
+  url: 'uri',
+  email: 'email',
+  uuid: 'uuid',
+  'date-time': 'date-time',
+};
+
+/**
+ * JSON Schema keywords for a format
+ *
+ * `duration` is not listed: JSON Schema's duration is ISO 8601 only, while
+ * the parameter also accepts `1h30m`.
+ */
+export function formatToJSONSchema(format: ParameterFormat | undefined): Record<string, any> {
+  if (!format) return {};
+  const standard = JSON_SCHEMA_FORMATS[format];
+  return standard ? { format: standard } : { 'x-format': format };
+}
+
+/**
+ * Value placeholder shown in CLI help, e.g. `--config <file>`
+ *
+ * Shells that complete from --help output (zsh's _gnu_generic, fish) use
+ * these names to offer files and directories.
+ */
+export function formatPlaceholder(param: Parameter): string {
+  switch (param.format) {
+    case 'path':
+    case 'file':
+      return 'file';
+    case 'directory':
+      return 'dir';
+    case 'semver':
+      return 'version';
+    case undefined:
+      return param.name;
+    default:
+      return param.format;
+  }
+}
+
+function statOrUndefined(path: string) {
+  try {
+    return statSync(path);
+  } catch {
+    return undefined;
+  }
+}
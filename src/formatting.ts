@@ -7,8 +7,11 @@
  * - Colors/styling (ANSI codes)
  * - Spinners
  * - Success/error indicators
+ * - Dry-run plans
  */
 
+import type { DryRunPlan, PlannedChange } from './dry-run';
+
 /**
  * ANSI color codes
  */
@@ -270,7 +273,7 @@ const spinnerFrames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '
 export class Spinner {
   private interval?: NodeJS.Timeout;
   private frame: number = 0;
-  private readonly message: string;
+  private message: string;
   private readonly stream: NodeJS.WritableStream;
 
   constructor(message: string = 'Loading', stream: NodeJS.WritableStream = process.stdout) {
@@ -289,6 +292,17 @@ export class Spinner {
     }, 80);
   }
 
+  /**
+   * Change the message shown next to the spinner
+   */
+  update(message: string): void {
+    // Clear any leftover characters from a longer message
+    if (message.length < this.message.length) {
+      this.stream.write('\r' + ' '.repeat(this.message.length + 10));
+    }
+    this.message = message;
+  }
+
   /**
    * Stop spinning and show final message
    */
@@ -433,6 +447,50 @@ export function diff(additions: string[], removals: string[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Dry-run plan formatting: one line per planned change, with a line diff for
+ * changes that carry before/after content
+ */
+export function formatPlan(plan: DryRunPlan): string {
+  const markers: Record<PlannedChange['action'], [string, keyof typeof colors]> = {
+    create: ['+', 'green'],
+    update: ['~', 'yellow'],
+    delete: ['-', 'red'],
+    run: ['>', 'cyan'],
+  };
+
+  const lines: string[] = [colorize(`Dry run${plan.summary ? `: ${plan.summary}` : ''}`, 'bold')];
+
+  for (const change of plan.changes) {
+    const [marker, color] = markers[change.action];
+    const description = change.description ? colorize(` (${change.description})`, 'gray') : '';
+    lines.push(`  ${colorize(`${marker} ${change.target}`, color)}${description}`);
+
+    if (change.before !== undefined || change.after !== undefined) {
+      const before = change.before?.split('\n') ?? [];
+      const after = change.after?.split('\n') ?? [];
+      const changed = diff(
+        after.filter(line => !before.includes(line)),
+        before.filter(line => !after.includes(line))
+      );
+      if (changed) {
+        lines.push(...changed.split('\n').map(line => `      ${line}`));
+      }
+    }
+  }
+
+  const count = plan.changes.length;
+  lines.push(
+    colorize(
+      count === 0
+        ? 'Nothing to change'
+        : `${count} change${count === 1 ? '' : 's'} planned; nothing was applied`,
+      'dim'
+    )
+  );
+  return lines.join('\n');
+}
+
 /**
  * Key-value formatting
  */
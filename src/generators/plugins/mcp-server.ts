@@ -4,6 +4,7 @@
 
 import type { GeneratorPlugin, GeneratorResult } from '../types';
 import type { CommandRegistry } from '../../CommandRegistry';
+import { withoutSecretDefaults } from '../../secrets';
 
 export interface MCPServerOptions {
   outputPath: string;
@@ -46,8 +47,8 @@ export class MCPServerGenerator implements GeneratorPlugin<MCPServerOptions, Gen
     const serverVersion = options.serverVersion || '1.0.0';
     const ts = options.typescript !== false;
 
-    // Serialize schemas without functions
-    const commandSchemas = commands.map(cmd => this.serializeSchema(cmd.schema));
+    // Serialize schemas without functions or secret defaults
+    const commandSchemas = commands.map(cmd => this.serializeSchema(withoutSecretDefaults(cmd.schema)));
 
     return `/**
  * Auto-generated MCP Server
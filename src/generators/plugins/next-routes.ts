@@ -4,6 +4,7 @@
 
 import { FileGenerator, type FileGeneratorOptions } from '../types';
 import type { UniversalCommand } from '../../UniversalCommand';
+import { withoutSecretDefaults } from '../../secrets';
 
 export interface NextRoutesOptions extends FileGeneratorOptions {
   /** Import path for commands (default: '@/commands') */
@@ -23,8 +24,8 @@ export class NextRoutesGenerator extends FileGenerator<NextRoutesOptions> {
     const ts = options.typescript !== false;
     const commandVar = command.schema.name.replace(/\s+/g, '_');
 
-    // Serialize schema, handling functions by removing them
-    const schemaForSerialization = this.serializeSchema(command.schema);
+    // Serialize schema, removing functions and secret defaults
+    const schemaForSerialization = this.serializeSchema(withoutSecretDefaults(command.schema));
 
     return `/**
  * Auto-generated API route: ${command.schema.name}
@@ -5,6 +5,8 @@
 import type { GeneratorPlugin, GeneratorResult } from '../types';
 import type { CommandRegistry } from '../../CommandRegistry';
 import type { UniversalCommand } from '../../UniversalCommand';
+import { formatToJSONSchema } from '../../formats';
+import { secretHeader } from '../../secrets';
 
 export interface OpenAPIOptions {
   outputPath: string;
@@ -70,7 +72,7 @@ export class OpenAPIGenerator implements GeneratorPlugin<OpenAPIOptions, Generat
   }
 
   private commandToOperation(command: UniversalCommand): object {
-    const params = command.schema.input.parameters || [];
+    const params = command.getParameters();
     const method = (command.schema.api?.method || 'GET').toLowerCase();
 
     const operation: any = {
@@ -92,18 +94,34 @@ export class OpenAPIGenerator implements GeneratorPlugin<OpenAPIOptions, Generat
       operation.tags = [command.schema.category];
     }
 
+    // Secrets are refused in the query string, so GET operations take them
+    // as x-secret-* headers
     if (method === 'get' && params.length > 0) {
-      operation.parameters = params.map(p => ({
-        name: p.name,
-        in: 'query',
-        required: p.required || false,
-        description: p.description,
-        schema: {
-          type: p.type,
-          ...(p.enum && { enum: p.enum }),
-          ...(p.default !== undefined && { default: p.default })
-        }
-      }));
+      operation.parameters = params.map(p =>
+        p.secret
+          ? {
+            name: secretHeader(p.name),
+            in: 'header',
+            required: p.required || false,
+            description: p.description,
+            schema: {
+              type: p.type,
+              ...(p.type === 'string' && { format: 'password' })
+            }
+          }
+          : {
+            name: p.name,
+            in: 'query',
+            required: p.required || false,
+            description: p.description,
+            schema: {
+              type: p.type,
+              ...formatToJSONSchema(p.format),
+              ...(p.enum && { enum: p.enum }),
+              ...(p.default !== undefined && { default: p.default })
+            }
+          }
+      );
     } else if (method !== 'get' && params.length > 0) {
       const properties: Record<string, any> = {};
       const required: string[] = [];
@@ -112,8 +130,11 @@ export class OpenAPIGenerator implements GeneratorPlugin<OpenAPIOptions, Generat
         properties[p.name] = {
           type: p.type,
           description: p.description,
+          ...formatToJSONSchema(p.format),
           ...(p.enum && { enum: p.enum }),
-          ...(p.default !== undefined && { default: p.default })
+          ...(p.default !== undefined && !p.secret && { default: p.default }),
+          ...(p.secret && { writeOnly: true }),
+          ...(p.secret && p.type === 'string' && { format: 'password' })
         };
         if (p.required) {
           required.push(p.name);
@@ -3,6 +3,142 @@ export * from './CommandRegistry';
 export * from './types';
 export * from './errors';
 
+// Zod / Standard Schema input schemas
+export {
+  isStandardSchema,
+  schemaToParameters,
+  resolveParameters,
+  formatIssuePath,
+} from './standard-schema';
+export type { StandardSchemaV1 } from './standard-schema';
+
+// Output contract enforcement
+export { validateOutput } from './output-validation';
+export type { OutputValidationMode } from './output-validation';
+export type { ValidationIssue } from './validation';
+
+// String formats
+export {
+  checkFormat,
+  parseDuration,
+  formatToJSONSchema,
+} from './formats';
+export type { ParameterFormat, FormatResult } from './formats';
+
+// Env / project config fallbacks
+export {
+  applyFallbacks,
+  loadProjectConfig,
+  findProjectConfig,
+  getConfigValue,
+  PROJECT_CONFIG_FILES,
+} from './config';
+export type { ValueSource, FallbackOptions } from './config';
+
+// Cancellation and timeouts
+export { runWithAbort, createAbortScope, throwIfCancelled } from './cancellation';
+export type { AbortOptions, AbortScope } from './cancellation';
+
+// Progress reporting
+export { TerminalProgress, createMCPProgress, formatServerSentEvent } from './progress';
+export type { ProgressUpdate, ProgressReporter } from './progress';
+
+// Confirmation for destructive commands
+export {
+  CONFIRMATION_HEADER,
+  confirmationMessage,
+  requireConfirmation,
+  createConfirmationToken,
+  verifyConfirmationToken,
+} from './confirmation';
+export type { ConfirmOptions } from './confirmation';
+
+// Prompting for missing parameters
+export {
+  fillMissingParameters,
+  createTerminalPrompt,
+  createTerminalParameterPrompt,
+  createMCPParameterPrompt,
+} from './prompting';
+export type { ParameterPrompt, TextPrompt } from './prompting';
+
+// Secret parameters
+export { REDACTED, redactArgs, redactSecrets, redactError, secretValues } from './secrets';
+
+// Authentication and roles
+export {
+  authenticate,
+  checkAccess,
+  bearerAuth,
+  apiKeyAuth,
+  bearerToken,
+  requestHeader,
+} from './auth';
+export type { AuthProvider, AuthenticateOptions, Principal } from './auth';
+
+// Rate limiting
+export { MemoryRateLimitStore, rateLimitKey, rateLimitHeaders } from './rate-limit';
+export type { RateLimitRule, RateLimitState, RateLimitStore } from './rate-limit';
+
+// Result caching
+export {
+  MemoryCacheStore,
+  cacheKey,
+  cacheHeaders,
+  cacheControlHeader,
+  computeETag,
+  matchesETag,
+} from './cache';
+export type { CacheEntry, CacheState, CacheStore } from './cache';
+
+// MCP resources
+export { expandURITemplate, matchURITemplate, isURITemplate, resourceLinks } from './resources';
+
+// MCP prompts
+export { collectPrompts, promptInfo, renderPrompt } from './prompts';
+export type { RenderedPrompt } from './prompts';
+
+// Dry-run mode
+export { DRY_RUN_PARAMETER, createPlan, isDryRunPlan } from './dry-run';
+export type { DryRunPlan, PlannedChange } from './dry-run';
+
+// Logging
+export {
+  Logger,
+  silentLogger,
+  textSink,
+  jsonSink,
+  mcpSink,
+  withServerLogging,
+  defaultLogger,
+  levelFromFlags,
+} from './logger';
+export type { LogLevel, LogEntry, LogSink, LoggerOptions } from './logger';
+export { captureConsole } from './console-capture';
+export type { CapturedOutput, CaptureOptions } from './console-capture';
+
+// Streaming results
+export { isAsyncIterable, collectChunks } from './streaming';
+
+// Middleware
+export { MiddlewareStack } from './middleware';
+export type { Middleware, NextFunction } from './middleware';
+
+// Cross-parameter constraints
+export { checkConstraints, constraintsToJSONSchema, describeConstraints } from './constraints';
+
+// Typed command definitions
+export { defineCommand } from './define';
+export type {
+  DefineCommandSchema,
+  ParameterDefinition,
+  InferParameter,
+  InferParameters,
+  InferArguments,
+  InferJSONSchema,
+  InferOutput,
+} from './define';
+
 // P0-3: Lazy loading for fast startup
 export { LazyUniversalCommand, lazyCommand, LazyCommandPerformance } from './LazyUniversalCommand';
 export type { LazyCommandSchema } from './LazyUniversalCommand';
@@ -25,8 +161,14 @@ export * from './formatting';
 
 // Runtime registration (no code generation needed)
 export { RuntimeServer, createRuntimeServer, defineCommands } from './runtime';
-export type { RuntimeAPIConfig, RuntimeMCPConfig } from './runtime';
+export type { RuntimeAPIConfig, RuntimeMCPConfig, MCPHttpHandler, MCPHttpRequest } from './runtime';
 
 // Scope-based registry (O(1) keyed lookup, semantic namespaces)
-export { ScopeRegistry, createScopeRegistry } from './scopes';
-export type { Scope, ScopeOptions } from './scopes';
+export { ScopeRegistry, ScopeSession, createScopeRegistry } from './scopes';
+export type {
+  Scope,
+  ScopeOptions,
+  ScopeSessionOptions,
+  ScopeRegistryEvent,
+  ScopeRegistryListener,
+} from './scopes';
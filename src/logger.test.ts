@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'stream';
+import {
+  Logger,
+  defaultLogger,
+  jsonSink,
+  levelFromFlags,
+  mcpSink,
+  silentLogger,
+  textSink,
+  type LogEntry,
+} from './logger';
+import { UniversalCommand } from './UniversalCommand';
+
+function createStream() {
+  let output = '';
+  const stream = new Writable({
+    write(chunk, encoding, callback) {
+      output += chunk.toString();
+      callback();
+    },
+  });
+  return { stream, output: () => output };
+}
+
+function createCommand() {
+  return new UniversalCommand({
+    name: 'git push',
+    description: 'Push commits',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    handler: async (args, context) => {
+      context.logger!.debug('Resolving remote');
+      context.logger!.info('Pushed', { branch: 'main', commits: 3 });
+      return { success: true };
+    },
+  });
+}
+
+describe('logger', () => {
+  describe('Logger', () => {
+    it('should drop entries below its level', () => {
+      const entries: LogEntry[] = [];
+      const logger = new Logger((entry) => entries.push(entry), { level: 'warn' });
+
+      logger.info('skipped');
+      logger.warn('kept');
+      logger.error('kept too');
+
+      expect(entries.map((e) => e.message)).toEqual(['kept', 'kept too']);
+      expect(logger.isLevelEnabled('debug')).toBe(false);
+    });
+
+    it('should merge child fields with per-call fields', () => {
+      const entries: LogEntry[] = [];
+      const logger = new Logger((entry) => entries.push(entry), { fields: { requestId: 'r1' } });
+
+      logger.child({ command: 'git push' }).info('Pushed', { commits: 3 });
+
+      expect(entries[0].fields).toEqual({ requestId: 'r1', command: 'git push', commits: 3 });
+    });
+  });
+
+  describe('sinks', () => {
+    it('should write readable text lines', () => {
+      const { stream, output } = createStream();
+      const logger = new Logger(textSink(stream));
+
+      logger.info('Pushed', { branch: 'main', note: 'two words' });
+      logger.warn('Slow remote');
+
+      expect(output()).toBe('Pushed branch=main note="two words"\nwarn: Slow remote\n');
+    });
+
+    it('should write JSON lines', () => {
+      const { stream, output } = createStream();
+      new Logger(jsonSink(stream)).error('Failed', { code: 1 });
+
+      expect(JSON.parse(output())).toMatchObject({ level: 'error', message: 'Failed', code: 1 });
+    });
+
+    it('should send MCP notifications/message with MCP level names', async () => {
+      const notifications: any[] = [];
+      const sink = mcpSink(
+        { sendNotification: async (n) => void notifications.push(n) },
+        'git_push'
+      );
+
+      new Logger(sink!).warn('Slow remote', { ms: 900 });
+
+      expect(notifications).toEqual([
+        {
+          method: 'notifications/message',
+          params: {
+            level: 'warning',
+            logger: 'git_push',
+            data: { message: 'Slow remote', ms: 900 },
+          },
+        },
+      ]);
+      expect(mcpSink({})).toBeUndefined();
+    });
+  });
+
+  it('should map --verbose and --quiet to levels', () => {
+    expect(levelFromFlags({})).toBe('info');
+    expect(levelFromFlags({ verbose: true })).toBe('debug');
+    expect(levelFromFlags({ quiet: true, verbose: true })).toBe('error');
+  });
+
+  describe('execute', () => {
+    it('should use the caller logger and restore the context afterwards', async () => {
+      const entries: LogEntry[] = [];
+      const logger = new Logger((entry) => entries.push(entry), { level: 'debug' });
+      const context = { interface: 'test' as const, logger };
+
+      await createCommand().execute({}, context);
+
+      expect(entries.map((e) => e.message)).toEqual(['Resolving remote', 'Pushed']);
+      expect(context.logger).toBe(logger);
+    });
+
+    it('should default to a silent logger for tests and MCP', async () => {
+      expect(defaultLogger({ interface: 'test' })).toBe(silentLogger);
+      expect(defaultLogger({ interface: 'mcp' })).toBe(silentLogger);
+
+      await expect(createCommand().execute({}, { interface: 'test' })).resolves.toEqual({
+        success: true,
+      });
+    });
+
+    it('should log to stderr text for the CLI by default', async () => {
+      const { stream, output } = createStream();
+
+      await createCommand().execute({}, { interface: 'cli', stderr: stream });
+
+      expect(output()).toBe('Pushed branch=main commits=3\n');
+    });
+
+    it('should log through MCP notifications in toMCP', async () => {
+      const notifications: any[] = [];
+
+      await createCommand()
+        .toMCP()
+        .execute({}, { sendNotification: async (n) => void notifications.push(n) });
+
+      expect(notifications.map((n) => n.params.data)).toEqual([
+        { message: 'Pushed', branch: 'main', commits: 3 },
+      ]);
+    });
+  });
+
+  describe('toCLI', () => {
+    it('should add --verbose and --quiet unless parameters already use them', () => {
+      const flags = (cmd: UniversalCommand) =>
+        cmd
+          .toCLI()
+          .options.map((o: any) => o.long)
+          .filter((f: string) => f === '--verbose' || f === '--quiet');
+
+      expect(flags(createCommand())).toEqual(['--verbose', '--quiet']);
+
+      const withVerbose = new UniversalCommand({
+        name: 'check',
+        description: 'Check',
+        input: {
+          parameters: [{ name: 'verbose', type: 'boolean', description: 'Show details' }],
+        },
+        output: { type: 'json' },
+        handler: async () => ({}),
+      });
+      expect(flags(withVerbose)).toEqual(['--verbose', '--quiet']);
+      expect(withVerbose.toCLI().options.find((o: any) => o.long === '--verbose').description).toBe(
+        'Show details'
+      );
+    });
+
+    it('should set the log level only from flags given on the command line', async () => {
+      const levels: string[] = [];
+      const cli = new UniversalCommand({
+        name: 'merge',
+        description: 'Merge',
+        input: {
+          parameters: [{ name: 'verbose', type: 'boolean', description: 'Details', default: true }],
+        },
+        output: { type: 'json' },
+        cli: { format: () => '' },
+        handler: async (_args, context) => {
+          levels.push(context.logger!.level);
+          return {};
+        },
+      }).toCLI();
+      cli.exitOverride();
+      const log = console.log;
+      console.log = () => {};
+      try {
+        await cli.parseAsync([], { from: 'user' });
+        await cli.parseAsync(['--verbose'], { from: 'user' });
+      } finally {
+        console.log = log;
+      }
+
+      expect(levels).toEqual(['info', 'debug']);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Structured logging
+ *
+ * Handlers log through `context.logger` instead of writing to the console.
+ * Each interface plugs in its own sink: readable lines on stderr for the CLI,
+ * MCP `notifications/message`, or JSON lines for API servers.
+ */
+
+import { redactSecrets } from './secrets';
+import type { ExecutionContext, MCPLoggingMessage, MCPRequestExtra } from './types';
+
+/**
+ * Log levels, least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * One log record handed to a sink
+ */
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+
+  /** Structured fields (logger fields merged with per-call fields) */
+  fields: Record<string, unknown>;
+
+  time: Date;
+}
+
+/**
+ * Where log entries go
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * Options for Logger
+ */
+export interface LoggerOptions {
+  /** Minimum level written (default: 'info'); 'silent' drops everything */
+  level?: LogLevel | 'silent';
+
+  /** Fields added to every entry */
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * Leveled logger with structured fields
+ */
+export class Logger {
+  readonly level: LogLevel | 'silent';
+  private readonly fields: Record<string, unknown>;
+
+  constructor(
+    private readonly sink: LogSink,
+    options: LoggerOptions = {}
+  ) {
+    this.level = options.level ?? 'info';
+    this.fields = options.fields ?? {};
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Whether entries at this level are written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.level];
+  }
+
+  /**
+   * Logger writing to the same sink with extra fields on every entry
+   */
+  child(fields: Record<string, unknown>): Logger {
+    return new Logger(this.sink, { level: this.level, fields: { ...this.fields, ...fields } });
+  }
+
+  /**
+   * Logger writing to the same sink with these values replaced by
+   * [REDACTED] in messages and fields (values added to the list later are
+   * redacted too)
+   */
+  redact(secrets: string[]): Logger {
+    const sink = this.sink;
+    return new Logger((entry) => sink(redactSecrets(entry, secrets)), {
+      level: this.level,
+      fields: this.fields,
+    });
+  }
+
+  private log(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (!this.isLevelEnabled(level)) return;
+    this.sink({ level, message, fields: { ...this.fields, ...fields }, time: new Date() });
+  }
+}
+
+/**
+ * Logger that drops everything
+ */
+export const silentLogger = new Logger(() => {}, { level: 'silent' });
+
+/**
+ * Human-readable lines, e.g. `warn: Retrying attempt=2` (CLI)
+ */
+export function textSink(stream: NodeJS.WritableStream = process.stderr): LogSink {
+  return ({ level, message, fields }) => {
+    const pairs = Object.entries(fields).map(([key, value]) => `${key}=${formatField(value)}`);
+    const prefix = level === 'info' ? '' : `${level}: `;
+    stream.write(`${prefix}${[message, ...pairs].join(' ')}\n`);
+  };
+}
+
+/**
+ * One JSON object per line (API servers, log aggregation)
+ */
+export function jsonSink(stream: NodeJS.WritableStream = process.stderr): LogSink {
+  return ({ level, message, fields, time }) => {
+    stream.write(JSON.stringify({ time: time.toISOString(), level, message, ...fields }) + '\n');
+  };
+}
+
+/**
+ * MCP `notifications/message` for the request's client
+ *
+ * Sends through extra.sendLoggingMessage when the server provides it, so
+ * the client's logging/setLevel applies; otherwise as a plain notification.
+ * Returns undefined when the transport cannot send notifications.
+ */
+export function mcpSink(extra: MCPRequestExtra | undefined, name?: string): LogSink | undefined {
+  const sendNotification = extra?.sendNotification;
+  const send =
+    extra?.sendLoggingMessage ??
+    (sendNotification &&
+      ((params: MCPLoggingMessage) =>
+        sendNotification({ method: 'notifications/message', params })));
+  if (!send) return undefined;
+
+  return ({ level, message, fields }) => {
+    send({
+      level: level === 'warn' ? 'warning' : level,
+      ...(name && { logger: name }),
+      data: Object.keys(fields).length > 0 ? { message, ...fields } : message,
+    }).catch(() => {
+      // Logging is best-effort; the client may have gone away
+    });
+  };
+}
+
+/**
+ * Request extra whose log messages go through the MCP server's
+ * sendLoggingMessage, which drops levels below the client's logging/setLevel
+ */
+export function withServerLogging(
+  server: { sendLoggingMessage(params: MCPLoggingMessage, sessionId?: string): Promise<void> },
+  extra: MCPRequestExtra
+): MCPRequestExtra {
+  return {
+    ...extra,
+    sendLoggingMessage: (params) => server.sendLoggingMessage(params, extra?.sessionId),
+  };
+}
+
+/**
+ * Level for CLI flags: --verbose shows debug, --quiet only errors
+ */
+export function levelFromFlags(flags: { verbose?: boolean; quiet?: boolean }): LogLevel {
+  if (flags.quiet) return 'error';
+  if (flags.verbose) return 'debug';
+  return 'info';
+}
+
+function formatField(value: unknown): string {
+  if (typeof value === 'string') {
+    return /\s/.test(value) ? JSON.stringify(value) : value;
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Logger execute() uses when the caller did not provide one: text on stderr
+ * for the CLI, JSON lines on stderr for the API, nothing for MCP and tests
+ * (stdout may carry the protocol; toMCP logs through notifications instead)
+ */
+export function defaultLogger(context: Pick<ExecutionContext, 'interface' | 'stderr'>): Logger {
+  switch (context.interface) {
+    case 'cli':
+      return new Logger(textSink(context.stderr ?? process.stderr));
+    case 'api':
+      return new Logger(jsonSink());
+    default:
+      return silentLogger;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from './index';
+import { ScopeRegistry } from '../scopes/ScopeRegistry';
+import { UniversalCommand } from '../UniversalCommand';
+
+async function connect(registry: ScopeRegistry) {
+  const server = createMCPServer(registry, { name: 'test-tools', version: '1.0.0' });
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('createMCPServer', () => {
+  it("should send handler logs at or above the client's logging level", async () => {
+    const registry = new ScopeRegistry();
+    registry.register(
+      new UniversalCommand({
+        name: 'deploy',
+        description: 'Deploy',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        handler: async (_args, context) => {
+          context.logger!.info('Uploading');
+          context.logger!.error('Upload failed');
+          return {};
+        },
+      })
+    );
+    const client = await connect(registry);
+    const messages = vi.fn();
+    client.setNotificationHandler(LoggingMessageNotificationSchema, messages);
+
+    await client.setLoggingLevel('error');
+    await client.callTool({ name: 'sc_deploy', arguments: {} });
+
+    await vi.waitFor(() => expect(messages).toHaveBeenCalled());
+    expect(messages.mock.calls.map(([n]) => n.params)).toEqual([
+      { level: 'error', logger: 'sc_deploy', data: 'Upload failed' },
+    ]);
+    await client.close();
+  });
+
+  it('should serve prompts of loaded scopes and their commands', async () => {
+    const registry = new ScopeRegistry();
+    registry.registerScope({
+      id: 'planning',
+      name: 'Planning',
+      description: 'Planning tools',
+      keywords: [],
+      prompts: [{ name: 'plan-feature', messages: 'Plan {{feature}}' }],
+    });
+    registry.register(
+      new UniversalCommand({
+        name: 'test audit',
+        description: 'Audit tests',
+        scope: 'planning',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        prompts: [
+          {
+            name: 'triage-failing-tests',
+            arguments: [{ name: 'suite', required: true }],
+            messages: 'Triage {{suite}}',
+          },
+        ],
+        handler: async () => ({}),
+      })
+    );
+    const client = await connect(registry);
+
+    expect((await client.listPrompts()).prompts).toEqual([]);
+
+    registry.loadScope('planning');
+    const { prompts } = await client.listPrompts();
+    const prompt = await client.getPrompt({ name: 'plan-feature', arguments: { feature: 'search' } });
+
+    expect(prompts.map((p) => p.name)).toEqual(['plan-feature', 'triage-failing-tests']);
+    expect(prompt.messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'Plan search' } },
+    ]);
+    await expect(client.getPrompt({ name: 'triage-failing-tests' })).rejects.toThrow(
+      "Missing arguments for prompt 'triage-failing-tests': suite"
+    );
+    await expect(client.getPrompt({ name: 'nope' })).rejects.toThrow('Unknown prompt: nope');
+    await client.close();
+  });
+});
@@ -2,19 +2,31 @@
  * MCP-specific utilities for Universal Command
  */
 
+import { createRequire } from 'node:module';
 import { CommandRegistry } from '../CommandRegistry';
+import { ScopeRegistry } from '../scopes/ScopeRegistry';
+import { ValidationError } from '../errors';
+import { collectPrompts, promptInfo, renderPrompt } from '../prompts';
+import { withServerLogging } from '../logger';
+
+// The MCP SDK is an optional peer, loaded on first use
+const require = createRequire(import.meta.url);
 
 /**
- * Create an MCP server from a CommandRegistry
+ * Create an MCP server from a CommandRegistry or ScopeRegistry
+ *
+ * With a ScopeRegistry, tools and prompts come from its loaded scopes.
  */
-export function createMCPServer(registry: CommandRegistry, config: {
+export function createMCPServer(registry: CommandRegistry | ScopeRegistry, config: {
   name: string;
   version: string;
 }): any {
   // Lazy load MCP SDK
   let Server: any;
+  let types: any;
   try {
-    Server = require('@modelcontextprotocol/sdk/server').Server;
+    Server = require('@modelcontextprotocol/sdk/server/index.js').Server;
+    types = require('@modelcontextprotocol/sdk/types.js');
   } catch {
     throw new Error(
       '@modelcontextprotocol/sdk package is required. Install with: npm install @modelcontextprotocol/sdk'
@@ -28,19 +40,25 @@ export function createMCPServer(registry: CommandRegistry, config: {
     },
     {
       capabilities: {
-        tools: {}
+        tools: {},
+        prompts: {},
+        // Handlers log through context.logger as notifications/message
+        logging: {}
       }
     }
   );
 
+  const commands = () =>
+    registry instanceof ScopeRegistry ? registry.getLoadedCommands() : registry.getAll();
+
   // Register tools/list handler
-  server.setRequestHandler('tools/list', async () => {
-    const tools = registry.getAll().map(cmd => cmd.toMCP());
+  server.setRequestHandler(types.ListToolsRequestSchema, async () => {
+    const tools = commands().map(cmd => cmd.toMCP());
     return { tools };
   });
 
   // Register tools/call handler
-  server.setRequestHandler('tools/call', async (request: any) => {
+  server.setRequestHandler(types.CallToolRequestSchema, async (request: any, extra?: any) => {
     const { name, arguments: args } = request.params;
 
     const command = registry.findByMCPName(name);
@@ -48,7 +66,40 @@ export function createMCPServer(registry: CommandRegistry, config: {
       throw new Error(`Unknown tool: ${name}`);
     }
 
-    return await command.toMCP().execute(args);
+    return await command.toMCP().execute(args, withServerLogging(server, extra));
+  });
+
+  // Prompts of the loaded scopes (ScopeRegistry) and of the commands
+  const prompts = () =>
+    collectPrompts([
+      ...(registry instanceof ScopeRegistry
+        ? registry.getLoadedScopeIds().flatMap(id => registry.getScope(id) ?? [])
+        : []),
+      ...commands().map(cmd => cmd.schema)
+    ]);
+
+  // Register prompts/list handler
+  server.setRequestHandler(types.ListPromptsRequestSchema, async () => {
+    return { prompts: prompts().map(promptInfo) };
+  });
+
+  // Register prompts/get handler
+  server.setRequestHandler(types.GetPromptRequestSchema, async (request: any) => {
+    const { name, arguments: args } = request.params;
+
+    const prompt = prompts().find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new types.McpError(types.ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    try {
+      return await renderPrompt(prompt, args);
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw new types.McpError(types.ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
   });
 
   return server;
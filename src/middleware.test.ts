@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { MiddlewareStack, type Middleware } from './middleware';
+import { UniversalCommand } from './UniversalCommand';
+import { CommandRegistry } from './CommandRegistry';
+import { ScopeRegistry } from './scopes/ScopeRegistry';
+import { RuntimeServer } from './runtime';
+import { ValidationError } from './errors';
+
+function createCommand(name = 'greet') {
+  return new UniversalCommand({
+    name,
+    description: 'Greet someone',
+    input: {
+      parameters: [{ name: 'name', type: 'string', description: 'Name', required: true }],
+    },
+    output: { type: 'json' },
+    handler: async (args) => ({ message: `Hello, ${args.name}` }),
+  });
+}
+
+function record(log: string[], label: string): Middleware {
+  return async (args, context, next) => {
+    log.push(`${label}:before`);
+    const result = await next();
+    log.push(`${label}:after`);
+    return result;
+  };
+}
+
+describe('middleware', () => {
+  describe('MiddlewareStack', () => {
+    it('should run enclosing stacks first and each stack once', async () => {
+      const log: string[] = [];
+      const root = new MiddlewareStack().use(record(log, 'root'));
+      const a = new MiddlewareStack().use(record(log, 'a'));
+      const b = new MiddlewareStack().use(record(log, 'b'));
+      const leaf = new MiddlewareStack().use(record(log, 'leaf'));
+      a.addParent(root);
+      b.addParent(root);
+      leaf.addParent(a);
+      leaf.addParent(b);
+
+      await leaf.run({}, { interface: 'test' }, async () => log.push('final'));
+
+      expect(log).toEqual([
+        'root:before',
+        'a:before',
+        'b:before',
+        'leaf:before',
+        'final',
+        'leaf:after',
+        'b:after',
+        'a:after',
+        'root:after',
+      ]);
+    });
+
+    it('should allow next() to be called again for retries', async () => {
+      let attempts = 0;
+      const stack = new MiddlewareStack().use(async (args, context, next) => {
+        for (;;) {
+          try {
+            return await next();
+          } catch (error) {
+            if (attempts >= 3) throw error;
+          }
+        }
+      });
+
+      const result = await stack.run({}, { interface: 'test' }, async () => {
+        attempts++;
+        if (attempts < 3) throw new Error('flaky');
+        return 'ok';
+      });
+
+      expect(result).toBe('ok');
+      expect(attempts).toBe(3);
+    });
+  });
+
+  describe('UniversalCommand.use', () => {
+    it('should short-circuit without running the handler', async () => {
+      const cmd = createCommand().use(async () => ({ message: 'cached' }));
+
+      await expect(cmd.execute({ name: 'x' }, { interface: 'test' })).resolves.toEqual({
+        message: 'cached',
+      });
+    });
+
+    it('should pass replaced args downstream and validate them', async () => {
+      const cmd = createCommand().use((args, context, next) =>
+        next({ ...args, name: args.name.toUpperCase() })
+      );
+
+      await expect(cmd.execute({ name: 'ada' }, { interface: 'test' })).resolves.toEqual({
+        message: 'Hello, ADA',
+      });
+
+      const invalid = createCommand().use((args, context, next) => next({}));
+      await expect(invalid.execute({ name: 'ada' }, { interface: 'test' })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should wrap results', async () => {
+      const cmd = createCommand().use(async (args, context, next) => ({
+        data: await next(),
+        command: context.command?.name,
+      }));
+
+      await expect(cmd.execute({ name: 'ada' }, { interface: 'test' })).resolves.toEqual({
+        data: { message: 'Hello, ada' },
+        command: 'greet',
+      });
+    });
+
+    it('should run identically for every interface', async () => {
+      const seen: string[] = [];
+      const cmd = createCommand().use((args, context, next) => {
+        seen.push(context.interface);
+        return next();
+      });
+
+      await cmd.execute({ name: 'a' }, { interface: 'cli' });
+      await cmd.toMCP().execute({ name: 'a' });
+      await cmd.toNextAPI().GET!(new Request('http://localhost/api/greet?name=a'));
+
+      expect(seen).toEqual(['cli', 'mcp', 'api']);
+    });
+
+    it('should restore context.command after execution', async () => {
+      const context = { interface: 'test' as const };
+      await createCommand().execute({ name: 'a' }, context);
+
+      expect(context).not.toHaveProperty('command', expect.anything());
+    });
+  });
+
+  describe('registries', () => {
+    it('should apply CommandRegistry middleware to registered commands only', async () => {
+      const log: string[] = [];
+      const registry = new CommandRegistry().use(record(log, 'registry'));
+      const cmd = createCommand();
+      registry.register(cmd);
+
+      await cmd.execute({ name: 'a' }, { interface: 'test' });
+      expect(log).toEqual(['registry:before', 'registry:after']);
+
+      registry.unregister('greet');
+      await cmd.execute({ name: 'a' }, { interface: 'test' });
+      expect(log).toHaveLength(2);
+    });
+
+    it('should apply ScopeRegistry middleware', async () => {
+      const log: string[] = [];
+      const registry = new ScopeRegistry().use(record(log, 'scopes'));
+      const cmd = createCommand();
+      registry.register(cmd);
+
+      await registry.get('greet')!.execute({ name: 'a' }, { interface: 'test' });
+
+      expect(log).toEqual(['scopes:before', 'scopes:after']);
+    });
+
+    it('should run RuntimeServer middleware once outside registry and command middleware', async () => {
+      const log: string[] = [];
+      const server = new RuntimeServer().use(record(log, 'server'));
+      server.getRegistry().use(record(log, 'registry'));
+      const cmd = createCommand().use(record(log, 'command'));
+      server.register(cmd);
+
+      await cmd.toMCP().execute({ name: 'a' });
+
+      expect(log).toEqual([
+        'server:before',
+        'registry:before',
+        'command:before',
+        'command:after',
+        'registry:after',
+        'server:after',
+      ]);
+    });
+
+    it('should short-circuit from server middleware for API requests', async () => {
+      const server = new RuntimeServer().use(async (args, context) => {
+        if (context.interface === 'api') {
+          throw new ValidationError('Blocked', []);
+        }
+      });
+      server.register(createCommand());
+
+      const response = await server
+        .getNextHandlers()
+        .GET(new Request('http://localhost/api/greet?name=a'), { params: { path: ['greet'] } });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Command middleware
+ *
+ * Koa-style middleware that runs inside UniversalCommand.execute(), so it
+ * applies identically to CLI, API and MCP calls. Middleware can be added to a
+ * command, a CommandRegistry or ScopeRegistry, or a RuntimeServer; each level
+ * wraps the levels below it.
+ *
+ * @example
+ * ```typescript
+ * registry.use(async (args, context, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.error(`${context.command?.name} took ${Date.now() - started}ms`);
+ *   }
+ * });
+ * ```
+ */
+
+import type { ExecutionContext } from './types';
+
+/**
+ * Continue to the next middleware (or the command itself)
+ * Pass new args to replace them for everything downstream.
+ */
+export type NextFunction<TOutput = any> = (args?: any) => Promise<TOutput>;
+
+/**
+ * Middleware function
+ *
+ * Return without calling next() to short-circuit, call next() more than once
+ * to retry, or transform what next() resolves to.
+ */
+export type Middleware<TInput = any, TOutput = any> = (
+  args: TInput,
+  context: ExecutionContext,
+  next: NextFunction<TOutput>
+) => Promise<TOutput> | TOutput;
+
+/**
+ * Ordered middleware list with links to enclosing stacks
+ */
+export class MiddlewareStack {
+  private middleware: Middleware[] = [];
+  private parents = new Set<MiddlewareStack>();
+
+  /**
+   * Append middleware (runs inside middleware added earlier)
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Wrap this stack in another (e.g. a command in its registry)
+   */
+  addParent(parent: MiddlewareStack): void {
+    this.parents.add(parent);
+  }
+
+  /**
+   * Remove a link added with addParent
+   */
+  removeParent(parent: MiddlewareStack): void {
+    this.parents.delete(parent);
+  }
+
+  /**
+   * Middleware in execution order: enclosing stacks first, each stack once
+   * even when it is reachable through several parents.
+   */
+  resolve(): Middleware[] {
+    const visited = new Set<MiddlewareStack>();
+    const chain: Middleware[] = [];
+
+    const visit = (stack: MiddlewareStack) => {
+      if (visited.has(stack)) return;
+      visited.add(stack);
+      for (const parent of stack.parents) {
+        visit(parent);
+      }
+      chain.push(...stack.middleware);
+    };
+
+    visit(this);
+    return chain;
+  }
+
+  /**
+   * Run the resolved chain around a final step
+   */
+  run<TOutput>(
+    args: any,
+    context: ExecutionContext,
+    final: (args: any) => Promise<TOutput>
+  ): Promise<TOutput> {
+    const chain = this.resolve();
+
+    const dispatch = async (index: number, current: any): Promise<TOutput> => {
+      if (index === chain.length) {
+        return final(current);
+      }
+      return chain[index](current, context, (next = current) => dispatch(index + 1, next));
+    };
+
+    return dispatch(0, args);
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UniversalCommand } from './UniversalCommand';
+import { LazyUniversalCommand } from './LazyUniversalCommand';
+import { OutputValidationError, ExitCode } from './errors';
+import { validateOutput } from './output-validation';
+import type { OutputValidationMode } from './output-validation';
+
+const outputSchema = {
+  type: 'object',
+  properties: {
+    commitHash: { type: 'string' },
+    filesCommitted: { type: 'number' },
+    files: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['commitHash'],
+};
+
+function createCommand(result: any, validate?: OutputValidationMode, onValidationError?: any) {
+  return new UniversalCommand({
+    name: 'git commit',
+    description: 'Commit files',
+    input: { parameters: [] },
+    output: { type: 'json', schema: outputSchema, validate, onValidationError },
+    handler: async () => result,
+  });
+}
+
+describe('validateOutput', () => {
+  it('should return no issues for valid output', () => {
+    expect(validateOutput(outputSchema, { commitHash: 'abc', filesCommitted: 1 })).toEqual([]);
+  });
+
+  it('should report issues with readable paths', () => {
+    const issues = validateOutput(outputSchema, { filesCommitted: '1', files: ['a', 2] });
+
+    expect(issues.map((i) => i.path)).toEqual(['commitHash', 'filesCommitted', 'files[1]']);
+  });
+});
+
+describe('UniversalCommand output validation', () => {
+  it('should not validate by default', async () => {
+    const cmd = createCommand({ filesCommitted: 'nope' });
+    await expect(cmd.execute({}, { interface: 'test' })).resolves.toEqual({
+      filesCommitted: 'nope',
+    });
+  });
+
+  it('should throw OutputValidationError in strict mode', async () => {
+    const cmd = createCommand({ filesCommitted: 1 }, 'strict');
+
+    const error = await cmd.execute({}, { interface: 'test' }).catch((e) => e);
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect(error.errors).toEqual([
+      { path: 'commitHash', message: "must have required property 'commitHash'" },
+    ]);
+    expect(error.getExitCode()).toBe(ExitCode.SOFTWARE);
+  });
+
+  it('should pass valid output through in strict mode', async () => {
+    const cmd = createCommand({ commitHash: 'abc' }, 'strict');
+    await expect(cmd.execute({}, { interface: 'test' })).resolves.toEqual({ commitHash: 'abc' });
+  });
+
+  it('should call the hook in warn mode and still return the result', async () => {
+    const hook = vi.fn();
+    const cmd = createCommand({ commitHash: 1 }, 'warn', hook);
+    const context = { interface: 'test' as const };
+
+    await expect(cmd.execute({}, context)).resolves.toEqual({ commitHash: 1 });
+    expect(hook).toHaveBeenCalledWith(
+      [{ path: 'commitHash', message: 'must be string' }],
+      { commitHash: 1 },
+      context
+    );
+  });
+
+  it('should fall back to console.warn in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cmd = createCommand({ commitHash: 1 }, 'warn');
+
+    await cmd.execute({}, { interface: 'test' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('commitHash: must be string'));
+    warn.mockRestore();
+  });
+
+  it('should let context.outputValidation override the schema', async () => {
+    const cmd = createCommand({}, undefined);
+    await expect(
+      cmd.execute({}, { interface: 'test', outputValidation: 'strict' })
+    ).rejects.toThrow(OutputValidationError);
+
+    const strictCmd = createCommand({}, 'strict');
+    await expect(
+      strictCmd.execute({}, { interface: 'test', outputValidation: 'off' })
+    ).resolves.toEqual({});
+  });
+
+  it('should validate output of lazy commands', async () => {
+    const cmd = new LazyUniversalCommand({
+      name: 'lazy',
+      description: 'Lazy command',
+      handlerPath: './unused',
+      handler: async () => ({ filesCommitted: 2 }),
+      input: { parameters: [] },
+      output: { type: 'json', schema: outputSchema, validate: 'strict' },
+    });
+    (cmd as any).handlerLoaded = true;
+
+    await expect(cmd.execute({}, { interface: 'test' })).rejects.toThrow(OutputValidationError);
+  });
+
+  it('should surface strict failures through toMCP as errors', async () => {
+    const cmd = createCommand({}, 'strict');
+    const result = await cmd.toMCP().execute({});
+    expect(result.content[0].text).toContain('does not match its schema');
+  });
+});
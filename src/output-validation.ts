@@ -0,0 +1,61 @@
+/**
+ * Output validation
+ *
+ * Checks handler results against `CommandSchema.output.schema` (JSON Schema)
+ * so the contract published through OpenAPI and MCP is actually enforced.
+ */
+
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import type { ValidationIssue } from './validation';
+
+/**
+ * How output is checked against output.schema
+ * - 'strict': throw OutputValidationError
+ * - 'warn': report through output.onValidationError (default: console.warn)
+ * - 'off': skip validation
+ */
+export type OutputValidationMode = 'strict' | 'warn' | 'off';
+
+// strict: false so schemas using keywords Ajv does not know (e.g. formats) still compile
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/** Compiled validators, keyed by schema object */
+const validators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Validate a value against a JSON Schema, returning any issues found
+ */
+export function validateOutput(schema: object, value: unknown): ValidationIssue[] {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+
+  if (validate(value)) {
+    return [];
+  }
+
+  return (validate.errors || []).map(toIssue);
+}
+
+/**
+ * Convert an Ajv error to a ValidationError entry with a `tags[2]` style path
+ */
+function toIssue(error: ErrorObject): ValidationIssue {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (error.keyword === 'required') {
+    segments.push(error.params.missingProperty);
+  }
+
+  let path = '';
+  for (const segment of segments) {
+    path += /^\d+$/.test(segment) ? `[${segment}]` : path ? `.${segment}` : segment;
+  }
+
+  return { path, message: error.message || 'Invalid value' };
+}
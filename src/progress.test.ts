@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { Writable } from 'stream';
+import { TerminalProgress, createMCPProgress, formatServerSentEvent } from './progress';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+
+function createCommand(options: { fail?: boolean } = {}) {
+  return new UniversalCommand({
+    name: 'files sync',
+    description: 'Sync files',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    handler: async (args, context) => {
+      context.progress!({ current: 1, total: 2, message: 'first' });
+      context.progress!({ current: 2, total: 2, message: 'second' });
+      if (options.fail) throw new ValidationError('Bad input', []);
+      return { synced: 2 };
+    },
+  });
+}
+
+function createStream() {
+  let output = '';
+  const stream = new Writable({
+    write(chunk, encoding, callback) {
+      output += chunk.toString();
+      callback();
+    },
+  });
+  return { stream, output: () => output };
+}
+
+describe('progress', () => {
+  it('should default to a no-op reporter and restore the caller context', async () => {
+    const context = { interface: 'test' as const };
+
+    await expect(createCommand().execute({}, context)).resolves.toEqual({ synced: 2 });
+    expect(context).not.toHaveProperty('progress', expect.anything());
+  });
+
+  describe('TerminalProgress', () => {
+    it('should render a bar when the total is known and clear it when done', () => {
+      const { stream, output } = createStream();
+      const progress = new TerminalProgress(stream);
+
+      progress.update({ current: 1, total: 4, message: 'Uploading' });
+      expect(output()).toContain('25.0% (1/4) Uploading');
+
+      progress.done();
+      expect(output().endsWith('\r\x1b[K')).toBe(true);
+    });
+
+    it('should not write anything when no progress was reported', () => {
+      const { stream, output } = createStream();
+      new TerminalProgress(stream).done();
+
+      expect(output()).toBe('');
+    });
+  });
+
+  describe('MCP', () => {
+    it('should send notifications/progress when a progressToken was given', async () => {
+      const notifications: any[] = [];
+      const extra = {
+        _meta: { progressToken: 'tok' },
+        sendNotification: async (notification: any) => {
+          notifications.push(notification);
+        },
+      };
+
+      await createCommand().toMCP().execute({}, extra);
+
+      expect(notifications).toEqual([
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 'tok', progress: 1, total: 2, message: 'first' },
+        },
+        {
+          method: 'notifications/progress',
+          params: { progressToken: 'tok', progress: 2, total: 2, message: 'second' },
+        },
+      ]);
+    });
+
+    it('should keep progress increasing for updates without a count', () => {
+      const params: any[] = [];
+      const report = createMCPProgress({
+        _meta: { progressToken: 1 },
+        sendNotification: async (notification) => {
+          params.push(notification.params);
+        },
+      });
+
+      report!({ message: 'a' });
+      report!({ message: 'b' });
+
+      expect(params.map((p) => p.progress)).toEqual([1, 2]);
+    });
+
+    it('should not report without a progressToken', () => {
+      expect(createMCPProgress({ sendNotification: async () => {} })).toBeUndefined();
+      expect(createMCPProgress(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('API', () => {
+    it('should format Server-Sent Events', () => {
+      expect(formatServerSentEvent('result', { ok: true })).toBe(
+        'event: result\ndata: {"ok":true}\n\n'
+      );
+    });
+
+    it('should stream progress and the result when the client accepts text/event-stream', async () => {
+      const response = await createCommand().toNextAPI().GET!(
+        new Request('http://localhost/api/files/sync', {
+          headers: { Accept: 'text/event-stream' },
+        })
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(await response.text()).toBe(
+        [
+          formatServerSentEvent('progress', { current: 1, total: 2, message: 'first' }),
+          formatServerSentEvent('progress', { current: 2, total: 2, message: 'second' }),
+          formatServerSentEvent('result', { synced: 2 }),
+        ].join('')
+      );
+    });
+
+    it('should end the stream with an error event', async () => {
+      const response = await createCommand({ fail: true }).toNextAPI().GET!(
+        new Request('http://localhost/api/files/sync', {
+          headers: { Accept: 'text/event-stream' },
+        })
+      );
+
+      const text = await response.text();
+      expect(text).toContain('event: error\ndata: {"error":"Bad input"');
+    });
+
+    it('should reject before streaming when the request is refused', async () => {
+      const cmd = new UniversalCommand({
+        name: 'files push',
+        description: 'Push files',
+        input: {
+          parameters: [{ name: 'target', type: 'string', description: 'Target', required: true }],
+        },
+        output: { type: 'json' },
+        api: { rateLimit: { requests: 1, window: '1h', key: () => 'client' } },
+        handler: async () => ({ pushed: true }),
+      });
+      const request = () =>
+        new Request('http://localhost/api/files/push', {
+          headers: { Accept: 'text/event-stream' },
+        });
+
+      const invalid = await cmd.toNextAPI().GET!(request());
+      const limited = await cmd.toNextAPI().GET!(request());
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.headers.get('Content-Type')).toContain('application/json');
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('Retry-After')).toBe('3600');
+    });
+
+    it('should respond with JSON otherwise', async () => {
+      const response = await createCommand().toNextAPI().GET!(
+        new Request('http://localhost/api/files/sync')
+      );
+
+      expect(await response.json()).toEqual({ synced: 2 });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Progress reporting
+ *
+ * Handlers call `context.progress({ current, total, message })` once and each
+ * interface maps it to its own channel: a progress bar or spinner on a CLI
+ * TTY, MCP `notifications/progress`, or Server-Sent Events from the API.
+ */
+
+import { ProgressBar, Spinner } from './formatting';
+import type { MCPRequestExtra } from './types';
+
+/**
+ * A progress report from a handler
+ */
+export interface ProgressUpdate {
+  /** Work done so far (e.g. files processed) */
+  current?: number;
+
+  /** Total work, when known; omit for indeterminate progress */
+  total?: number;
+
+  /** What is happening now */
+  message?: string;
+}
+
+/**
+ * Function handlers call to report progress
+ */
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/**
+ * Renders progress on a terminal: a bar when the total is known, a spinner
+ * otherwise. Write to stderr so stdout stays clean for results.
+ */
+export class TerminalProgress {
+  private bar?: ProgressBar;
+  private total?: number;
+  private spinner?: Spinner;
+  private active = false;
+
+  constructor(private readonly stream: NodeJS.WritableStream = process.stderr) {}
+
+  /**
+   * Render an update
+   */
+  update({ current, total, message }: ProgressUpdate): void {
+    this.active = true;
+
+    if (total !== undefined && total > 0) {
+      this.stopSpinner();
+      if (!this.bar || this.total !== total) {
+        this.bar = new ProgressBar(total, 30);
+        this.total = total;
+      }
+      this.bar.update(current ?? 0);
+      const line = message ? `${this.bar.render()} ${message}` : this.bar.render();
+      this.stream.write(`\r${line}\x1b[K`);
+      return;
+    }
+
+    const text = message ?? (current !== undefined ? `${current}` : 'Working');
+    if (this.spinner) {
+      this.spinner.update(text);
+    } else {
+      this.spinner = new Spinner(text, this.stream);
+      this.spinner.start();
+    }
+  }
+
+  /**
+   * Clear the progress line
+   */
+  done(): void {
+    this.stopSpinner();
+    if (this.active) {
+      this.stream.write('\r\x1b[K');
+      this.active = false;
+    }
+  }
+
+  private stopSpinner(): void {
+    if (this.spinner) {
+      this.spinner.stop();
+      this.spinner = undefined;
+    }
+  }
+}
+
+/**
+ * Progress reporter sending MCP `notifications/progress`
+ *
+ * Returns undefined unless the client asked for progress by passing a
+ * progressToken in the request's _meta.
+ */
+export function createMCPProgress(
+  extra: MCPRequestExtra | undefined
+): ProgressReporter | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined || !extra?.sendNotification) {
+    return undefined;
+  }
+
+  // MCP requires progress to increase; count updates that carry no number
+  let last = 0;
+  return ({ current, total, message }) => {
+    last = current ?? last + 1;
+    extra.sendNotification!({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: last,
+        ...(total !== undefined && { total }),
+        ...(message !== undefined && { message }),
+      },
+    }).catch(() => {
+      // The client may have gone away; progress is best-effort
+    });
+  };
+}
+
+/**
+ * Whether an HTTP request asked for Server-Sent Events
+ */
+export function acceptsEventStream(accept: string | null | undefined): boolean {
+  return typeof accept === 'string' && accept.includes('text/event-stream');
+}
+
+/**
+ * Format one Server-Sent Event
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  const payload = JSON.stringify(data) ?? 'null';
+  return `event: ${event}\ndata: ${payload}\n\n`;
+}
+
+/**
+ * Response headers for a Server-Sent Events stream
+ */
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
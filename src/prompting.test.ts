@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Writable } from 'stream';
+import {
+  createTerminalParameterPrompt,
+  fillMissingParameters,
+  missingParameters,
+  type ParameterPrompt,
+} from './prompting';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+import type { Parameter } from './types';
+
+const parameters: Parameter[] = [
+  {
+    name: 'environment',
+    type: 'string',
+    description: 'Target',
+    required: true,
+    enum: ['staging', 'production'],
+  },
+  { name: 'replicas', type: 'number', description: 'Replicas', required: true, min: 1 },
+  { name: 'token', type: 'string', description: 'Deploy token', required: true, secret: true },
+  { name: 'notify', type: 'boolean', description: 'Notify the team' },
+];
+
+function createStream() {
+  let output = '';
+  const stream = new Writable({
+    write(chunk, encoding, callback) {
+      output += chunk.toString();
+      callback();
+    },
+  });
+  return { stream, output: () => output };
+}
+
+function createCommand() {
+  const handler = vi.fn(async (args: any) => args);
+  const cmd = new UniversalCommand({
+    name: 'deploy',
+    description: 'Deploy',
+    input: { parameters },
+    output: { type: 'json' },
+    handler,
+  });
+  return { cmd, handler };
+}
+
+describe('prompting', () => {
+  it('should find required parameters left out', () => {
+    expect(missingParameters({ replicas: 2 }, parameters).map((p) => p.name)).toEqual([
+      'environment',
+      'token',
+    ]);
+  });
+
+  describe('fillMissingParameters', () => {
+    it('should ask again for invalid answers with the problem', async () => {
+      const ask = vi
+        .fn<Parameters<ParameterPrompt>, ReturnType<ParameterPrompt>>()
+        .mockResolvedValueOnce({ environment: 'staging', replicas: 0 })
+        .mockResolvedValueOnce({ replicas: 3 });
+
+      const args = await fillMissingParameters({ token: 't' }, parameters, {
+        interface: 'cli',
+        promptParameters: ask,
+      });
+
+      expect(args).toEqual({ token: 't', environment: 'staging', replicas: 3 });
+      expect(ask.mock.calls[1][0].map((p) => p.name)).toEqual(['replicas']);
+      expect(ask.mock.calls[1][1]).toEqual({ replicas: 'Value must be >= 1' });
+    });
+
+    it('should give up after a few attempts and leave the value to validation', async () => {
+      const ask = vi.fn(async () => ({ replicas: -1 }));
+      const { cmd, handler } = createCommand();
+
+      await expect(
+        cmd.execute({ environment: 'staging', token: 't' } as any, {
+          interface: 'cli',
+          promptParameters: ask,
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(ask).toHaveBeenCalledTimes(3);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should not ask when nothing is missing or nobody can answer', async () => {
+      const ask = vi.fn();
+      const args = { environment: 'staging', replicas: 1, token: 't' };
+
+      expect(
+        await fillMissingParameters(args, parameters, { interface: 'cli', promptParameters: ask })
+      ).toBe(args);
+      expect(await fillMissingParameters({}, parameters, { interface: 'api' })).toEqual({});
+      expect(ask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('terminal', () => {
+    it('should ask type-aware questions', async () => {
+      const answers = ['2', '3', 'secret', 'y'];
+      const prompt = vi.fn(async () => answers.shift()!);
+      const { stream, output } = createStream();
+
+      const result = await createTerminalParameterPrompt(prompt, stream)(parameters, {
+        replicas: 'Value must be >= 1',
+      });
+
+      expect(result).toEqual({
+        environment: 'production',
+        replicas: 3,
+        token: 'secret',
+        notify: true,
+      });
+      expect(output()).toContain('  1) staging\n  2) production\n');
+      expect(output()).toContain('  Value must be >= 1\n');
+      expect(prompt).toHaveBeenCalledWith('Choose 1-2');
+      expect(prompt).toHaveBeenCalledWith('token (Deploy token)', { mask: true });
+      expect(prompt).toHaveBeenCalledWith('notify (Notify the team) [y/N]');
+    });
+
+    it('should skip empty answers', async () => {
+      const prompt = vi.fn(async () => '');
+      const { stream } = createStream();
+
+      expect(await createTerminalParameterPrompt(prompt, stream)([parameters[1]], {})).toEqual({});
+    });
+  });
+
+  describe('MCP elicitation', () => {
+    it('should fill missing parameters from the elicited form', async () => {
+      const { cmd, handler } = createCommand();
+      const sendRequest = vi.fn(async () => ({
+        action: 'accept',
+        content: { environment: 'staging', replicas: 2 },
+      }));
+
+      await cmd.toMCP().execute({ token: 't' }, { sendRequest });
+
+      const request = (sendRequest.mock.calls[0] as any[])[0];
+      expect(request.method).toBe('elicitation/create');
+      expect(request.params.requestedSchema).toEqual({
+        type: 'object',
+        properties: {
+          environment: {
+            type: 'string',
+            title: 'environment',
+            description: 'Target',
+            enum: ['staging', 'production'],
+          },
+          replicas: {
+            type: 'number',
+            title: 'replicas',
+            description: 'Replicas',
+            minimum: 1,
+          },
+        },
+        required: ['environment', 'replicas'],
+      });
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ environment: 'staging', replicas: 2, token: 't' }),
+        expect.anything()
+      );
+    });
+
+    it('should never elicit secrets', async () => {
+      const { cmd, handler } = createCommand();
+      const sendRequest = vi.fn();
+
+      const result = await cmd
+        .toMCP()
+        .execute({ environment: 'staging', replicas: 1 }, { sendRequest });
+
+      expect(sendRequest).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Error: Invalid command arguments');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a validation error when the client declines', async () => {
+      const { cmd, handler } = createCommand();
+      const sendRequest = vi.fn(async () => ({ action: 'decline' }));
+
+      const result = await cmd.toMCP().execute({ token: 't' }, { sendRequest });
+
+      expect(result.content[0].text).toBe('Error: Invalid command arguments');
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Interactive prompting for missing parameters
+ *
+ * When a caller leaves out required parameters, execute() asks for them
+ * through context.promptParameters before validating: type-aware questions
+ * on a CLI terminal, or an MCP elicitation form. Answers that fail
+ * validation are asked again with the problem shown.
+ */
+
+import { createRequire } from 'node:module';
+import { CancelledError } from './errors';
+import { coerceEnvValue } from './config';
+import { validateValue } from './validation';
+import type { ExecutionContext, MCPRequestExtra, Parameter } from './types';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Ask for parameter values
+ *
+ * `problems` holds validation messages for answers being asked again.
+ * Resolves with the answers (a parameter left out was skipped), or
+ * undefined when the user gave none.
+ */
+export type ParameterPrompt = (
+  parameters: Parameter[],
+  problems: Record<string, string>
+) => Promise<Record<string, unknown> | undefined>;
+
+/**
+ * Single-question prompt, as in context.prompt
+ */
+export type TextPrompt = (
+  message: string,
+  options?: { default?: string; mask?: boolean }
+) => Promise<string>;
+
+/** How often an invalid answer is asked again before validation reports it */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Required parameters the arguments leave out
+ */
+export function missingParameters(args: unknown, parameters: Parameter[]): Parameter[] {
+  return parameters.filter((param) => {
+    const value = (args as any)?.[param.name];
+    return param.required && (value === undefined || value === null);
+  });
+}
+
+/**
+ * Ask context.promptParameters for missing required parameters
+ *
+ * Returns the arguments with the answers filled in. Skipped parameters and
+ * answers still invalid after a few attempts are left to validation.
+ */
+export async function fillMissingParameters(
+  args: unknown,
+  parameters: Parameter[],
+  context: ExecutionContext
+): Promise<unknown> {
+  const ask = context.promptParameters;
+  let missing = missingParameters(args, parameters);
+  if (!ask || missing.length === 0) return args;
+
+  const filled: Record<string, unknown> = { ...(args as any) };
+  let problems: Record<string, string> = {};
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && missing.length > 0; attempt++) {
+    const answers = await ask(missing, problems);
+    if (!answers) break;
+
+    const retry: Parameter[] = [];
+    problems = {};
+    for (const param of missing) {
+      const value = answers[param.name];
+      if (value === undefined) continue;
+
+      const errors: Array<{ path: string; message: string }> = [];
+      validateValue(value, param, param.name, errors, context.projectRoot);
+      if (errors.length > 0) {
+        problems[param.name] = errors[0].message;
+        retry.push(param);
+      } else {
+        filled[param.name] = value;
+      }
+    }
+    missing = retry;
+  }
+
+  return filled;
+}
+
+/**
+ * Question-by-question prompt for a terminal
+ *
+ * Enums are a numbered list, booleans a y/N question, and secret
+ * parameters are masked. Answers are converted to the parameter's type;
+ * an empty answer skips the parameter.
+ */
+export function createTerminalParameterPrompt(
+  prompt: TextPrompt,
+  output: NodeJS.WritableStream
+): ParameterPrompt {
+  return async (parameters, problems) => {
+    const answers: Record<string, unknown> = {};
+
+    for (const param of parameters) {
+      if (problems[param.name]) {
+        output.write(`  ${problems[param.name]}\n`);
+      }
+      const label = param.description ? `${param.name} (${param.description})` : param.name;
+
+      if (param.enum) {
+        output.write(`${label}:\n`);
+        param.enum.forEach((value, i) => output.write(`  ${i + 1}) ${value}\n`));
+        const answer = (await prompt(`Choose 1-${param.enum.length}`)).trim();
+        const index = Number(answer) - 1;
+        if (answer) {
+          answers[param.name] =
+            Number.isInteger(index) && param.enum[index] !== undefined
+              ? param.enum[index]
+              : coerceEnvValue(answer, param);
+        }
+        continue;
+      }
+
+      if (param.type === 'boolean') {
+        const answer = (await prompt(`${label} [y/N]`)).trim();
+        answers[param.name] = /^y(es)?$/i.test(answer) || coerceEnvValue(answer, param);
+        continue;
+      }
+
+      const answer = await prompt(label, { mask: param.secret === true });
+      if (answer !== '') {
+        answers[param.name] = coerceEnvValue(answer, param);
+      }
+    }
+
+    return answers;
+  };
+}
+
+/**
+ * context.prompt for a terminal: a readline question on the given streams,
+ * echoing `*` for masked input. Ctrl-C rejects with CancelledError.
+ */
+export function createTerminalPrompt(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream
+): TextPrompt {
+  return (message, options) => {
+    const readline = require('readline');
+    const rl = readline.createInterface({ input, output, terminal: true });
+    const question = options?.default ? `${message} [${options.default}]: ` : `${message}: `;
+
+    if (options?.mask) {
+      // Readline redraws the prompt plus the typed line; star out the typed part
+      rl._writeToOutput = (text: string) => {
+        output.write(
+          text.startsWith(question)
+            ? question + '*'.repeat(text.length - question.length)
+            : text.replace(/[^\r\n]/g, '*')
+        );
+      };
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      rl.on('SIGINT', () => {
+        rl.close();
+        output.write('\n');
+        reject(new CancelledError('Interrupted'));
+      });
+      rl.question(question, (answer: string) => {
+        rl.close();
+        resolve(answer || options?.default || '');
+      });
+    });
+  };
+}
+
+/**
+ * Ask for missing parameters through MCP elicitation (a form shown by the
+ * client)
+ *
+ * Only string, number and boolean parameters can be elicited, and secret
+ * parameters never are. Returns undefined when the transport cannot send
+ * requests to the client.
+ */
+export function createMCPParameterPrompt(
+  extra: MCPRequestExtra | undefined,
+  toolName: string
+): ParameterPrompt | undefined {
+  const sendRequest = extra?.sendRequest;
+  if (!sendRequest) return undefined;
+
+  return async (parameters, problems) => {
+    const askable = parameters.filter(
+      (param) => ['string', 'number', 'boolean'].includes(param.type) && !param.secret
+    );
+    if (askable.length === 0) return undefined;
+
+    const properties: Record<string, any> = {};
+    for (const param of askable) {
+      properties[param.name] = {
+        type: param.type,
+        title: param.name,
+        description: problems[param.name]
+          ? `${param.description} (${problems[param.name]})`
+          : param.description,
+        ...(param.enum && { enum: param.enum }),
+        ...(param.min !== undefined && { minimum: param.min }),
+        ...(param.max !== undefined && { maximum: param.max }),
+        ...(param.default !== undefined && { default: param.default }),
+      };
+    }
+
+    const message =
+      Object.keys(problems).length > 0
+        ? `Some values for ${toolName} are invalid; please correct them`
+        : `${toolName} needs more information`;
+
+    try {
+      const result = await elicit(sendRequest, message, {
+        type: 'object',
+        properties,
+        required: askable.map((param) => param.name),
+      });
+      return result?.action === 'accept' ? result.content : undefined;
+    } catch {
+      // Clients without elicitation get the usual validation error
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Send an MCP elicitation/create request and return the client's result
+ */
+export async function elicit(
+  sendRequest: NonNullable<MCPRequestExtra['sendRequest']>,
+  message: string,
+  requestedSchema: Record<string, unknown>
+): Promise<any> {
+  const { ElicitResultSchema } = require('@modelcontextprotocol/sdk/types.js');
+
+  return sendRequest(
+    { method: 'elicitation/create', params: { message, requestedSchema } },
+    ElicitResultSchema
+  );
+}
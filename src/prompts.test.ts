@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { collectPrompts, promptInfo, renderPrompt } from './prompts';
+import { ValidationError } from './errors';
+import { featureCreateCommand } from './commands/planning/feature-create';
+import { testAuditCommand } from './commands/test/audit';
+import type { PromptDefinition } from './types';
+
+const planFeature: PromptDefinition = {
+  name: 'plan-feature',
+  description: 'Plan a feature',
+  arguments: [
+    { name: 'feature', required: true },
+    { name: 'goal', description: 'Goal' },
+  ],
+  messages: 'Plan {{feature}}: {{ goal }}',
+};
+
+describe('MCP prompts', () => {
+  it('should fill arguments into a text prompt', async () => {
+    expect(await renderPrompt(planFeature, { feature: 'search' })).toEqual({
+      description: 'Plan a feature',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Plan search: ' } }],
+    });
+  });
+
+  it('should render message lists and functions', async () => {
+    const prompt: PromptDefinition = {
+      name: 'review',
+      messages: async ({ file }) => [
+        { role: 'user', text: `Review ${file}` },
+        { role: 'assistant', text: 'Which aspects?' },
+      ],
+    };
+
+    const rendered = await renderPrompt(prompt, { file: 'a.ts' });
+
+    expect(rendered.messages.map((m) => [m.role, m.content.text])).toEqual([
+      ['user', 'Review a.ts'],
+      ['assistant', 'Which aspects?'],
+    ]);
+  });
+
+  it('should reject missing required arguments', async () => {
+    const error = await renderPrompt(planFeature, {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("Missing arguments for prompt 'plan-feature': feature");
+  });
+
+  it('should keep the first prompt of each name', () => {
+    const other = { ...planFeature, description: 'Other' };
+
+    expect(collectPrompts([{ prompts: [planFeature] }, {}, { prompts: [other] }])).toEqual([
+      planFeature,
+    ]);
+    expect(promptInfo(planFeature)).toEqual({
+      name: 'plan-feature',
+      description: 'Plan a feature',
+      arguments: planFeature.arguments,
+    });
+  });
+
+  it('should ship planning and triage prompts with the built-in commands', async () => {
+    const [plan] = featureCreateCommand.schema.prompts!;
+    const [triage] = testAuditCommand.schema.prompts!;
+
+    const planned = await renderPrompt(plan, { feature: 'search', domain: 'core', goal: 'Find' });
+    const triaged = await renderPrompt(triage, { pattern: 'auth' });
+
+    expect(planned.messages[0].content.text).toContain('planning_feature_create (id "search"');
+    expect(triaged.messages[0].content.text).toMatch(/^Triage failing tests matching "auth"/);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * MCP prompts declared on commands and scopes
+ *
+ * Prompts are reusable instructions a client offers its user, e.g. "plan a
+ * feature" chaining `feature create` and `req new`. MCP servers list the
+ * prompts of loaded scopes and their commands (prompts/list) and render one
+ * with the client's arguments (prompts/get).
+ */
+
+import { ValidationError } from './errors';
+import type { PromptDefinition, PromptMessage } from './types';
+
+/**
+ * A prompts/get result
+ */
+export interface RenderedPrompt {
+  description?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: { type: 'text'; text: string } }>;
+}
+
+/**
+ * Prompts of scopes and command schemas, the first of each name winning
+ */
+export function collectPrompts(sources: Array<{ prompts?: PromptDefinition[] }>): PromptDefinition[] {
+  const prompts = new Map<string, PromptDefinition>();
+  for (const source of sources) {
+    for (const prompt of source.prompts ?? []) {
+      if (!prompts.has(prompt.name)) prompts.set(prompt.name, prompt);
+    }
+  }
+  return Array.from(prompts.values());
+}
+
+/**
+ * A prompt as listed by prompts/list
+ */
+export function promptInfo(prompt: PromptDefinition) {
+  return {
+    name: prompt.name,
+    ...(prompt.description && { description: prompt.description }),
+    ...(prompt.arguments && { arguments: prompt.arguments }),
+  };
+}
+
+/**
+ * Render a prompt for prompts/get
+ * Throws ValidationError when a required argument is missing.
+ */
+export async function renderPrompt(
+  prompt: PromptDefinition,
+  args: Record<string, string> = {}
+): Promise<RenderedPrompt> {
+  const missing = (prompt.arguments ?? []).filter((arg) => arg.required && !args[arg.name]);
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Missing arguments for prompt '${prompt.name}': ${missing.map((arg) => arg.name).join(', ')}`,
+      missing.map((arg) => ({ path: arg.name, message: 'Required' }))
+    );
+  }
+
+  const source =
+    typeof prompt.messages === 'function' ? await prompt.messages(args) : prompt.messages;
+  const messages: PromptMessage[] =
+    typeof source === 'string' ? [{ role: 'user', text: source }] : source;
+
+  return {
+    ...(prompt.description && { description: prompt.description }),
+    messages: messages.map((message) => ({
+      role: message.role,
+      content: { type: 'text', text: fillArguments(message.text, args) },
+    })),
+  };
+}
+
+function fillArguments(text: string, args: Record<string, string>): string {
+  return text.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_match, name: string) => args[name] ?? '');
+}
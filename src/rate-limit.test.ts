@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryRateLimitStore, rateLimitHeaders, rateLimitKey } from './rate-limit';
+import { UniversalCommand } from './UniversalCommand';
+import { ConfigurationError } from './errors';
+import type { APIOptions } from './types';
+
+function createCommand(rateLimit: APIOptions['rateLimit']) {
+  const handler = vi.fn(async () => ({ ok: true }));
+  const cmd = new UniversalCommand({
+    name: 'report build',
+    description: 'Build a report',
+    input: { parameters: [] },
+    output: { type: 'json' },
+    api: { method: 'POST', rateLimit },
+    handler,
+  });
+  return { cmd, handler };
+}
+
+function post(ip: string) {
+  return new Request('http://localhost/api/report/build', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': `${ip}, 10.0.0.1` },
+    body: '{}',
+  });
+}
+
+describe('rate limiting', () => {
+  describe('MemoryRateLimitStore', () => {
+    it('should refill the bucket evenly over the window', () => {
+      let now = 0;
+      const store = new MemoryRateLimitStore({ now: () => now });
+      const rule = { requests: 2, windowMs: 60_000 };
+
+      expect(store.consume('k', rule)).toEqual({
+        allowed: true,
+        limit: 2,
+        remaining: 1,
+        reset: 30,
+      });
+      expect(store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 0, reset: 60 });
+      expect(store.consume('k', rule)).toMatchObject({ allowed: false, retryAfter: 30 });
+
+      now = 30_000;
+      expect(store.consume('k', rule)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(store.consume('other', rule)).toMatchObject({ allowed: true, remaining: 1 });
+    });
+  });
+
+  it('should key by MCP session, then user, then client IP', () => {
+    const request = { ip: '::1', headers: { 'x-forwarded-for': '203.0.113.7' } };
+
+    expect(rateLimitKey({ interface: 'mcp', sessionId: 's1', user: { id: 'u' } })).toBe(
+      'session:s1'
+    );
+    expect(rateLimitKey({ interface: 'api', user: { id: 'u' }, request })).toBe('user:u');
+    expect(rateLimitKey({ interface: 'api', request })).toBe('ip:::1');
+    expect(
+      rateLimitKey({ interface: 'api', request: { socket: { remoteAddress: '10.0.0.2' } } })
+    ).toBe('ip:10.0.0.2');
+  });
+
+  it('should read proxy headers only with trustProxy', () => {
+    const request = { ip: '10.0.0.1', headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } };
+    const realIP = { headers: { 'x-real-ip': '198.51.100.2' } };
+
+    expect(rateLimitKey({ interface: 'api', request }, { trustProxy: true })).toBe(
+      'ip:203.0.113.7'
+    );
+    expect(rateLimitKey({ interface: 'api', request: realIP }, { trustProxy: true })).toBe(
+      'ip:198.51.100.2'
+    );
+    expect(rateLimitKey({ interface: 'api', request: realIP })).toBe('anonymous');
+  });
+
+  describe('API', () => {
+    it('should answer 429 with Retry-After once the bucket is empty', async () => {
+      const { cmd, handler } = createCommand({
+        requests: 1,
+        window: '1h',
+        store: new MemoryRateLimitStore(),
+        trustProxy: true,
+      });
+      const route = cmd.toNextAPI();
+
+      const first = await route.POST!(post('203.0.113.7'));
+      const second = await route.POST!(post('203.0.113.7'));
+      const otherClient = await route.POST!(post('198.51.100.2'));
+
+      expect(first.status).toBe(200);
+      expect(first.headers.get('RateLimit-Limit')).toBe('1');
+      expect(first.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(second.status).toBe(429);
+      expect(second.headers.get('Retry-After')).toBe('3600');
+      expect((await second.json()).details).toMatchObject({
+        code: 'RATE_LIMITED',
+        retryAfter: 3600,
+      });
+      expect(otherClient.status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a custom store and key', async () => {
+      const consume = vi.fn(() => ({ allowed: true, limit: 5, remaining: 4, reset: 12 }));
+      const { cmd } = createCommand({
+        requests: 5,
+        window: '1m',
+        store: { consume },
+        key: () => 'tenant-a',
+      });
+
+      const response = await cmd.toNextAPI().POST!(post('203.0.113.7'));
+
+      expect(consume).toHaveBeenCalledWith('report build:tenant-a', {
+        requests: 5,
+        windowMs: 60_000,
+      });
+      expect(response.headers.get('RateLimit-Reset')).toBe('12');
+    });
+  });
+
+  describe('MCP', () => {
+    it('should limit each session separately', async () => {
+      const { cmd, handler } = createCommand({
+        requests: 1,
+        window: '1m',
+        store: new MemoryRateLimitStore(),
+      });
+      const tool = cmd.toMCP();
+
+      await tool.execute({}, { sessionId: 'a' });
+      const limited = await tool.execute({}, { sessionId: 'a' });
+      await tool.execute({}, { sessionId: 'b' });
+
+      expect(limited.content[0].text).toBe(
+        "Error: Rate limit exceeded for 'report build'; retry in 60s"
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should not limit the CLI', async () => {
+    const { cmd, handler } = createCommand({
+      requests: 1,
+      window: '1m',
+      store: new MemoryRateLimitStore(),
+    });
+
+    await cmd.execute({}, { interface: 'cli' });
+    await cmd.execute({}, { interface: 'cli' });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject an invalid window', async () => {
+    const { cmd } = createCommand({ requests: 1, window: 'soon' });
+
+    const error = await cmd.execute({}, { interface: 'api' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.message).toBe("Invalid rateLimit for 'report build': 1 requests per 'soon'");
+  });
+
+  it('should build headers only for rate-limited responses', () => {
+    expect(rateLimitHeaders(undefined)).toEqual({});
+    expect(
+      rateLimitHeaders({ allowed: false, limit: 3, remaining: 0, reset: 20, retryAfter: 7 })
+    ).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '20',
+      'Retry-After': '7',
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Rate limiting for API and MCP calls
+ *
+ * Commands with `api.rateLimit { requests, window }` get a token bucket per
+ * caller: `requests` tokens that refill evenly over `window`. execute()
+ * takes a token before validation and throws RateLimitError (HTTP 429) when
+ * the bucket is empty; API responses carry RateLimit-* and Retry-After
+ * headers built from context.rateLimit.
+ *
+ * Buckets live in a RateLimitStore. The default keeps them in memory, which
+ * only works for a single process; pass a shared store (Redis, a database)
+ * as `rateLimit.store` or RuntimeServer.setRateLimitStore() when running
+ * several instances.
+ */
+
+import { ConfigurationError, RateLimitError } from './errors';
+import { parseDuration } from './formats';
+import type { CommandSchema, ExecutionContext } from './types';
+
+/**
+ * Bucket size and refill period for one key
+ */
+export interface RateLimitRule {
+  /** Requests allowed per window (bucket capacity) */
+  requests: number;
+
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Outcome of taking a token
+ */
+export interface RateLimitState {
+  /** Whether the call may proceed */
+  allowed: boolean;
+
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Tokens left after this call */
+  remaining: number;
+
+  /** Seconds until the bucket is full again */
+  reset: number;
+
+  /** Seconds until the next call is allowed (only when not allowed) */
+  retryAfter?: number;
+}
+
+/**
+ * Storage for token buckets
+ *
+ * consume() must take a token atomically for the key; shared stores
+ * implement it as a single script or transaction.
+ */
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule): RateLimitState | Promise<RateLimitState>;
+}
+
+/** Prune full buckets once the store holds this many keys */
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * In-memory token bucket store (single process)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updated: number; rule: RateLimitRule }>();
+  private now: () => number;
+
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  consume(key: string, rule: RateLimitRule): RateLimitState {
+    const now = this.now();
+    if (this.buckets.size >= PRUNE_THRESHOLD) this.prune(now);
+
+    const bucket = this.buckets.get(key);
+    const tokens = bucket ? refill(bucket.tokens, now - bucket.updated, rule) : rule.requests;
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    this.buckets.set(key, { tokens: left, updated: now, rule });
+
+    const perMs = rule.requests / rule.windowMs;
+    return {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.floor(left),
+      reset: Math.ceil((rule.requests - left) / perMs / 1000),
+      ...(!allowed && { retryAfter: Math.max(1, Math.ceil((1 - left) / perMs / 1000)) }),
+    };
+  }
+
+  /**
+   * Forget all buckets
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (refill(bucket.tokens, now - bucket.updated, bucket.rule) >= bucket.rule.requests) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+function refill(tokens: number, elapsed: number, rule: RateLimitRule): number {
+  return Math.min(rule.requests, tokens + (elapsed * rule.requests) / rule.windowMs);
+}
+
+/** Store used when neither the command nor the context names one */
+const defaultStore = new MemoryRateLimitStore();
+
+/**
+ * Take a token for this call when the command has `api.rateLimit` (used by
+ * execute() for API and MCP calls)
+ *
+ * Sets context.rateLimit; throws RateLimitError when the caller is over the limit.
+ */
+export async function enforceRateLimit(
+  schema: CommandSchema,
+  context: ExecutionContext
+): Promise<void> {
+  const config = schema.api?.rateLimit;
+  if (!config || (context.interface !== 'api' && context.interface !== 'mcp')) return;
+
+  const windowMs = parseDuration(config.window);
+  if (!windowMs || config.requests < 1) {
+    throw new ConfigurationError(
+      `Invalid rateLimit for '${schema.name}': ${config.requests} requests per '${config.window}'`
+    );
+  }
+
+  const store = config.store ?? context.rateLimitStore ?? defaultStore;
+  const caller = config.key
+    ? config.key(context)
+    : rateLimitKey(context, { trustProxy: config.trustProxy });
+  const key = `${schema.name}:${caller}`;
+  const state = await store.consume(key, { requests: config.requests, windowMs });
+  context.rateLimit = state;
+
+  if (!state.allowed) {
+    throw new RateLimitError(
+      `Rate limit exceeded for '${schema.name}'; retry in ${state.retryAfter}s`,
+      state.retryAfter ?? 1
+    );
+  }
+}
+
+/**
+ * Default bucket key: the MCP session, then the authenticated user, then
+ * the client IP
+ *
+ * Proxy headers are read only with `trustProxy`: clients can send any
+ * X-Forwarded-For value, so trusting it lets them pick a fresh bucket per call.
+ */
+export function rateLimitKey(
+  context: ExecutionContext,
+  options: { trustProxy?: boolean } = {}
+): string {
+  if (context.interface === 'mcp' && context.sessionId) return `session:${context.sessionId}`;
+  if (context.user) return `user:${context.user.id}`;
+
+  const ip = clientIP(context.request, options.trustProxy ?? false);
+  return ip ? `ip:${ip}` : 'anonymous';
+}
+
+/**
+ * Client IP of a Fetch or Express request: Express's req.ip (which follows
+ * the app's `trust proxy` setting) or the socket, or with trustProxy the
+ * first X-Forwarded-For / X-Real-IP value
+ */
+function clientIP(request: any, trustProxy: boolean): string | undefined {
+  const header = (name: string): string | undefined => {
+    const headers = request?.headers;
+    const value = typeof headers?.get === 'function' ? headers.get(name) : headers?.[name];
+    return (Array.isArray(value) ? value[0] : value) ?? undefined;
+  };
+
+  if (trustProxy) {
+    const forwarded = header('x-forwarded-for')?.split(',')[0].trim() || header('x-real-ip');
+    if (forwarded) return forwarded;
+  }
+  return request?.ip || request?.socket?.remoteAddress;
+}
+
+/**
+ * RateLimit-* headers (plus Retry-After when refused) for a response
+ */
+export function rateLimitHeaders(state: RateLimitState | undefined): Record<string, string> {
+  if (!state) return {};
+
+  return {
+    'RateLimit-Limit': String(state.limit),
+    'RateLimit-Remaining': String(state.remaining),
+    'RateLimit-Reset': String(state.reset),
+    ...(state.retryAfter !== undefined && { 'Retry-After': String(state.retryAfter) }),
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { expandURITemplate, isURITemplate, matchURITemplate } from './resources';
+import { UniversalCommand } from './UniversalCommand';
+
+describe('MCP resources', () => {
+  it('should match URIs against templates', () => {
+    expect(matchURITemplate('req://{requirementId}', 'req://REQ-042')).toEqual({
+      requirementId: 'REQ-042',
+    });
+    expect(matchURITemplate('repo://{owner}/{name}', 'repo://acme/my%20tools')).toEqual({
+      owner: 'acme',
+      name: 'my tools',
+    });
+    expect(matchURITemplate('req://{requirementId}', 'req://REQ-042/tests')).toBeUndefined();
+    expect(matchURITemplate('docs://a.b', 'docs://aXb')).toBeUndefined();
+    expect(matchURITemplate('docs://readme', 'docs://readme')).toEqual({});
+  });
+
+  it('should expand templates only when every variable is given', () => {
+    expect(expandURITemplate('repo://{owner}/{name}', { owner: 'acme', name: 'a b' })).toBe(
+      'repo://acme/a%20b'
+    );
+    expect(expandURITemplate('req://{requirementId}', {})).toBeUndefined();
+    expect(isURITemplate('req://{requirementId}')).toBe(true);
+    expect(isURITemplate('docs://readme')).toBe(false);
+  });
+
+  it('should link tool results to resources', async () => {
+    const cmd = new UniversalCommand({
+      name: 'req validate',
+      description: 'Validate a requirement',
+      input: {
+        parameters: [{ name: 'requirementId', type: 'string', description: 'Requirement ID' }],
+      },
+      output: { type: 'json' },
+      mcp: {
+        resource: { uri: 'req://{requirementId}', name: 'Requirement' },
+        resourceLinks: ['req://{requirementId}', 'docs://{missing}'],
+      },
+      handler: async () => ({ valid: true }),
+    });
+
+    const result = await cmd.toMCP().execute({ requirementId: 'REQ-042' });
+
+    expect(result.content.slice(1)).toEqual([
+      {
+        type: 'resource_link',
+        uri: 'req://REQ-042',
+        name: 'Requirement',
+        mimeType: 'application/json',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * MCP resources declared by commands
+ *
+ * `mcp.resource.uri` is a fixed URI or a URI template with `{name}`
+ * variables (RFC 6570 level 1): RuntimeServer lists templates in
+ * resources/templates/list and answers resources/read for a matching URI by
+ * running the command with the variables as arguments. `mcp.resourceLinks`
+ * use the same templates, filled from a tool call's arguments, to link
+ * results to resources:
+ *
+ * @example
+ * ```typescript
+ * // planning req show
+ * mcp: {
+ *   resource: { uri: 'req://{requirementId}', name: 'Requirement' },
+ *   resourceLinks: ['req://{requirementId}'],
+ * },
+ * ```
+ */
+
+import type { CommandSchema } from './types';
+
+const VARIABLE = /\{([^{}]+)\}/g;
+
+/**
+ * Whether a URI is a template (has `{name}` variables)
+ */
+export function isURITemplate(uri: string): boolean {
+  return /\{[^{}]+\}/.test(uri);
+}
+
+/**
+ * Fill a URI template's variables, or undefined when one is missing
+ */
+export function expandURITemplate(
+  template: string,
+  values: Record<string, unknown>
+): string | undefined {
+  let missing = false;
+  const uri = template.replace(VARIABLE, (_match, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null || value === '') {
+      missing = true;
+      return '';
+    }
+    return encodeURIComponent(String(value));
+  });
+  return missing ? undefined : uri;
+}
+
+/**
+ * Variables of a URI matching a template, or undefined when it doesn't match
+ * A variable matches up to the next `/`, `?` or `#`.
+ */
+export function matchURITemplate(
+  template: string,
+  uri: string
+): Record<string, string> | undefined {
+  const names: string[] = [];
+  const pattern = template
+    .split(VARIABLE)
+    .map((part, index) => {
+      if (index % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      names.push(part);
+      return '([^/?#]+)';
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) return undefined;
+  return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+}
+
+/**
+ * MIME type of a command resource's contents
+ */
+export function resourceMimeType(schema: CommandSchema): string {
+  return (
+    schema.mcp?.resource?.mimeType ??
+    (schema.output.type === 'json' ? 'application/json' : 'text/plain')
+  );
+}
+
+/**
+ * resource_link content for a tool result, from `mcp.resourceLinks`
+ */
+export function resourceLinks(
+  schema: CommandSchema,
+  args: Record<string, unknown> = {}
+): Array<{ type: 'resource_link'; uri: string; name: string; mimeType?: string }> {
+  const links = [];
+  for (const template of schema.mcp?.resourceLinks ?? []) {
+    const uri = expandURITemplate(template, args);
+    if (!uri) continue;
+
+    // Links to the command's own resource carry its name and type
+    const own = schema.mcp?.resource?.uri === template;
+    links.push({
+      type: 'resource_link' as const,
+      uri,
+      name: own ? schema.mcp!.resource!.name : uri,
+      ...(own && { mimeType: resourceMimeType(schema) }),
+    });
+  }
+  return links;
+}
@@ -0,0 +1,408 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { RuntimeServer } from './index';
+import { ScopeRegistry } from '../scopes/ScopeRegistry';
+import { UniversalCommand } from '../UniversalCommand';
+
+const config = { name: 'test-tools', version: '1.0.0' };
+
+const ping = new UniversalCommand({
+  name: 'ping',
+  description: 'Ping',
+  input: { parameters: [] },
+  output: { type: 'json' },
+  handler: async () => ({ pong: true }),
+});
+
+function createRuntime() {
+  const registry = new ScopeRegistry();
+  registry.registerScope({ id: 'git', name: 'Git', description: 'Git tools', keywords: ['git'] });
+
+  const status = vi.fn(async (_args: any, context: any) => ({ sessionId: context.sessionId }));
+  registry.register(ping);
+  registry.register(
+    new UniversalCommand({
+      name: 'git status',
+      description: 'Show status',
+      scope: 'git',
+      input: { parameters: [] },
+      output: { type: 'json' },
+      prompts: [{ name: 'summarize-changes', messages: 'Summarize the working tree changes' }],
+      handler: status,
+    })
+  );
+
+  return { runtime: new RuntimeServer(registry), status };
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function connect(url: string, transport: 'http' | 'sse' = 'http') {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(
+    transport === 'http'
+      ? new StreamableHTTPClientTransport(new URL(`${url}/mcp`))
+      : new SSEClientTransport(new URL(`${url}/sse`))
+  );
+  clients.push(client);
+  return client;
+}
+
+async function toolNames(client: Client) {
+  return (await client.listTools()).tools.map((tool) => tool.name).sort();
+}
+
+const clients: Client[] = [];
+const cleanups: Array<() => Promise<void>> = [];
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await Promise.all(cleanups.splice(0).map((cleanup) => cleanup()));
+});
+
+describe('RuntimeServer MCP over stdio', () => {
+  it('should follow RuntimeServer.loadScope() and unloadScope()', async () => {
+    const { runtime } = createRuntime();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // Connect the stdio server to an in-memory transport instead of the process's stdio
+    const createMCPServer = (runtime as any).createMCPServer.bind(runtime);
+    vi.spyOn(runtime as any, 'createMCPServer').mockImplementation((...args: any[]) => {
+      const server = createMCPServer(...args);
+      const connect = server.connect.bind(server);
+      server.connect = () => connect(serverTransport);
+      return server;
+    });
+    await runtime.startMCP(config);
+    cleanups.push(() => runtime.stopMCP());
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    clients.push(client);
+    const changed = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, changed);
+
+    runtime.loadScope('git');
+    expect(await toolNames(client)).toContain('sc_git_status');
+    runtime.unloadScope('git');
+    expect(await toolNames(client)).not.toContain('sc_git_status');
+    expect(changed).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('RuntimeServer MCP over HTTP', () => {
+  async function start(options: { sessionIdleTimeout?: number } = {}) {
+    const { runtime, status } = createRuntime();
+    await runtime.startMCP({ ...config, ...options, transport: 'http', port: 0, host: '127.0.0.1' });
+    cleanups.push(() => runtime.stopMCP());
+    const { port } = (runtime as any).httpServer.address() as AddressInfo;
+    return { runtime, status, url: `http://127.0.0.1:${port}` };
+  }
+
+  it('should keep loaded scopes per Streamable HTTP session', async () => {
+    const { url, status } = await start();
+    const first = await connect(url);
+    const second = await connect(url);
+
+    await first.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    const result: any = await first.callTool({ name: 'sc_git_status', arguments: {} });
+
+    expect(await toolNames(first)).toContain('sc_git_status');
+    expect(await toolNames(second)).not.toContain('sc_git_status');
+    expect(JSON.parse(result.content[0].text).sessionId).toBe(
+      (first as any)._transport.sessionId
+    );
+    expect(status).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify only the client whose tools changed', async () => {
+    const { url } = await start();
+    const first = await connect(url);
+    const second = await connect(url);
+    const firstChanged = vi.fn();
+    const secondChanged = vi.fn();
+    first.setNotificationHandler(ToolListChangedNotificationSchema, firstChanged);
+    second.setNotificationHandler(ToolListChangedNotificationSchema, secondChanged);
+
+    await first.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    await first.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    await first.callTool({ name: 'unload_scope', arguments: { scope: 'git' } });
+
+    expect(firstChanged).toHaveBeenCalledTimes(2);
+    expect(secondChanged).not.toHaveBeenCalled();
+  });
+
+  it('should notify clients when registry changes affect them', async () => {
+    const { url, runtime } = await start();
+    const withGit = await connect(url);
+    const without = await connect(url);
+    await withGit.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    const changed = { withGit: vi.fn(), without: vi.fn(), resources: vi.fn() };
+    withGit.setNotificationHandler(ToolListChangedNotificationSchema, changed.withGit);
+    without.setNotificationHandler(ToolListChangedNotificationSchema, changed.without);
+    without.setNotificationHandler(ResourceListChangedNotificationSchema, changed.resources);
+    const registry = (runtime as any).scopeRegistry as ScopeRegistry;
+
+    expect(withGit.getServerCapabilities()).toMatchObject({
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+    });
+    // Notifications outside a request need the client's GET stream, which
+    // opens after initialization: repeat the changes until they arrive
+    await vi.waitFor(() => {
+      registry.register(
+        new UniversalCommand({
+          name: 'git log',
+          description: 'Show log',
+          scope: 'git',
+          input: { parameters: [] },
+          output: { type: 'json' },
+          handler: async () => [],
+        })
+      );
+      registry.registerScope({ id: 'deploy', name: 'Deploy', description: 'Deploy', keywords: [] });
+      expect(changed.withGit).toHaveBeenCalled();
+      expect(changed.resources).toHaveBeenCalled();
+    });
+
+    expect(await toolNames(withGit)).toContain('sc_git_log');
+    expect(changed.without).not.toHaveBeenCalled();
+  });
+
+  it('should bind each session to a ScopeSession and close it when idle', async () => {
+    const { url, runtime } = await start({ sessionIdleTimeout: 50 });
+    const client = await connect(url);
+    const sessionId = (client as any)._transport.sessionId;
+    const registry = (runtime as any).scopeRegistry as ScopeRegistry;
+
+    await client.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    expect(registry.getSession(sessionId)?.isLoaded('git')).toBe(true);
+    expect(registry.isLoaded('git')).toBe(false);
+
+    await vi.waitFor(() => expect(registry.getSession(sessionId)).toBeUndefined());
+    expect((runtime as any).mcpSessions.size).toBe(0);
+    await expect(client.listTools()).rejects.toThrow();
+  });
+
+  it('should read scopes, command docs and command resources', async () => {
+    const { url, runtime } = await start();
+    const registry = (runtime as any).scopeRegistry as ScopeRegistry;
+    registry.register(
+      new UniversalCommand({
+        name: 'note show',
+        description: 'Show a note',
+        input: { parameters: [{ name: 'id', type: 'string', description: 'Note ID', required: true }] },
+        output: { type: 'json' },
+        mcp: {
+          resource: {
+            uri: 'note://{id}',
+            name: 'Note',
+            list: () => [{ uri: 'note://1', name: 'First note' }],
+          },
+        },
+        handler: async (args: any) => ({ id: args.id, text: 'hello' }),
+      })
+    );
+    const client = await connect(url);
+    const read = async (uri: string) => (await client.readResource({ uri })).contents[0] as any;
+
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const scope = JSON.parse((await read('scope://git')).text);
+    const docs = await read('docs://tools/sc_git_status');
+    const note = await read('note://7');
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'scope://global',
+      'scope://git',
+      'docs://tools/sc_ping',
+      'docs://tools/sc_note_show',
+      'note://1',
+    ]);
+    expect(resourceTemplates).toEqual([
+      {
+        uriTemplate: 'note://{id}',
+        name: 'Note',
+        description: 'Show a note',
+        mimeType: 'application/json',
+      },
+    ]);
+    expect(scope).toMatchObject({ id: 'git', loaded: false, tools: [{ name: 'sc_git_status' }] });
+    expect(docs).toMatchObject({ mimeType: 'text/markdown' });
+    expect(docs.text).toContain('# git status');
+    expect(JSON.parse(note.text)).toEqual({ id: '7', text: 'hello' });
+    await expect(read('note://')).rejects.toThrow('Resource not found: note://');
+  });
+
+  it('should read command resources only from loaded commands without confirmation', async () => {
+    const { url, runtime } = await start();
+    const registry = (runtime as any).scopeRegistry as ScopeRegistry;
+    const show = vi.fn(async (args: any, context: any) => {
+      context.logger.info('reading');
+      return { id: args.id, logs: typeof context.logger.info, prompts: !!context.confirm };
+    });
+    registry.register(
+      new UniversalCommand({
+        name: 'git show',
+        description: 'Show a commit',
+        scope: 'git',
+        input: { parameters: [{ name: 'id', type: 'string', description: 'Commit', required: true }] },
+        output: { type: 'json' },
+        mcp: { resource: { uri: 'commit://{id}', name: 'Commit' } },
+        handler: show,
+      })
+    );
+    registry.register(
+      new UniversalCommand({
+        name: 'note purge',
+        description: 'Purge a note',
+        input: { parameters: [{ name: 'id', type: 'string', description: 'Note ID', required: true }] },
+        output: { type: 'json' },
+        confirm: { message: 'Purge the note?' },
+        mcp: { resource: { uri: 'purge://{id}', name: 'Purge' } },
+        handler: async () => ({ purged: true }),
+      })
+    );
+    const client = await connect(url);
+
+    await expect(client.readResource({ uri: 'commit://abc' })).rejects.toThrow(
+      'Resource not found: commit://abc'
+    );
+    await expect(client.readResource({ uri: 'purge://1' })).rejects.toThrow('needs confirmation');
+    await client.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    const commit = (await client.readResource({ uri: 'commit://abc' })).contents[0] as any;
+
+    expect(JSON.parse(commit.text)).toEqual({ id: 'abc', logs: 'function', prompts: true });
+  });
+
+  it('should offer prompts of the session\'s loaded scopes', async () => {
+    const { url } = await start();
+    const first = await connect(url);
+    const second = await connect(url);
+
+    await first.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+    const prompt = await first.getPrompt({ name: 'summarize-changes' });
+
+    expect((await first.listPrompts()).prompts).toEqual([{ name: 'summarize-changes' }]);
+    expect((await second.listPrompts()).prompts).toEqual([]);
+    expect(prompt.messages[0].content).toEqual({
+      type: 'text',
+      text: 'Summarize the working tree changes',
+    });
+    await expect(second.getPrompt({ name: 'summarize-changes' })).rejects.toThrow(
+      'Unknown prompt: summarize-changes'
+    );
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const { url } = await start();
+    const post = (headers: Record<string, string>) =>
+      fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+    const missing = await post({});
+    const unknown = await post({ 'mcp-session-id': 'nope' });
+
+    expect(missing.status).toBe(400);
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.message).toBe('Session not found');
+  });
+
+  it('should end a session on DELETE', async () => {
+    const { url, runtime } = await start();
+    const client = await connect(url);
+    const transport = (client as any)._transport as StreamableHTTPClientTransport;
+
+    await transport.terminateSession();
+
+    expect((runtime as any).mcpSessions.size).toBe(0);
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const { url } = await start();
+    const client = await connect(url, 'sse');
+
+    await client.callTool({ name: 'load_scope', arguments: { scope: 'git' } });
+
+    expect(await toolNames(client)).toEqual([
+      'list_scopes',
+      'load_scope',
+      'sc_git_status',
+      'sc_ping',
+      'unload_scope',
+    ]);
+  });
+
+  it('should mount on an Express app next to the REST routes', async () => {
+    const runtime = new RuntimeServer();
+    runtime.register(ping);
+    const app = express();
+    app.use(express.json());
+    app.use('/api', runtime.getExpressRouter());
+    app.use(runtime.getMCPHttpHandler(config));
+    const server = createServer(app);
+    const url = await listen(server);
+    cleanups.push(async () => {
+      await runtime.stopMCP();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    const rest = await fetch(`${url}/api/ping`);
+    const client = await connect(url);
+
+    expect(await rest.json()).toEqual({ pong: true });
+    expect(await toolNames(client)).toContain('sc_ping');
+    expect((await fetch(`${url}/elsewhere`)).status).toBe(404);
+  });
+
+  it('should refuse Express event-stream requests before opening the stream', async () => {
+    const runtime = new RuntimeServer();
+    runtime.register(
+      new UniversalCommand({
+        name: 'report',
+        description: 'Build a report',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        api: { rateLimit: { requests: 1, window: '1h', key: () => 'client' } },
+        handler: async (_args, context) => {
+          context.progress?.({ message: 'building' });
+          return { done: true };
+        },
+      })
+    );
+    const app = express();
+    app.use(runtime.getExpressRouter());
+    const server = createServer(app);
+    const url = await listen(server);
+    cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+    const get = () => fetch(`${url}/report`, { headers: { accept: 'text/event-stream' } });
+
+    const first = await get();
+    const limited = await get();
+
+    expect(first.headers.get('content-type')).toBe('text/event-stream');
+    expect(first.headers.get('ratelimit-remaining')).toBe('0');
+    expect(await first.text()).toContain('event: result');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('3600');
+  });
+});
@@ -16,10 +16,56 @@
  *   Only loaded scopes' tools are exposed to AI via MCP.
  */
 
+import { createRequire } from 'node:module';
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { CommandRegistry } from '../CommandRegistry';
-import { ScopeRegistry } from '../scopes/ScopeRegistry';
+import { ScopeRegistry, type ScopeRegistryEvent } from '../scopes/ScopeRegistry';
+import type { ScopeSession } from '../scopes/ScopeSession';
 import { UniversalCommand } from '../UniversalCommand';
-import type { CommandSchema, Scope } from '../types';
+import { MiddlewareStack, type Middleware } from '../middleware';
+import { acceptsEventStream, formatServerSentEvent, EVENT_STREAM_HEADERS } from '../progress';
+import {
+  isAsyncIterable,
+  encodeChunk,
+  streamContentType,
+  forEachChunk,
+  collectChunks
+} from '../streaming';
+import { CONFIRMATION_HEADER, confirmationMessage } from '../confirmation';
+import { ValidationError } from '../errors';
+import { secretHeader } from '../secrets';
+import { withServerLogging } from '../logger';
+import { rateLimitHeaders, type RateLimitStore } from '../rate-limit';
+import { cacheHeaders, matchesETag, type CacheStore } from '../cache';
+import { isURITemplate, matchURITemplate, resourceMimeType } from '../resources';
+import { collectPrompts, promptInfo, renderPrompt } from '../prompts';
+import { HelpGenerator } from '../HelpGenerator';
+import type {
+  CommandSchema,
+  ExecutionContext,
+  MCPResource,
+  MCPToolDefinition,
+  Scope
+} from '../types';
+
+// Optional peers (MCP SDK, express) load on first use
+const require = createRequire(import.meta.url);
+
+/** Port for startMCP({ transport: 'http' }) without one */
+const DEFAULT_MCP_PORT = 3000;
+
+/** Prefix of the per-command markdown resources */
+const DOCS_URI = 'docs://tools/';
+
+/** MCP error code for resources/read of an unknown URI */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** JSON-RPC error code for unknown prompts and missing prompt arguments */
+const INVALID_PARAMS = -32602;
+
+/** Largest JSON-RPC request body read by getMCPHttpHandler() */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
 
 /**
  * Runtime API server configuration
@@ -45,12 +91,46 @@ export interface RuntimeMCPConfig {
   version: string;
   /** Transport type */
   transport?: 'stdio' | 'http';
-  /** Port for HTTP transport */
+  /** Port for HTTP transport (default: 3000) */
   port?: number;
+  /** Host to bind for HTTP transport (default: all interfaces) */
+  host?: string;
+  /** Streamable HTTP endpoint (default: '/mcp') */
+  path?: string;
+  /** Legacy SSE stream endpoint (default: '/sse') */
+  ssePath?: string;
+  /** Legacy SSE message endpoint (default: '/messages') */
+  messagesPath?: string;
   /** Use scope-based tool loading (default: true) */
   useScopes?: boolean;
   /** Enable load_scope meta-tool (default: true when useScopes is true) */
   enableScopeLoading?: boolean;
+  /** Milliseconds before an idle HTTP session is closed (default: 30 minutes; 0 = never) */
+  sessionIdleTimeout?: number;
+}
+
+/**
+ * Node or Express request reaching getMCPHttpHandler()
+ * (Express sets body when a JSON parser ran and baseUrl when mounted under a path)
+ */
+export type MCPHttpRequest = IncomingMessage & { body?: unknown; baseUrl?: string };
+
+/**
+ * Request handler returned by getMCPHttpHandler()
+ */
+export type MCPHttpHandler = (
+  req: MCPHttpRequest,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void>;
+
+/**
+ * An HTTP client's MCP session
+ */
+interface MCPSession {
+  transport: any;
+  server: any;
+  scopes: ScopeSession;
 }
 
 /**
@@ -68,6 +148,10 @@ export class RuntimeServer {
   private mcpConfig?: RuntimeMCPConfig;
   private mcpServer?: any;
   private httpServer?: any;
+  private mcpSessions = new Map<string, MCPSession>();
+  private middleware = new MiddlewareStack();
+  private rateLimitStore?: RateLimitStore;
+  private cacheStore?: CacheStore;
 
   constructor(registry?: CommandRegistry | ScopeRegistry) {
     if (registry instanceof ScopeRegistry) {
@@ -79,6 +163,44 @@ export class RuntimeServer {
       this.scopeRegistry = new ScopeRegistry();
       this.useScopes = false;
     }
+
+    // Server middleware wraps both registries' middleware
+    this.registry.getMiddleware().addParent(this.middleware);
+    this.scopeRegistry.getMiddleware().addParent(this.middleware);
+
+    // Commands without their own rateLimit.store / cache.store share the server's
+    this.middleware.use((args, context, next) => {
+      context.rateLimitStore ??= this.rateLimitStore;
+      context.cacheStore ??= this.cacheStore;
+      return next();
+    });
+  }
+
+  /**
+   * Keep api.rateLimit buckets in a shared store (e.g. Redis) instead of memory
+   * Needed when several server instances serve the same clients.
+   */
+  setRateLimitStore(store: RateLimitStore): this {
+    this.rateLimitStore = store;
+    return this;
+  }
+
+  /**
+   * Keep cached command results in a shared store instead of memory
+   * Lets several instances share entries and invalidations.
+   */
+  setCacheStore(store: CacheStore): this {
+    this.cacheStore = store;
+    return this;
+  }
+
+  /**
+   * Add middleware around every command served by this runtime
+   * Runs for API and MCP calls alike, outside registry and command middleware.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
   }
 
   /**
@@ -160,74 +282,270 @@ export class RuntimeServer {
    *
    * When useScopes is enabled (default), only loaded scopes' tools are exposed.
    * AI can use load_scope meta-tool to load additional scopes.
+   *
+   * The default stdio transport serves a single client. With transport 'http'
+   * the server listens on `port` and serves getMCPHttpHandler(): Streamable
+   * HTTP, plus the legacy SSE transport, with one session per client.
    */
   async startMCP(config: RuntimeMCPConfig): Promise<void> {
     this.mcpConfig = config;
-    const useScopes = config.useScopes !== false && this.useScopes;
-    const enableScopeLoading = config.enableScopeLoading !== false && useScopes;
 
-    // Lazy load MCP SDK using require for flexibility
-    // Note: Explicit .js extension required due to SDK's ESM module type
-    let Server: any;
-    let StdioServerTransport: any;
-    let ListToolsRequestSchema: any;
-    let CallToolRequestSchema: any;
-    let ListResourcesRequestSchema: any;
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const serverModule = require('@modelcontextprotocol/sdk/server/index.js');
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const stdioModule = require('@modelcontextprotocol/sdk/server/stdio.js');
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const typesModule = require('@modelcontextprotocol/sdk/types.js');
-      Server = serverModule.Server;
-      StdioServerTransport = stdioModule.StdioServerTransport;
-      ListToolsRequestSchema = typesModule.ListToolsRequestSchema;
-      CallToolRequestSchema = typesModule.CallToolRequestSchema;
-      ListResourcesRequestSchema = typesModule.ListResourcesRequestSchema;
-    } catch (e: any) {
-      throw new Error(
-        `@modelcontextprotocol/sdk package is required. Install with: npm install @modelcontextprotocol/sdk. Error: ${e.message}`
-      );
+    if (config.transport === 'http') {
+      const handler = this.getMCPHttpHandler(config);
+      const httpServer = createServer((req, res) => {
+        handler(req, res, () => sendJSONRPCError(res, 404, -32601, `Not found: ${req.url}`));
+      });
+      await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(config.port ?? DEFAULT_MCP_PORT, config.host, resolve);
+      });
+      this.httpServer = httpServer;
+      return;
+    }
+
+    const { StdioServerTransport } = loadMCPSDK();
+    // RuntimeServer.loadScope() / unloadScope() still change the stdio
+    // client's tools (and send list_changed); load_scope changes only its own
+    const scopes = this.scopeRegistry.createSession({ idleTimeout: 0, followRegistry: true });
+    this.mcpServer = this.createMCPServer(config, scopes);
+    await this.mcpServer.connect(new StdioServerTransport());
+  }
+
+  /**
+   * Close the MCP server, its HTTP listener and every open session
+   */
+  async stopMCP(): Promise<void> {
+    const sessions = [...this.mcpSessions.values()];
+    this.mcpSessions.clear();
+    await Promise.all(sessions.map(session => {
+      session.scopes.close();
+      return session.server.close();
+    }));
+    await this.mcpServer?.close();
+    this.mcpServer = undefined;
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      httpServer.closeAllConnections?.();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
     }
+  }
 
-    this.mcpServer = new Server(
+  /**
+   * HTTP request handler for MCP clients, mountable on Express or a Node server
+   *
+   * Serves the Streamable HTTP transport at `path` (default /mcp; sessions
+   * are identified by the Mcp-Session-Id header) and the legacy SSE
+   * transport at `ssePath` (GET /sse) with messages posted to `messagesPath`
+   * (POST /messages?sessionId=). Each session gets its own server and its own
+   * ScopeSession, closed after `sessionIdleTimeout`. Other paths go to `next`.
+   *
+   * @example
+   * ```typescript
+   * const app = express();
+   * app.use('/api', server.getExpressRouter());
+   * app.use(server.getMCPHttpHandler({ name: 'my-tools', version: '1.0.0' }));
+   * ```
+   */
+  getMCPHttpHandler(config: RuntimeMCPConfig): MCPHttpHandler {
+    this.mcpConfig ??= config;
+    const mcpPath = config.path ?? '/mcp';
+    const ssePath = config.ssePath ?? '/sse';
+    const messagesPath = config.messagesPath ?? '/messages';
+
+    return async (req, res, next) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+
+      try {
+        if (url.pathname === mcpPath) {
+          await this.handleStreamableHTTP(req, res, config);
+        } else if (url.pathname === ssePath && req.method === 'GET') {
+          await this.openSSESession(res, config, `${req.baseUrl ?? ''}${messagesPath}`);
+        } else if (url.pathname === messagesPath && req.method === 'POST') {
+          await this.postSSEMessage(req, res, url.searchParams.get('sessionId'));
+        } else if (next) {
+          next();
+        } else {
+          sendJSONRPCError(res, 404, -32601, `Not found: ${url.pathname}`);
+        }
+      } catch (error: any) {
+        if (res.headersSent) return;
+        if (error instanceof SyntaxError) {
+          sendJSONRPCError(res, 400, -32700, 'Parse error: invalid JSON');
+        } else if (error.status === 413) {
+          sendJSONRPCError(res, 413, -32600, error.message);
+        } else {
+          sendJSONRPCError(res, 500, -32603, error.message);
+        }
+      }
+    };
+  }
+
+  /**
+   * Streamable HTTP: initialize creates a session; later requests carry its ID
+   */
+  private async handleStreamableHTTP(req: MCPHttpRequest, res: ServerResponse, config: RuntimeMCPConfig) {
+    const { StreamableHTTPServerTransport, isInitializeRequest } = loadMCPSDK();
+    const body = req.method === 'POST' ? await readJSONBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.mcpSessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        sendJSONRPCError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.scopes.touch();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJSONRPCError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const scopes = this.createScopeSession(config, randomUUID());
+    const server = this.createMCPServer(config, scopes);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => scopes.id,
+      onsessioninitialized: (id: string) => {
+        this.mcpSessions.set(id, { transport, server, scopes });
+      }
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    // A rejected initialize never gets a session ID
+    if (!transport.sessionId) scopes.close();
+  }
+
+  /**
+   * Legacy SSE: the GET stream is the session; the client posts to `endpoint`
+   */
+  private async openSSESession(res: ServerResponse, config: RuntimeMCPConfig, endpoint: string) {
+    const { SSEServerTransport } = loadMCPSDK();
+    const transport = new SSEServerTransport(endpoint, res);
+    const scopes = this.createScopeSession(config, transport.sessionId);
+    const server = this.createMCPServer(config, scopes);
+
+    this.mcpSessions.set(transport.sessionId, { transport, server, scopes });
+
+    await server.connect(transport);
+  }
+
+  private async postSSEMessage(req: MCPHttpRequest, res: ServerResponse, sessionId: string | null) {
+    const { SSEServerTransport } = loadMCPSDK();
+    const session = sessionId ? this.mcpSessions.get(sessionId) : undefined;
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendJSONRPCError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    session.scopes.touch();
+    await session.transport.handlePostMessage(req, res, await readJSONBody(req));
+  }
+
+  /**
+   * ScopeSession for an HTTP client; closing it (idle expiry, DELETE, a
+   * dropped SSE stream or stopMCP) ends the MCP session
+   */
+  private createScopeSession(config: RuntimeMCPConfig, id: string): ScopeSession {
+    return this.scopeRegistry.createSession({
+      id,
+      idleTimeout: config.sessionIdleTimeout,
+      onClose: () => {
+        const session = this.mcpSessions.get(id);
+        if (!session) return;
+        this.mcpSessions.delete(id);
+        session.server.close().catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * MCP server with the tools and resources handlers for one connection
+   *
+   * load_scope and unload_scope change that connection's `scopes`. Registry
+   * changes that affect them (commands registered or unregistered in a loaded
+   * scope, the session's scopes loaded or unloaded) send tools/list_changed,
+   * and new scopes send resources/list_changed. Closing the connection closes
+   * `scopes`.
+   */
+  private createMCPServer(config: RuntimeMCPConfig, scopes: ScopeSession): any {
+    const useScopes = config.useScopes !== false && this.useScopes;
+    const enableScopeLoading = config.enableScopeLoading !== false && useScopes;
+    const { Server, ListToolsRequestSchema, CallToolRequestSchema } = loadMCPSDK();
+
+    const server = new Server(
       {
         name: config.name,
         version: config.version
       },
       {
         capabilities: {
-          tools: {},
-          resources: useScopes ? {} : undefined
+          tools: useScopes ? { listChanged: true } : {},
+          resources: useScopes ? { listChanged: true } : {},
+          prompts: useScopes ? { listChanged: true } : {},
+          // Handlers log through context.logger as notifications/message
+          logging: {}
         }
       }
     );
 
-    // Register resources/list handler for scope discovery (when using scopes)
-    if (useScopes) {
-      this.mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => {
-        const scopes = this.scopeRegistry.getAllScopes().map(scope => ({
-          uri: `scope://${scope.id}`,
-          name: scope.name,
-          description: scope.description,
-          mimeType: 'application/json'
-        }));
-        return { resources: scopes };
-      });
-    }
+    // Changes from this client's own load_scope / unload_scope are sent once,
+    // on that call's response stream; others go out as they happen. Prompts
+    // follow the loaded scopes like tools do.
+    let changingScopes = false;
+    let toolsChanged = false;
+    const unsubscribe = useScopes
+      ? this.scopeRegistry.onChange(event => {
+          if (event.type === 'scopeRegistered') {
+            server.sendResourceListChanged().catch(() => {});
+          } else if (affectsTools(event, scopes)) {
+            if (changingScopes) {
+              toolsChanged = true;
+            } else {
+              server.sendToolListChanged().catch(() => {});
+              server.sendPromptListChanged().catch(() => {});
+            }
+          }
+        })
+      : () => {};
+    server.onclose = () => {
+      unsubscribe();
+      scopes.close();
+    };
+
+    const changeScopes = async (change: () => void, extra: any) => {
+      changingScopes = true;
+      toolsChanged = false;
+      try {
+        change();
+      } finally {
+        changingScopes = false;
+      }
+      if (toolsChanged) {
+        await extra.sendNotification({ method: 'notifications/tools/list_changed' });
+        await extra.sendNotification({ method: 'notifications/prompts/list_changed' });
+      }
+    };
+
+    this.registerResources(server, useScopes, scopes);
+    this.registerPrompts(server, useScopes, scopes);
 
     // Register tools/list handler
-    this.mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       // Get commands based on mode
       const commands = useScopes
-        ? this.scopeRegistry.getLoadedCommands()
+        ? scopes.getLoadedCommands()
         : this.registry.getAll();
 
-      const tools = commands.map(cmd => ({
+      const tools: Array<Omit<MCPToolDefinition, 'execute'>> = commands.map(cmd => ({
         name: cmd.getMCPToolName(),
         description: cmd.schema.description,
-        inputSchema: cmd['parametersToJSONSchema']()
+        inputSchema: cmd['parametersToJSONSchema'](),
+        annotations: cmd.getMCPAnnotations()
       }));
 
       // Add scope management meta-tools if enabled
@@ -279,7 +597,8 @@ export class RuntimeServer {
     });
 
     // Register tools/call handler
-    this.mcpServer.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+    // extra.signal is aborted by the SDK on notifications/cancelled
+    server.setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
       const { name, arguments: args } = request.params;
 
       // Handle scope management meta-tools
@@ -287,7 +606,10 @@ export class RuntimeServer {
         if (name === 'load_scope') {
           const scopeId = args.scope;
           try {
-            this.scopeRegistry.loadScope(scopeId, { includeChildren: args.includeChildren });
+            await changeScopes(
+              () => scopes.loadScope(scopeId, { includeChildren: args.includeChildren }),
+              extra
+            );
             const loadedCount = this.scopeRegistry.getCommandsInScope(scopeId).length;
             return {
               content: [{
@@ -308,7 +630,7 @@ export class RuntimeServer {
 
         if (name === 'unload_scope') {
           const scopeId = args.scope;
-          this.scopeRegistry.unloadScope(scopeId);
+          await changeScopes(() => scopes.unloadScope(scopeId), extra);
           return {
             content: [{
               type: 'text',
@@ -318,18 +640,18 @@ export class RuntimeServer {
         }
 
         if (name === 'list_scopes') {
-          const scopes = this.scopeRegistry.getAllScopes().map(scope => ({
+          const scopeList = this.scopeRegistry.getAllScopes().map(scope => ({
             id: scope.id,
             name: scope.name,
             description: scope.description,
-            loaded: this.scopeRegistry.isLoaded(scope.id),
+            loaded: scopes.isLoaded(scope.id),
             toolCount: this.scopeRegistry.getCommandsInScope(scope.id).length,
             keywords: scope.keywords
           }));
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(scopes, null, 2)
+              text: JSON.stringify(scopeList, null, 2)
             }]
           };
         }
@@ -344,15 +666,165 @@ export class RuntimeServer {
         throw new Error(`Unknown tool: ${name}`);
       }
 
-      return await command.toMCP().execute(args);
+      return await command.toMCP().execute(args, withServerLogging(server, extra));
     });
 
-    // Connect transport
-    if (config.transport === 'stdio' || !config.transport) {
-      const transport = new StdioServerTransport();
-      await this.mcpServer.connect(transport);
-    }
-    // HTTP transport would go here
+    return server;
+  }
+
+  /**
+   * resources/list, resources/templates/list and resources/read
+   *
+   * - `scope://<id>` (with scopes): scope metadata and its tools
+   * - `docs://tools/<tool name>`: the command's markdown help
+   * - commands' `mcp.resource` URIs and templates, read by running the command
+   *
+   * Listed docs and command resources follow the session's loaded scopes.
+   * Docs can be read for every command, but command resources only for the
+   * session's loaded commands, and never for commands that need confirmation:
+   * reading a resource must not change anything.
+   */
+  private registerResources(server: any, useScopes: boolean, scopes: ScopeSession): void {
+    const {
+      ListResourcesRequestSchema,
+      ListResourceTemplatesRequestSchema,
+      ReadResourceRequestSchema,
+      McpError,
+      ErrorCode
+    } = loadMCPSDK();
+    const registry = useScopes ? this.scopeRegistry : this.registry;
+    const visible = () => (useScopes ? scopes.getLoadedCommands() : this.registry.getAll());
+    const help = new HelpGenerator();
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request: any, extra: any) => {
+      const resources: MCPResource[] = useScopes
+        ? this.scopeRegistry.getAllScopes().map(scope => ({
+          uri: `scope://${scope.id}`,
+          name: scope.name,
+          description: scope.description,
+          mimeType: 'application/json'
+        }))
+        : [];
+
+      for (const command of visible()) {
+        resources.push({
+          uri: `${DOCS_URI}${command.getMCPToolName()}`,
+          name: `${command.schema.name} documentation`,
+          description: command.schema.description,
+          mimeType: 'text/markdown'
+        });
+
+        const resource = command.schema.mcp?.resource;
+        if (!resource) continue;
+        const mimeType = resourceMimeType(command.schema);
+        if (!isURITemplate(resource.uri)) {
+          resources.push({
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description ?? command.schema.description,
+            mimeType
+          });
+        }
+        if (resource.list) {
+          const listed = await resource.list(mcpContext(extra));
+          resources.push(...listed.map(item => ({ mimeType, ...item })));
+        }
+      }
+
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const resourceTemplates = visible().flatMap(command => {
+        const resource = command.schema.mcp?.resource;
+        if (!resource || !isURITemplate(resource.uri)) return [];
+        return [{
+          uriTemplate: resource.uri,
+          name: resource.name,
+          description: resource.description ?? command.schema.description,
+          mimeType: resourceMimeType(command.schema)
+        }];
+      });
+      return { resourceTemplates };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request: any, extra: any) => {
+      const { uri } = request.params;
+      const notFound = () => new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+
+      if (useScopes && uri.startsWith('scope://')) {
+        const scope = this.scopeRegistry.getScope(uri.slice('scope://'.length));
+        if (!scope) throw notFound();
+        const tools = this.scopeRegistry.getCommandsInScope(scope.id).map(command => ({
+          name: command.getMCPToolName(),
+          description: command.schema.description,
+          inputSchema: command['parametersToJSONSchema']()
+        }));
+        const text = JSON.stringify({ ...scope, loaded: scopes.isLoaded(scope.id), tools }, null, 2);
+        return { contents: [{ uri, mimeType: 'application/json', text }] };
+      }
+
+      if (uri.startsWith(DOCS_URI)) {
+        const command = registry.findByMCPName(uri.slice(DOCS_URI.length));
+        if (!command) throw notFound();
+        return { contents: [{ uri, mimeType: 'text/markdown', text: help.generateMarkdown(command) }] };
+      }
+
+      for (const command of visible()) {
+        const template = command.schema.mcp?.resource?.uri;
+        const args = template && matchURITemplate(template, uri);
+        if (!args) continue;
+
+        if (confirmationMessage(command.schema, args) !== undefined) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Resource ${uri} needs confirmation; call the ${command.getMCPToolName()} tool instead`
+          );
+        }
+        let result = await command.execute(
+          args,
+          command.createMCPContext(withServerLogging(server, extra))
+        );
+        if (isAsyncIterable(result)) result = await collectChunks(result, extra.signal);
+        const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+        return { contents: [{ uri, mimeType: resourceMimeType(command.schema), text }] };
+      }
+
+      throw notFound();
+    });
+  }
+
+  /**
+   * prompts/list and prompts/get for the prompts of loaded scopes and their
+   * commands (every command's without scopes)
+   */
+  private registerPrompts(server: any, useScopes: boolean, scopes: ScopeSession): void {
+    const { ListPromptsRequestSchema, GetPromptRequestSchema, McpError } = loadMCPSDK();
+    const available = () =>
+      useScopes
+        ? collectPrompts([
+          ...scopes.getLoadedScopeIds().flatMap(id => this.scopeRegistry.getScope(id) ?? []),
+          ...scopes.getLoadedCommands().map(command => command.schema)
+        ])
+        : collectPrompts(this.registry.getAll().map(command => command.schema));
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: available().map(promptInfo)
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+      const { name, arguments: args } = request.params;
+      const prompt = available().find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(INVALID_PARAMS, `Unknown prompt: ${name}`);
+      }
+      try {
+        return await renderPrompt(prompt, args);
+      } catch (error: any) {
+        if (error instanceof ValidationError) throw new McpError(INVALID_PARAMS, error.message);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -435,21 +907,118 @@ export class RuntimeServer {
       const method = (command.schema.api?.method || 'GET').toLowerCase();
 
       router[method](path, async (req: any, res: any) => {
+        // Abort when the client disconnects before the response is sent
+        const controller = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort();
+        });
+        const context: ExecutionContext = {
+          interface: 'api',
+          request: req,
+          signal: controller.signal,
+          confirmationToken: req.get?.(CONFIRMATION_HEADER)
+        };
+
         try {
-          // Merge query, params, and body
+          // URLs end up in access logs, so secrets must come in the body or a header
+          const secretInQuery = command.getParameters().find(
+            param => param.secret && req.query?.[param.name] !== undefined
+          );
+          if (secretInQuery) {
+            throw new ValidationError(
+              `Secret parameter '${secretInQuery.name}' must be sent in the request body or the ${secretHeader(secretInQuery.name)} header`,
+              [{ path: secretInQuery.name, message: 'Not accepted in the query string' }]
+            );
+          }
+          const secretHeaders: Record<string, string> = {};
+          for (const param of command.getParameters()) {
+            const value = param.secret ? req.get?.(secretHeader(param.name)) : undefined;
+            if (value !== undefined) secretHeaders[param.name] = value;
+          }
+
+          // Merge query, secret headers, params, and body
           const args = {
             ...req.query,
+            ...secretHeaders,
             ...req.params,
             ...(req.body || {})
           };
 
-          const result = await command.execute(args, {
-            interface: 'api',
-            request: req
+          // Stream progress as Server-Sent Events when the client asks for it.
+          // The stream opens with the first event, so access, rate limit and
+          // validation failures still get their own status and headers.
+          if (acceptsEventStream(req.headers?.accept)) {
+            const send = (event: string, data: unknown) => {
+              if (!res.headersSent) {
+                res.writeHead(200, {
+                  ...EVENT_STREAM_HEADERS,
+                  ...rateLimitHeaders(context.rateLimit)
+                });
+              }
+              res.write(formatServerSentEvent(event, data));
+            };
+
+            try {
+              context.progress = update => send('progress', update);
+              const result = await command.execute(args, context);
+              if (isAsyncIterable(result)) {
+                const count = await forEachChunk(
+                  result,
+                  chunk => send('chunk', chunk),
+                  controller.signal
+                );
+                send('end', { count });
+              } else {
+                send('result', result);
+              }
+            } catch (error: any) {
+              if (!res.headersSent) throw error;
+              send('error', { error: error.message, details: error.details });
+            }
+            res.end();
+            return;
+          }
+
+          const result = await command.execute(args, context);
+          res.set({
+            ...rateLimitHeaders(context.rateLimit),
+            ...cacheHeaders(command.schema, context.cache)
           });
 
+          // The client already has this result
+          if (context.cache && matchesETag(req.get?.('if-none-match'), context.cache.etag)) {
+            res.status(304).end();
+            return;
+          }
+
+          // Write chunks as they are produced instead of buffering
+          if (isAsyncIterable(result)) {
+            const { type } = command.schema.output;
+            res.setHeader('Content-Type', streamContentType(type));
+            try {
+              await forEachChunk(
+                result,
+                chunk => {
+                  res.write(encodeChunk(chunk, type));
+                },
+                controller.signal
+              );
+            } catch (error: any) {
+              // Headers are already sent: report the failure in the body, or
+              // cut a text stream short
+              if (type === 'text') {
+                res.destroy(error);
+                return;
+              }
+              res.write(JSON.stringify({ error: error.message, details: error.details }) + '\n');
+            }
+            res.end();
+            return;
+          }
+
           res.json(result);
         } catch (error: any) {
+          res.set(rateLimitHeaders(context.rateLimit));
           res.status(error.details?.status || 500).json({
             error: error.message,
             details: error.details
@@ -481,6 +1050,97 @@ export class RuntimeServer {
   }
 }
 
+/**
+ * Load the MCP SDK server modules
+ * Note: Explicit .js extension required due to SDK's ESM module type
+ */
+function loadMCPSDK() {
+  try {
+    const serverModule = require('@modelcontextprotocol/sdk/server/index.js');
+    const stdioModule = require('@modelcontextprotocol/sdk/server/stdio.js');
+    const httpModule = require('@modelcontextprotocol/sdk/server/streamableHttp.js');
+    const sseModule = require('@modelcontextprotocol/sdk/server/sse.js');
+    const typesModule = require('@modelcontextprotocol/sdk/types.js');
+    return {
+      Server: serverModule.Server,
+      StdioServerTransport: stdioModule.StdioServerTransport,
+      StreamableHTTPServerTransport: httpModule.StreamableHTTPServerTransport,
+      SSEServerTransport: sseModule.SSEServerTransport,
+      isInitializeRequest: typesModule.isInitializeRequest as (value: unknown) => boolean,
+      ListToolsRequestSchema: typesModule.ListToolsRequestSchema,
+      CallToolRequestSchema: typesModule.CallToolRequestSchema,
+      ListResourcesRequestSchema: typesModule.ListResourcesRequestSchema,
+      ListResourceTemplatesRequestSchema: typesModule.ListResourceTemplatesRequestSchema,
+      ReadResourceRequestSchema: typesModule.ReadResourceRequestSchema,
+      ListPromptsRequestSchema: typesModule.ListPromptsRequestSchema,
+      GetPromptRequestSchema: typesModule.GetPromptRequestSchema,
+      McpError: typesModule.McpError,
+      ErrorCode: typesModule.ErrorCode
+    };
+  } catch (e: any) {
+    throw new Error(
+      `@modelcontextprotocol/sdk package is required. Install with: npm install @modelcontextprotocol/sdk. Error: ${e.message}`
+    );
+  }
+}
+
+/**
+ * JSON body of a request: Express's parsed body, else read from the stream
+ * Throws SyntaxError for invalid JSON.
+ */
+async function readJSONBody(req: MCPHttpRequest): Promise<unknown> {
+  if (req.body !== undefined) return req.body;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw Object.assign(new Error('Request body too large'), { status: 413 });
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Execution context for resource listing, from the MCP request
+ */
+function mcpContext(extra: any): ExecutionContext {
+  return {
+    interface: 'mcp',
+    signal: extra?.signal,
+    request: extra?.requestInfo,
+    authInfo: extra?.authInfo,
+    sessionId: extra?.sessionId
+  };
+}
+
+/**
+ * Whether a registry change alters the tools listed for a session
+ */
+function affectsTools(event: ScopeRegistryEvent, scopes: ScopeSession): boolean {
+  switch (event.type) {
+    case 'scopeLoaded':
+    case 'scopeUnloaded':
+      return event.sessionId === scopes.id;
+    case 'commandRegistered':
+    case 'commandUnregistered':
+      return scopes.isLoaded(event.scopeId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * JSON-RPC error response outside any session
+ */
+function sendJSONRPCError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
 /**
  * Create a new runtime server instance
  */
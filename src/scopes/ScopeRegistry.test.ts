@@ -2,7 +2,7 @@
  * Tests for ScopeRegistry - O(1) keyed lookup implementation
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ScopeRegistry, createScopeRegistry } from './ScopeRegistry';
 import { UniversalCommand } from '../UniversalCommand';
 import type { Scope } from '../types';
@@ -332,6 +332,144 @@ describe('ScopeRegistry', () => {
     });
   });
 
+  describe('sessions', () => {
+    beforeEach(() => {
+      registry.registerScope({
+        id: 'git',
+        name: 'Git',
+        description: 'Git tools',
+        keywords: ['git']
+      });
+      registry.register(new UniversalCommand({
+        name: 'git status',
+        description: 'Show status',
+        scope: 'git',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        handler: async () => ({})
+      }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep loaded scopes per session', () => {
+      registry.loadScope('git');
+      const first = registry.createSession();
+      registry.unloadScope('git');
+      const second = registry.createSession();
+
+      first.unloadScope('git');
+      second.loadScope('git');
+
+      expect(first.getLoadedScopeIds()).toEqual(['global']);
+      expect(second.getLoadedCommands().map(c => c.schema.name)).toEqual(['git status']);
+      expect(registry.isLoaded('git')).toBe(false);
+      expect(registry.getSession(first.id)).toBe(first);
+    });
+
+    it('should close a session after idleTimeout without activity', () => {
+      vi.useFakeTimers();
+      const onClose = vi.fn();
+      const session = registry.createSession({ idleTimeout: 1000, onClose });
+
+      vi.advanceTimersByTime(600);
+      session.loadScope('git');
+      vi.advanceTimersByTime(600);
+      expect(session.closed).toBe(false);
+
+      vi.advanceTimersByTime(400);
+      expect(session.closed).toBe(true);
+      expect(onClose).toHaveBeenCalledWith(session);
+      expect(registry.getSession(session.id)).toBeUndefined();
+    });
+
+    it('should not expire with idleTimeout 0', () => {
+      vi.useFakeTimers();
+      const session = registry.createSession({ id: 'stdio', idleTimeout: 0 });
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(session.closed).toBe(false);
+      expect(registry.getSessions()).toEqual([session]);
+      session.close();
+      expect(registry.getSessions()).toEqual([]);
+    });
+
+    it('should follow the registry\'s loads with followRegistry', () => {
+      const session = registry.createSession({ idleTimeout: 0, followRegistry: true });
+      const other = registry.createSession({ idleTimeout: 0 });
+
+      registry.loadScope('git');
+      expect(session.isLoaded('git')).toBe(true);
+      expect(other.isLoaded('git')).toBe(false);
+
+      session.unloadScope('git');
+      expect(registry.isLoaded('git')).toBe(true);
+      registry.loadScope('git');
+      expect(session.isLoaded('git')).toBe(false);
+
+      session.loadScope('git');
+      registry.unloadScope('git');
+      expect(session.isLoaded('git')).toBe(false);
+
+      session.close();
+      other.close();
+      registry.loadScope('git');
+      expect(session.isLoaded('git')).toBe(false);
+    });
+  });
+
+  describe('change events', () => {
+    it('should report scopes and commands as they change', () => {
+      const events: any[] = [];
+      const off = registry.onChange(event => events.push(event));
+      const command = new UniversalCommand({
+        name: 'git status',
+        description: 'Show status',
+        scope: 'git',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        handler: async () => ({})
+      });
+
+      registry.register(command);
+      registry.loadScope('git');
+      registry.loadScope('git');
+      registry.unregister('git status');
+      registry.unloadScope('git');
+      registry.unloadScope('git');
+      off();
+      registry.loadScope('git');
+
+      expect(events).toEqual([
+        { type: 'scopeRegistered', scopeId: 'git' },
+        { type: 'commandRegistered', scopeId: 'git', command },
+        { type: 'scopeLoaded', scopeId: 'git' },
+        { type: 'commandUnregistered', scopeId: 'git', command },
+        { type: 'scopeUnloaded', scopeId: 'git' }
+      ]);
+    });
+
+    it('should tag session changes with the session ID', () => {
+      registry.registerScope({ id: 'git', name: 'Git', description: 'Git tools', keywords: [] });
+      const events: any[] = [];
+      registry.onChange(event => events.push(event));
+      const session = registry.createSession({ id: 's1' });
+
+      session.loadScope('git');
+      session.resetToGlobal();
+
+      expect(events).toEqual([
+        { type: 'scopeLoaded', scopeId: 'git', sessionId: 's1' },
+        { type: 'scopeUnloaded', scopeId: 'git', sessionId: 's1' }
+      ]);
+      expect(registry.isLoaded('git')).toBe(false);
+      session.close();
+    });
+  });
+
   describe('semantic scope discovery', () => {
     beforeEach(() => {
       registry.registerScope({
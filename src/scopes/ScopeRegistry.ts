@@ -13,6 +13,8 @@
  */
 
 import { UniversalCommand } from '../UniversalCommand';
+import { MiddlewareStack, type Middleware } from '../middleware';
+import { ScopeSession, type ScopeSessionOptions } from './ScopeSession';
 import type { Scope } from '../types';
 
 /**
@@ -26,13 +28,31 @@ const GLOBAL_SCOPE: Scope = {
   autoLoad: true
 };
 
+/**
+ * A change to a ScopeRegistry or one of its sessions (see onChange())
+ *
+ * Load events carry `sessionId` when a ScopeSession changed rather than the
+ * registry's own loaded scopes.
+ */
+export type ScopeRegistryEvent =
+  | { type: 'scopeRegistered'; scopeId: string }
+  | { type: 'scopeLoaded'; scopeId: string; sessionId?: string }
+  | { type: 'scopeUnloaded'; scopeId: string; sessionId?: string }
+  | { type: 'commandRegistered'; scopeId: string; command: UniversalCommand }
+  | { type: 'commandUnregistered'; scopeId: string; command: UniversalCommand };
+
+/**
+ * Listener for registry changes
+ */
+export type ScopeRegistryListener = (event: ScopeRegistryEvent) => void;
+
 /**
  * Scope Registry with O(1) keyed lookups
  *
  * Instead of getAll().filter(), uses:
  * - Map<scopeId, Scope> for scope metadata
  * - Map<scopeId, Map<commandName, Command>> for O(1) command lookup
- * - Set<scopeId> for loaded scopes state
+ * - Set<scopeId> for loaded scopes state (per client via createSession())
  */
 export class ScopeRegistry {
   /** Scope metadata by ID */
@@ -50,6 +70,15 @@ export class ScopeRegistry {
   /** API path → [scopeId, commandName] for O(1) API lookup */
   private apiIndex = new Map<string, [string, string]>();
 
+  /** Open sessions by ID */
+  private sessions = new Map<string, ScopeSession>();
+
+  /** Middleware around every registered command */
+  private middleware = new MiddlewareStack();
+
+  /** Change listeners (onChange) */
+  private listeners = new Set<ScopeRegistryListener>();
+
   constructor() {
     // Always register global scope
     this.registerScope(GLOBAL_SCOPE);
@@ -68,6 +97,7 @@ export class ScopeRegistry {
     if (!this.commandsByScope.has(scope.id)) {
       this.commandsByScope.set(scope.id, new Map());
     }
+    this.emit({ type: 'scopeRegistered', scopeId: scope.id });
     if (scope.autoLoad) {
       this.loadScope(scope.id);
     }
@@ -103,18 +133,30 @@ export class ScopeRegistry {
    * Only loaded scopes' tools are exposed to AI
    */
   loadScope(scopeId: string, options?: { includeChildren?: boolean }): void {
+    for (const id of this.resolveScopeIds(scopeId, options)) {
+      if (this.loadedScopes.has(id)) continue;
+      this.loadedScopes.add(id);
+      this.emit({ type: 'scopeLoaded', scopeId: id });
+    }
+  }
+
+  /**
+   * Scope IDs that loading a scope activates: the scope, its children when
+   * includeChildren is set, and children marked loadWithParent
+   */
+  resolveScopeIds(scopeId: string, options?: { includeChildren?: boolean }): string[] {
     const scope = this.scopes.get(scopeId);
     if (!scope) {
       throw new Error(`Scope "${scopeId}" not found`);
     }
 
-    this.loadedScopes.add(scopeId);
+    const ids = [scopeId];
 
     // Optionally load children
     if (options?.includeChildren && scope.children) {
       for (const childId of scope.children) {
         if (this.scopes.has(childId)) {
-          this.loadedScopes.add(childId);
+          ids.push(childId);
         }
       }
     }
@@ -122,9 +164,11 @@ export class ScopeRegistry {
     // Auto-load children marked with loadWithParent
     for (const [id, childScope] of this.scopes) {
       if (childScope.parent === scopeId && childScope.loadWithParent) {
-        this.loadedScopes.add(id);
+        ids.push(id);
       }
     }
+
+    return ids;
   }
 
   /**
@@ -134,7 +178,9 @@ export class ScopeRegistry {
     if (scopeId === 'global') {
       return; // Global cannot be unloaded
     }
-    this.loadedScopes.delete(scopeId);
+    if (this.loadedScopes.delete(scopeId)) {
+      this.emit({ type: 'scopeUnloaded', scopeId });
+    }
   }
 
   /**
@@ -155,8 +201,55 @@ export class ScopeRegistry {
    * Unload all scopes except global
    */
   resetToGlobal(): void {
-    this.loadedScopes.clear();
-    this.loadedScopes.add('global');
+    for (const scopeId of this.getLoadedScopeIds()) {
+      this.unloadScope(scopeId);
+    }
+    this.loadScope('global');
+  }
+
+  // ============================================================================
+  // Sessions (per-client loaded scopes)
+  // ============================================================================
+
+  /**
+   * Start a session with its own loaded scopes, copied from the registry's
+   * Sessions close after `idleTimeout` (default 30 minutes) without activity.
+   *
+   * @example
+   * ```typescript
+   * const session = registry.createSession();
+   * session.loadScope('git'); // the registry and other sessions are unchanged
+   * session.getLoadedCommands();
+   * ```
+   */
+  createSession(options: ScopeSessionOptions = {}): ScopeSession {
+    const session = new ScopeSession(
+      this,
+      {
+        ...options,
+        onClose: closed => {
+          this.sessions.delete(closed.id);
+          options.onClose?.(closed);
+        }
+      },
+      event => this.emit(event)
+    );
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Get an open session by ID
+   */
+  getSession(sessionId: string): ScopeSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Get all open sessions
+   */
+  getSessions(): ScopeSession[] {
+    return Array.from(this.sessions.values());
   }
 
   // ============================================================================
@@ -188,11 +281,59 @@ export class ScopeRegistry {
 
     // Register command in scope
     const commandName = command.schema.name;
+    scopeCommands.get(commandName)?.getMiddleware().removeParent(this.middleware);
     scopeCommands.set(commandName, command);
+    command.getMiddleware().addParent(this.middleware);
 
     // Build indexes for O(1) lookup
     this.mcpIndex.set(command.getMCPToolName(), [scopeId, commandName]);
     this.apiIndex.set(command.getAPIRoutePath(), [scopeId, commandName]);
+
+    this.emit({ type: 'commandRegistered', scopeId, command });
+  }
+
+  /**
+   * Add middleware around every registered command
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get the registry's middleware stack
+   */
+  getMiddleware(): MiddlewareStack {
+    return this.middleware;
+  }
+
+  // ============================================================================
+  // Change Events
+  // ============================================================================
+
+  /**
+   * Listen for registered scopes, loaded/unloaded scopes (in the registry or
+   * a session) and registered/unregistered commands
+   * Returns a function that removes the listener.
+   *
+   * @example
+   * ```typescript
+   * const off = registry.onChange(event => {
+   *   if (event.type === 'commandRegistered') console.error(`new tool in ${event.scopeId}`);
+   * });
+   * ```
+   */
+  onChange(listener: ScopeRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: ScopeRegistryEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
   }
 
   // ============================================================================
@@ -321,13 +462,16 @@ export class ScopeRegistry {
    * Remove a command
    */
   unregister(name: string): boolean {
-    for (const [, scopeCommands] of this.commandsByScope) {
+    for (const [scopeId, scopeCommands] of this.commandsByScope) {
       if (scopeCommands.has(name)) {
         const cmd = scopeCommands.get(name)!;
+        cmd.getMiddleware().removeParent(this.middleware);
         // Remove from indexes
         this.mcpIndex.delete(cmd.getMCPToolName());
         this.apiIndex.delete(cmd.getAPIRoutePath());
-        return scopeCommands.delete(name);
+        scopeCommands.delete(name);
+        this.emit({ type: 'commandUnregistered', scopeId, command: cmd });
+        return true;
       }
     }
     return false;
@@ -337,6 +481,12 @@ export class ScopeRegistry {
    * Clear all commands and scopes (except global)
    */
   clear(): void {
+    for (const [scopeId, scopeCommands] of this.commandsByScope) {
+      for (const cmd of scopeCommands.values()) {
+        cmd.getMiddleware().removeParent(this.middleware);
+        this.emit({ type: 'commandUnregistered', scopeId, command: cmd });
+      }
+    }
     this.scopes.clear();
     this.commandsByScope.clear();
     this.loadedScopes.clear();
@@ -0,0 +1,171 @@
+/**
+ * Scope sessions: per-client loaded scopes over a shared ScopeRegistry
+ *
+ * The registry's loaded scopes are global. A session starts from a copy of
+ * them and loads/unloads on its own, so one MCP client calling load_scope
+ * does not change the tools another client sees. Commands and scope
+ * definitions stay shared with the registry.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { UniversalCommand } from '../UniversalCommand';
+import type { ScopeRegistry, ScopeRegistryEvent } from './ScopeRegistry';
+
+/** Idle time before a session expires, unless given */
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Options for ScopeRegistry.createSession()
+ */
+export interface ScopeSessionOptions {
+  /** Session ID (default: random UUID) */
+  id?: string;
+
+  /** Milliseconds without activity before the session closes (default: 30 minutes; 0 = never) */
+  idleTimeout?: number;
+
+  /** Called once when the session closes, by close() or idle expiry */
+  onClose?: (session: ScopeSession) => void;
+
+  /**
+   * Also apply the registry's own loads and unloads, for a server with a
+   * single client (stdio) that the registry's loaded scopes should control
+   */
+  followRegistry?: boolean;
+}
+
+/**
+ * A client's view of a ScopeRegistry with its own loaded scopes
+ *
+ * Loading, unloading and getLoadedCommands() count as activity; touch()
+ * records activity otherwise. Changes are reported through the registry's
+ * onChange() with this session's ID.
+ */
+export class ScopeSession {
+  readonly id: string;
+
+  /** Scopes loaded in this session */
+  private loadedScopes: Set<string>;
+
+  private idleTimeout: number;
+  private onClose?: (session: ScopeSession) => void;
+  private lastActive = Date.now();
+  private timer?: ReturnType<typeof setTimeout>;
+  private isClosed = false;
+  private unfollow?: () => void;
+
+  constructor(
+    private registry: ScopeRegistry,
+    options: ScopeSessionOptions = {},
+    private emit: (event: ScopeRegistryEvent) => void = () => {}
+  ) {
+    this.id = options.id ?? randomUUID();
+    this.loadedScopes = new Set(registry.getLoadedScopeIds());
+    this.idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    this.onClose = options.onClose;
+    if (options.followRegistry) {
+      this.unfollow = registry.onChange(event => {
+        if (event.type === 'scopeLoaded' && !event.sessionId) this.loadScope(event.scopeId);
+        if (event.type === 'scopeUnloaded' && !event.sessionId) this.unloadScope(event.scopeId);
+      });
+    }
+    this.schedule(this.idleTimeout);
+  }
+
+  /**
+   * Load a scope (and children, as ScopeRegistry.loadScope does) in this session
+   */
+  loadScope(scopeId: string, options?: { includeChildren?: boolean }): void {
+    this.touch();
+    for (const id of this.registry.resolveScopeIds(scopeId, options)) {
+      if (this.loadedScopes.has(id)) continue;
+      this.loadedScopes.add(id);
+      this.emit({ type: 'scopeLoaded', scopeId: id, sessionId: this.id });
+    }
+  }
+
+  /**
+   * Unload a scope in this session (except global)
+   */
+  unloadScope(scopeId: string): void {
+    this.touch();
+    if (scopeId !== 'global' && this.loadedScopes.delete(scopeId)) {
+      this.emit({ type: 'scopeUnloaded', scopeId, sessionId: this.id });
+    }
+  }
+
+  /**
+   * Check if a scope is loaded in this session
+   */
+  isLoaded(scopeId: string): boolean {
+    return this.loadedScopes.has(scopeId);
+  }
+
+  /**
+   * Get the session's loaded scope IDs
+   */
+  getLoadedScopeIds(): string[] {
+    return Array.from(this.loadedScopes);
+  }
+
+  /**
+   * Unload all scopes except global
+   */
+  resetToGlobal(): void {
+    for (const scopeId of this.getLoadedScopeIds()) {
+      this.unloadScope(scopeId);
+    }
+    this.loadScope('global');
+  }
+
+  /**
+   * Commands from the session's loaded scopes (what MCP tools/list returns)
+   */
+  getLoadedCommands(): UniversalCommand[] {
+    this.touch();
+    return Array.from(this.loadedScopes).flatMap(id => this.registry.getCommandsInScope(id));
+  }
+
+  /**
+   * Record activity, postponing idle expiry
+   */
+  touch(): void {
+    this.lastActive = Date.now();
+  }
+
+  /**
+   * Whether the session was closed or expired
+   */
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Close the session (idempotent)
+   */
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    clearTimeout(this.timer);
+    this.unfollow?.();
+    this.onClose?.(this);
+  }
+
+  /**
+   * Check for expiry after `delay`; activity in between pushes the check back
+   */
+  private schedule(delay: number): void {
+    if (!this.idleTimeout) return;
+
+    this.timer = setTimeout(() => {
+      const idle = Date.now() - this.lastActive;
+      if (idle >= this.idleTimeout) {
+        this.close();
+      } else {
+        this.schedule(this.idleTimeout - idle);
+      }
+    }, delay);
+    // An idle session should not keep the process alive
+    this.timer.unref?.();
+  }
+}
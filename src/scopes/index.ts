@@ -33,12 +33,19 @@
  * // Get only loaded commands (for MCP tools/list)
  * const tools = registry.getLoadedCommands();
  *
+ * // Per-client loaded scopes (e.g. one per MCP connection)
+ * const session = registry.createSession();
+ * session.loadScope('git');
+ *
  * // O(1) lookup
  * const tool = registry.getCommand('requirement', 'requirement list');
  * ```
  */
 
 export { ScopeRegistry, createScopeRegistry } from './ScopeRegistry';
+export type { ScopeRegistryEvent, ScopeRegistryListener } from './ScopeRegistry';
+export { ScopeSession } from './ScopeSession';
+export type { ScopeSessionOptions } from './ScopeSession';
 
 // Re-export Scope type from types
 export type { Scope, ScopeOptions } from '../types';
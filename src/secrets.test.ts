@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  REDACTED,
+  redactArgs,
+  redactError,
+  redactSecrets,
+  secretHeader,
+  secretValues,
+  withoutSecretDefaults,
+} from './secrets';
+import { UniversalCommand } from './UniversalCommand';
+import { CommandError, ValidationError } from './errors';
+import { HelpGenerator } from './HelpGenerator';
+import { CommandRegistry } from './CommandRegistry';
+import { OpenAPIGenerator } from './generators';
+import { Logger, type LogEntry } from './logger';
+import type { Parameter } from './types';
+
+const TOKEN = 'ghp_abc123';
+
+const parameters: Parameter[] = [
+  { name: 'repo', type: 'string', description: 'Repository', required: true },
+  {
+    name: 'token',
+    type: 'string',
+    description: 'Access token',
+    secret: true,
+    env: 'GH_TOKEN',
+    default: 'dev-token',
+  },
+  {
+    name: 'auth',
+    type: 'object',
+    description: 'Proxy auth',
+    properties: {
+      user: { name: 'user', type: 'string', description: 'User' },
+      password: { name: 'password', type: 'string', description: 'Password', secret: true },
+    },
+  },
+];
+
+function createCommand(handler = vi.fn(async (args: any) => ({ repo: args.repo }))) {
+  return new UniversalCommand({
+    name: 'repo sync',
+    description: 'Sync a repository',
+    input: { parameters },
+    output: { type: 'json' },
+    api: { method: 'POST' },
+    handler,
+  });
+}
+
+describe('secrets', () => {
+  it('should collect secret values from arguments, env fallbacks and defaults', () => {
+    const values = secretValues(
+      { repo: 'web', token: TOKEN, auth: { user: 'me', password: 'hunter22' } },
+      parameters,
+      { GH_TOKEN: 'env-token' }
+    );
+
+    expect(values.sort()).toEqual(['dev-token', 'env-token', TOKEN, 'hunter22'].sort());
+    expect(secretValues({ token: 'abc' }, [{ ...parameters[1], default: undefined }], {})).toEqual(
+      []
+    );
+  });
+
+  it('should redact secret arguments for hooks and middleware', () => {
+    expect(
+      redactArgs({ repo: 'web', token: TOKEN, auth: { user: 'me', password: 'x' } }, parameters)
+    ).toEqual({ repo: 'web', token: REDACTED, auth: { user: 'me', password: REDACTED } });
+  });
+
+  it('should replace secrets inside nested values', () => {
+    expect(redactSecrets({ message: `bad ${TOKEN}`, list: [TOKEN, 3] }, [TOKEN])).toEqual({
+      message: `bad ${REDACTED}`,
+      list: [REDACTED, 3],
+    });
+  });
+
+  it('should redact error messages, validation entries and details', () => {
+    const validation = redactError(
+      new ValidationError(`Rejected ${TOKEN}`, [{ path: 'token', message: `${TOKEN} expired` }]),
+      [TOKEN]
+    );
+    const command = redactError(
+      new CommandError('Sync failed', { details: { error: `401 for ${TOKEN}` } }),
+      [TOKEN]
+    );
+
+    expect(validation.message).toBe(`Rejected ${REDACTED}`);
+    expect(validation.errors[0].message).toBe(`${REDACTED} expired`);
+    expect(command.details!.details).toEqual({ error: `401 for ${REDACTED}` });
+  });
+
+  describe('execute', () => {
+    it('should pass the real value to the handler but redact errors and logs', async () => {
+      const entries: LogEntry[] = [];
+      const logger = new Logger((entry) => entries.push(entry));
+      const handler = vi.fn(async (args: any, context: any) => {
+        context.logger.info(`Using ${args.token}`, { token: args.token });
+        throw new Error(`Remote rejected ${args.token}`);
+      });
+
+      const error = await createCommand(handler)
+        .execute({ repo: 'web', token: TOKEN } as any, { interface: 'test', logger })
+        .catch((e) => e);
+
+      expect(handler.mock.calls[0][0].token).toBe(TOKEN);
+      expect(error.message).toBe(`Remote rejected ${REDACTED}`);
+      expect(error.stack).not.toContain(TOKEN);
+      expect(entries[0]).toMatchObject({
+        message: `Using ${REDACTED}`,
+        fields: { token: REDACTED },
+      });
+    });
+
+    it('should redact secrets that come from defaults or prompts', async () => {
+      const handler = vi.fn(async (args: any) => {
+        throw new Error(`Rejected ${args.token} and ${args.auth.password}`);
+      });
+      const promptParameters = vi.fn(async () => ({ auth: { password: 'hunter22' } }));
+      const cmd = new UniversalCommand({
+        ...createCommand(handler).schema,
+        input: {
+          parameters: parameters.map((p) => (p.name === 'auth' ? { ...p, required: true } : p)),
+        },
+      });
+
+      const error = await cmd
+        .execute({ repo: 'web' } as any, { interface: 'cli', env: {}, promptParameters })
+        .catch((e) => e);
+
+      expect(error.message).toBe(`Rejected ${REDACTED} and ${REDACTED}`);
+    });
+
+    it('should refuse secrets in the query string', async () => {
+      const cmd = new UniversalCommand({ ...createCommand().schema, api: { method: 'GET' } });
+      const url = new URL(`http://localhost/api/repo/sync?repo=web&token=${TOKEN}`);
+      const request = Object.assign(new Request(url), { nextUrl: url });
+
+      const response = await cmd.toNextAPI().GET!(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe(
+        "Secret parameter 'token' must be sent in the request body or the x-secret-token header"
+      );
+    });
+
+    it('should accept secrets in x-secret-* headers on GET', async () => {
+      const handler = vi.fn(async (args: any) => ({ repo: args.repo }));
+      const cmd = new UniversalCommand({
+        ...createCommand(handler).schema,
+        api: { method: 'GET' },
+      });
+      const url = new URL('http://localhost/api/repo/sync?repo=web');
+      const request = Object.assign(new Request(url, { headers: { 'X-Secret-Token': TOKEN } }), {
+        nextUrl: url,
+      });
+
+      const response = await cmd.toNextAPI().GET!(request);
+
+      expect(response.status).toBe(200);
+      expect(handler.mock.calls[0][0]).toMatchObject({ repo: 'web', token: TOKEN });
+      expect(secretHeader('apiToken')).toBe('x-secret-api-token');
+    });
+
+    it('should document secret headers for GET operations in OpenAPI', async () => {
+      const registry = new CommandRegistry();
+      registry.register(
+        new UniversalCommand({ ...createCommand().schema, api: { method: 'GET' } })
+      );
+
+      const result = await new OpenAPIGenerator().generate(registry, {
+        outputPath: 'openapi.json',
+        format: 'json',
+        dryRun: true,
+      });
+      const spec = JSON.parse(result.files[0].content);
+
+      expect(spec.paths['/repo/sync'].get.parameters).toContainEqual({
+        name: 'x-secret-token',
+        in: 'header',
+        required: false,
+        description: 'Access token',
+        schema: { type: 'string', format: 'password' },
+      });
+    });
+  });
+
+  describe('schemas and help', () => {
+    it('should mark secrets writeOnly passwords without defaults', () => {
+      const { properties } = createCommand().toMCP().inputSchema;
+
+      expect(properties.token).toEqual({
+        type: 'string',
+        description: 'Access token',
+        format: 'password',
+        writeOnly: true,
+      });
+      expect(properties.auth.properties.password).toMatchObject({ writeOnly: true });
+    });
+
+    it('should hide secret defaults in describe(), help and generated code', () => {
+      const cmd = createCommand();
+      const help = new HelpGenerator().generateHelp(cmd);
+
+      expect(JSON.stringify(cmd.describe())).not.toContain('dev-token');
+      expect(help).not.toContain('dev-token');
+      expect(JSON.stringify(withoutSecretDefaults(cmd.schema))).not.toContain('dev-token');
+      expect(cmd.toCLI().options.find((o: any) => o.long === '--token').defaultValue).toBe(
+        undefined
+      );
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Secret parameters
+ *
+ * Parameters marked `secret: true` (tokens, passwords) never show up in
+ * clear text outside the handler: help and describe() hide their defaults,
+ * JSON Schema marks them writeOnly, and execute() replaces their values with
+ * [REDACTED] in errors, log entries and console output captured with
+ * captureConsole. Hooks and middleware that record arguments should pass
+ * them through redactArgs first.
+ */
+
+import { CommandError, ValidationError } from './errors';
+import type { CommandSchema, ExecutionContext, Parameter } from './types';
+
+/**
+ * Replacement shown instead of a secret value
+ */
+export const REDACTED = '[REDACTED]';
+
+/** Shorter values would mangle ordinary words if replaced inside text */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Secret values in these arguments, including defaults and secrets read
+ * from `env` fallbacks, as they could appear in text (values under four
+ * characters are left out)
+ */
+export function secretValues(
+  args: unknown,
+  parameters: Parameter[],
+  env: Record<string, string | undefined> = process.env
+): string[] {
+  const values = new Set<string>();
+
+  const collect = (value: unknown, param: Parameter) => {
+    if (value === undefined || value === null) return;
+    if (param.secret) {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      if (text && text.length >= MIN_SECRET_LENGTH) values.add(text);
+      return;
+    }
+    if (Array.isArray(value) && param.items) {
+      value.forEach((item) => collect(item, param.items!));
+    } else if (typeof value === 'object' && param.properties) {
+      for (const [name, property] of Object.entries(param.properties)) {
+        collect((value as any)[name], property);
+      }
+    }
+  };
+
+  for (const param of parameters) {
+    collect((args as any)?.[param.name], param);
+    if (param.secret && param.env) collect(env[param.env], param);
+    if (param.secret) collect(param.default, param);
+  }
+
+  return addSecrets([], [...values]);
+}
+
+/** Secrets of the execution running with each context */
+const executionSecrets = new WeakMap<ExecutionContext, string[]>();
+
+/**
+ * Make secrets available to code running with this context (captured console
+ * output), returning a function that restores the previous ones
+ */
+export function bindSecrets(context: ExecutionContext, secrets: string[]): () => void {
+  const previous = executionSecrets.get(context);
+  executionSecrets.set(context, secrets);
+  return () => {
+    if (previous) executionSecrets.set(context, previous);
+    else executionSecrets.delete(context);
+  };
+}
+
+/**
+ * Secrets of the execution running with this context, if any
+ */
+export function secretsOf(context: ExecutionContext): string[] | undefined {
+  return executionSecrets.get(context);
+}
+
+/**
+ * Add values to a list of secrets in place, keeping it free of duplicates
+ * and longest first (so a secret containing another is replaced whole)
+ */
+export function addSecrets(secrets: string[], values: string[]): string[] {
+  for (const value of values) {
+    if (!secrets.includes(value)) secrets.push(value);
+  }
+  return secrets.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Request header that carries a secret parameter to the API, e.g.
+ * `x-secret-api-token` for `apiToken`; GET requests have no body to send
+ * secrets in, and the query string is refused
+ */
+export function secretHeader(name: string): string {
+  return `x-secret-${name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * Copy of the arguments with secret parameters replaced by [REDACTED]
+ */
+export function redactArgs<T>(args: T, parameters: Parameter[]): T {
+  if (!args || typeof args !== 'object') return args;
+
+  const redact = (value: unknown, param: Parameter): unknown => {
+    if (value === undefined || value === null) return value;
+    if (param.secret) return REDACTED;
+    if (Array.isArray(value) && param.items) {
+      return value.map((item) => redact(item, param.items!));
+    }
+    if (typeof value === 'object' && param.properties) {
+      const copy: Record<string, unknown> = { ...(value as any) };
+      for (const [name, property] of Object.entries(param.properties)) {
+        if (name in copy) copy[name] = redact(copy[name], property);
+      }
+      return copy;
+    }
+    return value;
+  };
+
+  const copy: Record<string, unknown> = { ...(args as any) };
+  for (const param of parameters) {
+    if (param.name in copy) copy[param.name] = redact(copy[param.name], param);
+  }
+  return copy as T;
+}
+
+/**
+ * Replace secret values inside strings anywhere in a value (plain objects
+ * and arrays are copied; other objects are returned as they are)
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  if (secrets.length === 0) return value;
+
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, secrets)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = redactSecrets(item, secrets);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Redact secret values from an error's message, validation entries and
+ * details, in place
+ */
+export function redactError<T>(error: T, secrets: string[]): T {
+  if (secrets.length === 0 || !(error instanceof Error)) return error;
+
+  error.message = redactSecrets(error.message, secrets);
+  if (error.stack) error.stack = redactSecrets(error.stack, secrets);
+
+  if (error instanceof ValidationError) {
+    for (const entry of error.errors) {
+      entry.message = redactSecrets(entry.message, secrets);
+    }
+  }
+  if (error instanceof CommandError && error.details) {
+    for (const [key, value] of Object.entries(error.details)) {
+      error.details[key] = redactSecrets(value, secrets);
+    }
+  }
+  return error;
+}
+
+/**
+ * Schema with secret defaults removed, for serializing into generated code
+ */
+export function withoutSecretDefaults<T extends CommandSchema>(schema: T): T {
+  const parameters = schema.input.parameters;
+  if (!parameters?.some((param) => param.secret && param.default !== undefined)) {
+    return schema;
+  }
+
+  return {
+    ...schema,
+    input: {
+      ...schema.input,
+      parameters: parameters.map((param) => {
+        if (!param.secret) return param;
+        const copy = { ...param };
+        delete copy.default;
+        return copy;
+      }),
+    },
+  };
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+import {
+  isStandardSchema,
+  schemaToParameters,
+  formatIssuePath,
+  type StandardSchemaV1,
+} from './standard-schema';
+import { OpenAPIGenerator } from './generators';
+import { CommandRegistry } from './CommandRegistry';
+
+describe('Standard Schema input', () => {
+  const inputSchema = z.object({
+    title: z.string().describe('Issue title'),
+    priority: z.enum(['low', 'high']).default('low').describe('Priority'),
+    count: z.number().min(1).max(10).optional(),
+    tags: z.array(z.string()).optional(),
+    config: z.object({ retries: z.number() }).optional(),
+  });
+
+  const createCommand = () =>
+    new UniversalCommand({
+      name: 'issue create',
+      description: 'Create an issue',
+      input: { schema: inputSchema },
+      output: { type: 'json' },
+      handler: async (args) => ({ title: args.title, priority: args.priority }),
+    });
+
+  describe('isStandardSchema', () => {
+    it('should detect zod schemas', () => {
+      expect(isStandardSchema(inputSchema)).toBe(true);
+      expect(isStandardSchema({ type: 'object' })).toBe(false);
+      expect(isStandardSchema(null)).toBe(false);
+    });
+  });
+
+  describe('schemaToParameters', () => {
+    it('should derive parameters from a zod object', () => {
+      const params = schemaToParameters(inputSchema);
+
+      expect(params.map((p) => p.name)).toEqual(['title', 'priority', 'count', 'tags', 'config']);
+      expect(params[0]).toEqual({
+        name: 'title',
+        type: 'string',
+        description: 'Issue title',
+        required: true,
+      });
+      expect(params[1]).toMatchObject({
+        type: 'string',
+        enum: ['low', 'high'],
+        default: 'low',
+        description: 'Priority',
+      });
+      expect(params[1].required).toBeUndefined();
+      expect(params[2]).toMatchObject({ type: 'number', min: 1, max: 10 });
+      expect(params[3]).toMatchObject({ type: 'array', items: { type: 'string' } });
+      expect(params[4]).toMatchObject({
+        type: 'object',
+        properties: { retries: { type: 'number', required: true } },
+      });
+    });
+
+    it('should keep nullable fields required and report them as nullable', async () => {
+      const schema = z.object({ note: z.string().nullable(), tag: z.string().nullish() });
+      const [note, tag] = schemaToParameters(schema);
+      const cmd = new UniversalCommand({
+        name: 'note set',
+        description: 'Set a note',
+        input: { schema },
+        output: { type: 'json' },
+        handler: async (args) => args,
+      });
+
+      expect(note).toMatchObject({ required: true, nullable: true });
+      expect(tag).toMatchObject({ nullable: true });
+      expect(tag.required).toBeUndefined();
+      expect(cmd.toMCP().inputSchema).toMatchObject({
+        required: ['note'],
+        properties: { note: { type: ['string', 'null'] } },
+      });
+      expect(await cmd.execute({ note: null }, { interface: 'test' })).toEqual({ note: null });
+      await expect(cmd.execute({}, { interface: 'test' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should derive nothing from opaque standard schemas', () => {
+      const opaque: StandardSchemaV1<{ a: string }> = {
+        '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value: value as any }) },
+      };
+      expect(schemaToParameters(opaque)).toEqual([]);
+    });
+  });
+
+  describe('formatIssuePath', () => {
+    it('should format nested paths', () => {
+      expect(formatIssuePath(['tags', 2])).toBe('tags[2]');
+      expect(formatIssuePath(['config', { key: 'retries' }])).toBe('config.retries');
+      expect(formatIssuePath([])).toBe('');
+    });
+  });
+
+  describe('UniversalCommand integration', () => {
+    it('should validate and apply schema defaults', async () => {
+      const cmd = createCommand();
+      const result = await cmd.execute({ title: 'Bug' } as any, { interface: 'test' });
+      expect(result).toEqual({ title: 'Bug', priority: 'low' });
+    });
+
+    it('should report schema issues as ValidationError entries', async () => {
+      const cmd = createCommand();
+      const validation = cmd.validateArgs({ title: 'Bug', tags: ['a', 2] });
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual([{ path: 'tags[1]', message: expect.any(String) }]);
+
+      await expect(cmd.execute({} as any, { interface: 'test' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should work with non-zod standard schemas', async () => {
+      const schema: StandardSchemaV1<{ n: number }> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value: any) =>
+            typeof value?.n === 'number'
+              ? { value }
+              : { issues: [{ message: 'n must be a number', path: ['n'] }] },
+        },
+      };
+      const cmd = new UniversalCommand({
+        name: 'double',
+        description: 'Double a number',
+        input: { schema, parameters: [{ name: 'n', type: 'number', description: 'Number' }] },
+        output: { type: 'json' },
+        handler: async (args) => args.n * 2,
+      });
+
+      expect(await cmd.execute({ n: 2 }, { interface: 'test' })).toBe(4);
+      expect(cmd.validateArgs({ n: 'x' }).errors).toEqual([
+        { path: 'n', message: 'n must be a number' },
+      ]);
+    });
+
+    it('should await async standard schema validators', async () => {
+      const taken = new Set(['admin']);
+      const schema = z
+        .object({ username: z.string() })
+        .refine(async (args) => !taken.has(args.username), {
+          message: 'Username is taken',
+          path: ['username'],
+        });
+      const cmd = new UniversalCommand({
+        name: 'user create',
+        description: 'Create a user',
+        input: { schema },
+        output: { type: 'json' },
+        handler: async (args) => args.username,
+      });
+
+      expect(await cmd.execute({ username: 'ada' }, { interface: 'test' })).toBe('ada');
+      expect(await cmd.validateArgsAsync({ username: 'admin' })).toEqual({
+        valid: false,
+        errors: [{ path: 'username', message: 'Username is taken' }],
+      });
+      expect(() => cmd.validateArgs({ username: 'ada' })).toThrow(TypeError);
+    });
+
+    it('should derive CLI flags from the schema', () => {
+      const cli = createCommand().toCLI();
+      const flags = cli.options.map((o: any) => o.long);
+      expect(flags).toEqual([
+        '--title',
+        '--priority',
+        '--count',
+        '--tags',
+        '--config',
+        '--verbose',
+        '--quiet',
+      ]);
+    });
+
+    it('should derive MCP JSON Schema from the schema', () => {
+      const tool = createCommand().toMCP();
+      expect(tool.inputSchema.required).toEqual(['title']);
+      expect(tool.inputSchema.properties.priority).toMatchObject({
+        type: 'string',
+        enum: ['low', 'high'],
+        default: 'low',
+      });
+    });
+
+    it('should derive the OpenAPI request body from the schema', async () => {
+      const registry = new CommandRegistry();
+      registry.register(
+        new UniversalCommand({
+          name: 'issue create',
+          description: 'Create an issue',
+          input: { schema: inputSchema },
+          output: { type: 'json' },
+          api: { method: 'POST' },
+          handler: async () => ({}),
+        })
+      );
+
+      const result = await new OpenAPIGenerator().generate(registry, {
+        outputPath: 'openapi.json',
+        format: 'json',
+        dryRun: true,
+      });
+      const spec = JSON.parse(result.files[0].content);
+      const body = spec.paths['/issue/create'].post.requestBody.content['application/json'].schema;
+
+      expect(body.required).toEqual(['title']);
+      expect(Object.keys(body.properties)).toContain('priority');
+    });
+  });
+});
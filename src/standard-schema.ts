@@ -0,0 +1,316 @@
+/**
+ * Standard Schema support for command input
+ *
+ * Lets `CommandSchema.input` take a Zod (or any Standard Schema-compatible)
+ * schema instead of a hand-written Parameter list. The schema is used for
+ * validation, and for Zod object schemas the Parameter list is derived from it
+ * so CLI flags, MCP JSON Schema and OpenAPI output keep working unchanged.
+ *
+ * @see https://standardschema.dev
+ */
+
+import type { ParameterFormat } from './formats';
+import type { Parameter, ValidationResult } from './types';
+
+/**
+ * Standard Schema V1 interface (copied from the spec, no runtime dependency)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input'];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output'];
+}
+
+/**
+ * Check whether a value implements the Standard Schema interface
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    typeof (value as any)['~standard']?.validate === 'function'
+  );
+}
+
+/**
+ * Format an issue path as `tags[2]` / `config.retries`
+ */
+export function formatIssuePath(
+  path: ReadonlyArray<PropertyKey | StandardSchemaV1.PathSegment> | undefined
+): string {
+  if (!path || path.length === 0) return '';
+
+  let result = '';
+  for (const segment of path) {
+    const key = typeof segment === 'object' && segment !== null ? segment.key : segment;
+    if (typeof key === 'number') {
+      result += `[${key}]`;
+    } else {
+      result += result ? `.${String(key)}` : String(key);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert Standard Schema issues to ValidationError entries
+ */
+export function issuesToErrors(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>
+): Array<{ path: string; message: string }> {
+  return issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Convert a (settled) Standard Schema result to a ValidationResult
+ */
+export function toValidationResult<T>(
+  result: StandardSchemaV1.Result<unknown>
+): ValidationResult<T> {
+  if (result.issues) {
+    return { valid: false, errors: issuesToErrors(result.issues) };
+  }
+  return { valid: true, data: result.value as T };
+}
+
+/**
+ * Derive a Parameter list from a schema
+ *
+ * Zod object schemas are introspected field by field. Other Standard Schema
+ * implementations are opaque, so they derive no parameters - declare
+ * `input.parameters` alongside them if CLI flags or JSON Schema are needed.
+ */
+export function schemaToParameters(schema: StandardSchemaV1): Parameter[] {
+  const def = zodDef(schema);
+  if (!def) return [];
+
+  const object = unwrapZod(schema).schema;
+  const objectDef = zodDef(object);
+  if (objectDef?.typeName !== 'ZodObject') return [];
+
+  const shape = typeof objectDef.shape === 'function' ? objectDef.shape() : objectDef.shape;
+  return Object.entries(shape as Record<string, unknown>).map(([name, field]) =>
+    zodToParameter(name, field)
+  );
+}
+
+/**
+ * Resolve the effective Parameter list for a command input declaration
+ */
+export function resolveParameters(input: {
+  parameters?: Parameter[];
+  schema?: StandardSchemaV1;
+}): Parameter[] {
+  if (input.parameters) return input.parameters;
+  if (input.schema) return schemaToParameters(input.schema);
+  return [];
+}
+
+// ============================================================================
+// Zod introspection
+// ============================================================================
+
+interface UnwrappedZod {
+  schema: any;
+  optional: boolean;
+  nullable: boolean;
+  default?: any;
+  description?: string;
+}
+
+/** Zod string checks that map onto Parameter formats */
+const ZOD_STRING_FORMATS: Record<string, ParameterFormat> = {
+  email: 'email',
+  url: 'url',
+  uuid: 'uuid',
+  datetime: 'date-time',
+};
+
+function zodDef(schema: unknown): any {
+  const def = (schema as any)?._def;
+  return def && typeof def.typeName === 'string' ? def : undefined;
+}
+
+/**
+ * Strip optional/default/nullable/effects wrappers, collecting their metadata
+ */
+function unwrapZod(schema: any): UnwrappedZod {
+  const result: UnwrappedZod = { schema, optional: false, nullable: false };
+
+  for (;;) {
+    const def = zodDef(result.schema);
+    if (!def) break;
+    if (result.description === undefined && def.description) {
+      result.description = def.description;
+    }
+
+    if (def.typeName === 'ZodOptional') {
+      result.optional = true;
+      result.schema = def.innerType;
+    } else if (def.typeName === 'ZodNullable') {
+      result.nullable = true;
+      result.schema = def.innerType;
+    } else if (def.typeName === 'ZodDefault') {
+      result.optional = true;
+      result.default = def.defaultValue();
+      result.schema = def.innerType;
+    } else if (def.typeName === 'ZodEffects') {
+      result.schema = def.schema;
+    } else if (def.typeName === 'ZodBranded' || def.typeName === 'ZodReadonly') {
+      result.schema = def.type ?? def.innerType;
+    } else {
+      break;
+    }
+  }
+
+  return result;
+}
+
+function zodToParameter(name: string, field: unknown): Parameter {
+  const unwrapped = unwrapZod(field);
+  const param: Parameter = {
+    name,
+    ...zodTypeToParameter(unwrapped.schema),
+    description: unwrapped.description ?? '',
+  };
+
+  if (!unwrapped.optional) param.required = true;
+  if (unwrapped.nullable) param.nullable = true;
+  if (unwrapped.default !== undefined) param.default = unwrapped.default;
+
+  return param;
+}
+
+function zodTypeToParameter(schema: any): Omit<Parameter, 'name' | 'description'> {
+  const def = zodDef(schema);
+
+  switch (def?.typeName) {
+    case 'ZodString': {
+      const param: Omit<Parameter, 'name' | 'description'> = { type: 'string' };
+      for (const check of def.checks ?? []) {
+        if (check.kind === 'regex') param.pattern = check.regex.source;
+        if (check.kind in ZOD_STRING_FORMATS) param.format = ZOD_STRING_FORMATS[check.kind];
+      }
+      return param;
+    }
+
+    case 'ZodNumber': {
+      const param: Omit<Parameter, 'name' | 'description'> = { type: 'number' };
+      for (const check of def.checks ?? []) {
+        if (check.kind === 'min') param.min = check.value;
+        if (check.kind === 'max') param.max = check.value;
+      }
+      return param;
+    }
+
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+
+    case 'ZodEnum':
+      return { type: 'string', enum: [...def.values] };
+
+    case 'ZodNativeEnum': {
+      const values = Object.values(def.values as Record<string, unknown>).filter(
+        (v) => typeof (def.values as any)[v as any] !== 'number'
+      );
+      return {
+        type: values.every((v) => typeof v === 'number') ? 'number' : 'string',
+        enum: values,
+      };
+    }
+
+    case 'ZodLiteral':
+      return {
+        type:
+          typeof def.value === 'number'
+            ? 'number'
+            : typeof def.value === 'boolean'
+              ? 'boolean'
+              : 'string',
+        enum: [def.value],
+      };
+
+    case 'ZodArray':
+      return {
+        type: 'array',
+        ...(def.minLength && { minItems: def.minLength.value }),
+        ...(def.maxLength && { maxItems: def.maxLength.value }),
+        items: {
+          name: 'items',
+          ...zodTypeToParameter(unwrapZod(def.type).schema),
+          description: '',
+        },
+      };
+
+    case 'ZodObject': {
+      const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape as Record<string, unknown>).map(([key, value]) => [
+            key,
+            zodToParameter(key, value),
+          ])
+        ),
+        ...(def.unknownKeys === 'strict' && { additionalProperties: false }),
+      };
+    }
+
+    case 'ZodRecord':
+      return {
+        type: 'object',
+        additionalProperties: {
+          name: 'value',
+          ...zodTypeToParameter(unwrapZod(def.valueType).schema),
+          description: '',
+        },
+      };
+
+    default:
+      return { type: 'string' };
+  }
+}
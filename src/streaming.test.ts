@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeChunk, isAsyncIterable, toReadableStream } from './streaming';
+import { UniversalCommand } from './UniversalCommand';
+import { OutputValidationError } from './errors';
+import type { CommandSchema } from './types';
+
+interface Row {
+  id: number;
+}
+
+function createCommand(
+  options: {
+    type?: CommandSchema['output']['type'];
+    rows?: unknown[];
+    failAfter?: number;
+    onFinally?: () => void;
+  } = {}
+) {
+  const rows = options.rows ?? [{ id: 1 }, { id: 2 }];
+
+  return new UniversalCommand<Record<string, never>, AsyncIterable<unknown>>({
+    name: 'wip list',
+    description: 'List WIP files',
+    input: { parameters: [] },
+    output: { type: options.type ?? 'json', schema: { type: 'object', required: ['id'] } },
+    handler: async function* (args, context) {
+      try {
+        for (const [i, row] of rows.entries()) {
+          if (i === options.failAfter) throw new Error('Disk error');
+          context.progress!({ current: i + 1 });
+          yield row;
+        }
+      } finally {
+        options.onFinally?.();
+      }
+    },
+  });
+}
+
+describe('streaming', () => {
+  it('should detect async iterables', () => {
+    expect(isAsyncIterable((async function* () {})())).toBe(true);
+    expect(isAsyncIterable([1, 2])).toBe(false);
+    expect(isAsyncIterable(null)).toBe(false);
+  });
+
+  it('should encode json chunks as NDJSON and text chunks as-is', () => {
+    expect(encodeChunk({ id: 1 }, 'json')).toBe('{"id":1}\n');
+    expect(encodeChunk('line\n', 'json')).toBe('"line\\n"\n');
+    expect(encodeChunk('line\n', 'text')).toBe('line\n');
+    expect(encodeChunk({ id: 1 }, 'stream')).toBe('{"id":1}\n');
+  });
+
+  describe('execute', () => {
+    it('should return the stream without consuming it', async () => {
+      let produced = 0;
+      const cmd = createCommand({ rows: [{ id: 1 }], onFinally: () => produced++ });
+
+      const result = await cmd.execute({}, { interface: 'test' });
+
+      expect(isAsyncIterable(result)).toBe(true);
+      expect(produced).toBe(0);
+    });
+
+    it('should keep context.progress and context.command set while chunks are produced', async () => {
+      const progress = vi.fn();
+      const context = { interface: 'test' as const, progress };
+
+      const chunks: unknown[] = [];
+      for await (const chunk of await createCommand().execute({}, context)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(progress).toHaveBeenCalledTimes(2);
+      expect(context).not.toHaveProperty('command', expect.anything());
+    });
+
+    it('should validate each chunk against output.schema', async () => {
+      const cmd = createCommand({ rows: [{ id: 1 }, { name: 'x' }] });
+      const result = await cmd.execute({}, { interface: 'test', outputValidation: 'strict' });
+
+      const chunks: unknown[] = [];
+      await expect(
+        (async () => {
+          for await (const chunk of result) chunks.push(chunk);
+        })()
+      ).rejects.toThrow(OutputValidationError);
+      expect(chunks).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('toNextAPI', () => {
+    it('should respond with NDJSON for json output', async () => {
+      const response = await createCommand().toNextAPI().GET!(
+        new Request('http://localhost/api/wip/list')
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+      expect(await response.text()).toBe('{"id":1}\n{"id":2}\n');
+    });
+
+    it('should end the body with an error line when the stream fails', async () => {
+      const response = await createCommand({ failAfter: 1 }).toNextAPI().GET!(
+        new Request('http://localhost/api/wip/list')
+      );
+
+      expect(await response.text()).toBe('{"id":1}\n{"error":"Disk error"}\n');
+    });
+
+    it('should stream text chunks as plain text', async () => {
+      const response = await createCommand({ type: 'text', rows: ['a\n', 'b\n'] }).toNextAPI().GET!(
+        new Request('http://localhost/api/wip/list')
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+      expect(await response.text()).toBe('a\nb\n');
+    });
+
+    it('should send chunk events over Server-Sent Events', async () => {
+      const response = await createCommand().toNextAPI().GET!(
+        new Request('http://localhost/api/wip/list', { headers: { Accept: 'text/event-stream' } })
+      );
+
+      const text = await response.text();
+      expect(text).toContain('event: chunk\ndata: {"id":1}\n\n');
+      expect(text).toContain('event: chunk\ndata: {"id":2}\n\n');
+      expect(text.endsWith('event: end\ndata: {"count":2}\n\n')).toBe(true);
+    });
+  });
+
+  describe('toMCP', () => {
+    it('should accumulate json chunks into an array', async () => {
+      const result = await createCommand().toMCP().execute({});
+
+      expect(JSON.parse(result.content[0].text!)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should concatenate text chunks', async () => {
+      const result = await createCommand({ type: 'text', rows: ['a\n', 'b\n'] })
+        .toMCP()
+        .execute({});
+
+      expect(result.content[0].text).toBe('a\nb\n');
+    });
+
+    it('should stop the generator when the client cancels', async () => {
+      let closed = false;
+      const controller = new AbortController();
+      const cmd = new UniversalCommand<Record<string, never>, AsyncIterable<Row>>({
+        name: 'test audit',
+        description: 'Audit tests',
+        input: { parameters: [] },
+        output: { type: 'json' },
+        handler: async function* () {
+          try {
+            yield { id: 1 };
+            controller.abort();
+            yield { id: 2 };
+            yield { id: 3 };
+          } finally {
+            closed = true;
+          }
+        },
+      });
+
+      const result = await cmd.toMCP().execute({}, { signal: controller.signal });
+
+      expect(result.content[0].text).toBe('Error: Operation cancelled');
+      expect(closed).toBe(true);
+    });
+  });
+
+  it('should close the iterator when a readable stream is cancelled', async () => {
+    let closed = false;
+    const source = (async function* () {
+      try {
+        yield 'a';
+        yield 'b';
+      } finally {
+        closed = true;
+      }
+    })();
+
+    const reader = toReadableStream(source, String, () => undefined).getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(closed).toBe(true);
+  });
+});
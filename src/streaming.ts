@@ -0,0 +1,122 @@
+/**
+ * Streaming results
+ *
+ * Handlers may return an AsyncIterable (e.g. an async generator) instead of
+ * a single value. Each interface consumes it incrementally: the CLI writes
+ * chunks as they arrive (NDJSON for json output), the API responds with a
+ * chunked body or Server-Sent Events, and MCP accumulates the chunks into one
+ * tool result while reporting progress.
+ */
+
+import { throwIfCancelled } from './cancellation';
+import type { CommandSchema } from './types';
+
+type OutputType = CommandSchema['output']['type'];
+
+/**
+ * Whether a handler result is a stream of chunks
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Encode one chunk for a byte stream
+ *
+ * json output is NDJSON (one JSON value per line). For text and stream output,
+ * strings are written as-is and anything else as a JSON line.
+ */
+export function encodeChunk(chunk: unknown, type: OutputType): string {
+  if (typeof chunk === 'string' && type !== 'json') {
+    return chunk;
+  }
+  return JSON.stringify(chunk) + '\n';
+}
+
+/**
+ * Content-Type of a streamed API response
+ */
+export function streamContentType(type: OutputType): string {
+  return type === 'text' ? 'text/plain; charset=utf-8' : 'application/x-ndjson';
+}
+
+/**
+ * Consume a stream chunk by chunk, stopping when the signal aborts
+ */
+export async function forEachChunk<T>(
+  iterable: AsyncIterable<T>,
+  onChunk: (chunk: T, index: number) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<number> {
+  let count = 0;
+  for await (const chunk of iterable) {
+    // Leaving the loop early calls the iterator's return(), so generators clean up
+    throwIfCancelled(signal);
+    await onChunk(chunk, count++);
+  }
+  return count;
+}
+
+/**
+ * Collect a stream into an array (MCP has no partial tool results)
+ */
+export async function collectChunks<T>(
+  iterable: AsyncIterable<T>,
+  signal?: AbortSignal,
+  onChunk?: (count: number) => void
+): Promise<T[]> {
+  const chunks: T[] = [];
+  await forEachChunk(
+    iterable,
+    (chunk) => {
+      chunks.push(chunk);
+      onChunk?.(chunks.length);
+    },
+    signal
+  );
+  return chunks;
+}
+
+/**
+ * Adapt a stream to a web ReadableStream for a chunked Response
+ *
+ * The iterator is pulled only as fast as the client reads, and closed when
+ * the client cancels.
+ */
+export function toReadableStream<T>(
+  iterable: AsyncIterable<T>,
+  encode: (chunk: T) => string,
+  onError: (error: any) => string | undefined
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(encode(value)));
+      } catch (error: any) {
+        // Headers are already sent, so report the failure in the body
+        const trailer = onError(error);
+        if (trailer === undefined) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(encoder.encode(trailer));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -2,6 +2,17 @@
  * Core types for Universal Command system
  */
 
+import type { StandardSchemaV1 } from './standard-schema';
+import type { OutputValidationMode } from './output-validation';
+import type { ParameterFormat } from './formats';
+import type { ProgressUpdate } from './progress';
+import type { Logger } from './logger';
+import type { ConfirmOptions } from './confirmation';
+import type { ParameterPrompt } from './prompting';
+import type { Principal } from './auth';
+import type { RateLimitState, RateLimitStore } from './rate-limit';
+import type { CacheState, CacheStore } from './cache';
+
 /**
  * Execution context provides interface-specific information
  */
@@ -9,12 +20,84 @@ export interface ExecutionContext {
   /** Which interface is executing the command */
   interface: 'cli' | 'api' | 'mcp' | 'test';
 
+  /** Command being executed (set by execute(), e.g. for middleware) */
+  command?: CommandSchema;
+
+  /**
+   * Aborted on Ctrl-C, client disconnect, MCP cancellation or timeout
+   * Always set by execute(); pass it to fetch, child processes, etc.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Report progress; rendered as a CLI progress bar, MCP notifications/progress
+   * or API Server-Sent Events. Always set by execute() (a no-op if nobody listens)
+   * Example: context.progress({ current: 3, total: 10, message: 'Uploading' })
+   */
+  progress?: (update: ProgressUpdate) => void;
+
+  /**
+   * Leveled, structured logger; writes to stderr on the CLI (--verbose/--quiet),
+   * MCP notifications/message, or JSON lines for the API. Always set by execute()
+   * Example: context.logger.info('Pushed', { branch, commits: 3 })
+   */
+  logger?: Logger;
+
+  /**
+   * Ask the user to confirm a destructive command (CLI prompt, MCP elicitation)
+   * Resolves true to proceed
+   */
+  confirm?: (message: string) => Promise<boolean>;
+
+  /** Confirmation already given (e.g. CLI --yes); skips confirm() */
+  confirmed?: boolean;
+
+  /** API-specific: token from the x-confirmation-token header */
+  confirmationToken?: string;
+
+  /**
+   * Preview only: the handler should return a plan (see createPlan) instead of
+   * making changes. Set by execute() from the dryRun argument for commands
+   * with supportsDryRun
+   */
+  dryRun?: boolean;
+
   /** Project root directory (if applicable) */
   projectRoot?: string;
 
-  /** API-specific: HTTP request object */
+  /** Environment for Parameter.env fallbacks (default: process.env) */
+  env?: Record<string, string | undefined>;
+
+  /** Project config for Parameter.config fallbacks (default: nearest supernal.yaml) */
+  config?: Record<string, any>;
+
+  /** API-specific: HTTP request object (MCP: the transport's request info) */
   request?: any; // NextRequest | Request
 
+  /**
+   * Authenticated caller, set by authenticate() middleware
+   * Checked against api.auth before API and MCP executions
+   */
+  user?: Principal;
+
+  /** MCP-specific: token info verified by the transport (see bearerAuth) */
+  authInfo?: MCPAuthInfo;
+
+  /** MCP-specific: transport session ID (rate limits are per session) */
+  sessionId?: string;
+
+  /** Store for api.rateLimit buckets when the command names none (default: in memory) */
+  rateLimitStore?: RateLimitStore;
+
+  /** Set by execute() for rate-limited commands; sent as RateLimit-* headers */
+  rateLimit?: RateLimitState;
+
+  /** Store for cached results when the command names none (default: in memory) */
+  cacheStore?: CacheStore;
+
+  /** Set by execute() for cached commands; the API sends ETag and answers 304 */
+  cache?: CacheState;
+
   /** CLI-specific: Output streams (or any writable stream for testing) */
   stdout?: NodeJS.WriteStream | NodeJS.WritableStream;
   stderr?: NodeJS.WriteStream | NodeJS.WritableStream;
@@ -43,12 +126,24 @@ export interface ExecutionContext {
    */
   prompt?: (message: string, options?: { default?: string; mask?: boolean }) => Promise<string>;
 
+  /**
+   * Ask for required parameters the caller left out (CLI terminal questions,
+   * MCP elicitation). Called by execute() before validation
+   */
+  promptParameters?: ParameterPrompt;
+
   /**
    * Pass-through options from CLI (P0-6)
    * Options after '--' that weren't recognized
    */
   passThroughOptions?: string[];
 
+  /**
+   * Override output.validate for this execution
+   * Example: enforce every command's output contract in a test suite
+   */
+  outputValidation?: OutputValidationMode;
+
   /** Additional context data */
   [key: string]: any;
 }
@@ -72,6 +167,12 @@ export interface Parameter {
   /** Default value if not provided */
   default?: any;
 
+  /** Whether null is accepted; a required nullable parameter must still be given */
+  nullable?: boolean;
+
+  /** Sensitive value (password, token); prompted with masked input */
+  secret?: boolean;
+
   /** Allowed values (enum) */
   enum?: any[];
 
@@ -87,9 +188,24 @@ export interface Parameter {
   /** Item schema (for arrays) */
   items?: Parameter;
 
+  /** Minimum number of items (for arrays) */
+  minItems?: number;
+
+  /** Maximum number of items (for arrays) */
+  maxItems?: number;
+
+  /** Whether array items must be distinct (for arrays) */
+  uniqueItems?: boolean;
+
   /** Properties (for objects) */
   properties?: Record<string, Parameter>;
 
+  /**
+   * Undeclared properties (for objects): false rejects them, a Parameter
+   * validates each one. Default: allowed as-is.
+   */
+  additionalProperties?: boolean | Parameter;
+
   /**
    * Whether this parameter is positional (not a --flag) (P0-2)
    * Positional args appear as: sc command <arg1> <arg2> instead of --arg1 value
@@ -115,6 +231,88 @@ export interface Parameter {
    * Example: ['v'] for --verbose/-v
    */
   aliases?: string[];
+
+  /**
+   * Environment variable used when the argument is not given
+   * Example: 'SC_BRANCH_BASE'
+   */
+  env?: string;
+
+  /**
+   * Dotted key in the project config file (supernal.yaml) used when neither
+   * the argument nor the env variable is given
+   * Example: 'git.baseBranch'
+   */
+  config?: string;
+
+  /**
+   * Semantic string format, checked after pattern (string parameters only).
+   * 'duration' values reach the handler as milliseconds, 'date-time' as a Date.
+   * Example: 'file' for a config path that must exist
+   */
+  format?: ParameterFormat;
+
+  /**
+   * Custom check run in execute() after declarative validation, before the handler.
+   * Return true/undefined to accept, false or an error message to reject.
+   * Example: async (branch, { execution }) => (await branchExists(branch)) || 'Branch does not exist'
+   */
+  validate?: (
+    value: any,
+    context: ParameterHookContext
+  ) => boolean | string | void | Promise<boolean | string | void>;
+
+  /**
+   * Value transformer run after validate, before the handler
+   * Example: (path, { execution }) => resolve(execution.projectRoot ?? '.', path)
+   */
+  transform?: (value: any, context: ParameterHookContext) => any;
+}
+
+/**
+ * Context passed to Parameter.validate and Parameter.transform
+ */
+export interface ParameterHookContext {
+  /** Path of the value being checked, e.g. 'config.retries' or 'tags[2]' */
+  path: string;
+
+  /** All arguments after declarative validation */
+  args: Record<string, any>;
+
+  /** Context of the current execution */
+  execution: ExecutionContext;
+}
+
+/**
+ * Cross-parameter constraints for command input
+ *
+ * A parameter counts as given when its value is not undefined, null, false or
+ * an empty array - so boolean flags and defaulted lists only count when set.
+ */
+export interface InputConstraints {
+  /**
+   * Parameters that cannot be combined
+   * Example: { files: ['filesOption'] }
+   */
+  conflicts?: Record<string, string[]>;
+
+  /**
+   * Parameters that require others when given
+   * Example: { deleteLocal: ['branch'] }
+   */
+  implies?: Record<string, string[]>;
+
+  /**
+   * Groups where exactly one parameter must be given
+   * Example: [['branch', 'all']]
+   */
+  requiresOneOf?: string[][];
+
+  /**
+   * Groups where at most one parameter may be given
+   * Example: [['push', 'autoPush']]
+   */
+  atMostOneOf?: string[][];
 }
 
 /**
@@ -154,6 +352,13 @@ export interface CLIOptions {
    * When true, options after '--' are available in context.passThroughOptions
    */
   passThroughOptions?: boolean;
+
+  /**
+   * Extra flags that confirm destructive commands like --yes, e.g. ['force']
+   * for --force. CLI only: they are not parameters, so API and MCP callers
+   * cannot send them
+   */
+  confirmFlags?: string[];
 }
 
 /**
@@ -163,33 +368,86 @@ export interface APIOptions {
   /** HTTP method (default: inferred from handler) */
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
-  /** Cache control settings */
+  /**
+   * Cache control settings (seconds); also cache results on the server for
+   * `revalidate` (else `maxAge`) seconds, see CommandSchema.cache
+   */
   cacheControl?: {
     maxAge?: number;
     staleWhileRevalidate?: number;
     revalidate?: number;
   };
 
-  /** Rate limiting */
+  /**
+   * Rate limiting for API and MCP calls: a token bucket of `requests` per
+   * `window`, per caller (MCP session, user or IP unless `key` says otherwise)
+   */
   rateLimit?: {
     requests: number;
     window: string; // e.g., '1m', '1h'
+
+    /** Bucket key for a call (default: rateLimitKey) */
+    key?: (context: ExecutionContext) => string;
+
+    /**
+     * Key by the first X-Forwarded-For / X-Real-IP address (default: false).
+     * Enable only behind a proxy that sets these headers; otherwise clients
+     * can send their own
+     */
+    trustProxy?: boolean;
+
+    /** Shared store for several instances (default: context.rateLimitStore, then memory) */
+    store?: RateLimitStore;
   };
 
-  /** Authentication requirements */
+  /**
+   * Authentication requirements, enforced for API and MCP calls (see authenticate)
+   * `roles`: the caller needs at least one of them
+   */
   auth?: {
     required: boolean;
     roles?: string[];
   };
 }
 
+/**
+ * Result caching options (see runCached)
+ */
+export interface CacheOptions<TInput = any> {
+  /** Tags stored with this command's results */
+  tags?: string[] | ((args: TInput) => string[]);
+
+  /** Tags to drop from the cache after this command succeeds */
+  invalidates?: string[] | ((args: TInput) => string[]);
+
+  /** Cache only calls for which this returns true (e.g. not when fixing) */
+  when?: (args: TInput) => boolean;
+
+  /** Cache key for a call (default: arguments, user and project) */
+  key?: (args: TInput, context: ExecutionContext) => string;
+
+  /** Shared store (default: context.cacheStore, then memory) */
+  store?: CacheStore;
+}
+
 /**
  * MCP-specific options
  */
 export interface MCPOptions {
-  /** Related MCP resources */
+  /**
+   * Related MCP resources, linked from tool results as resource_link content
+   * `{name}` placeholders are filled from the call's arguments (e.g. 'req://{requirementId}');
+   * links with a missing argument are left out.
+   */
   resourceLinks?: string[];
 
+  /**
+   * Expose the command as an MCP resource: reading a URI that matches
+   * `resource.uri` runs the command with the URI template's variables as
+   * arguments
+   */
+  resource?: MCPResourceOptions;
+
   /** MCP capabilities */
   capabilities?: string[];
 
@@ -197,6 +455,44 @@ export interface MCPOptions {
   toolName?: string;
 }
 
+/**
+ * An MCP resource as listed by resources/list
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * A command's MCP resource
+ *
+ * @example
+ * ```typescript
+ * // planning req show: resources/read req://REQ-042 runs it with { requirementId: 'REQ-042' }
+ * mcp: {
+ *   resource: { uri: 'req://{requirementId}', name: 'Requirement' },
+ * },
+ * ```
+ */
+export interface MCPResourceOptions {
+  /** URI, or URI template with `{name}` variables matching parameters */
+  uri: string;
+
+  /** Resource (or template) name */
+  name: string;
+
+  /** Description (default: the command's) */
+  description?: string;
+
+  /** MIME type of the contents (default: application/json for json output, else text/plain) */
+  mimeType?: string;
+
+  /** Concrete resources for resources/list, e.g. every requirement for a template */
+  list?: (context: ExecutionContext) => MCPResource[] | Promise<MCPResource[]>;
+}
+
 /**
  * Scope definition for semantic tool grouping
  * Scopes enable O(1) lookup and progressive loading
@@ -228,6 +524,60 @@ export interface Scope {
 
   /** Load automatically when parent loads */
   loadWithParent?: boolean;
+
+  /** MCP prompts offered while the scope is loaded */
+  prompts?: PromptDefinition[];
+}
+
+/**
+ * A reusable MCP prompt (prompts/list, prompts/get)
+ *
+ * @example
+ * ```typescript
+ * prompts: [{
+ *   name: 'plan-feature',
+ *   description: 'Plan a feature with requirements',
+ *   arguments: [{ name: 'feature', description: 'Feature name', required: true }],
+ *   messages: 'Create the feature {{feature}} with planning_feature_create, ' +
+ *     'then add its requirements with planning_req_new.',
+ * }],
+ * ```
+ */
+export interface PromptDefinition {
+  /** Unique prompt name */
+  name: string;
+
+  /** What the prompt is for */
+  description?: string;
+
+  /** Arguments the client fills in */
+  arguments?: PromptArgument[];
+
+  /**
+   * The prompt: text for one user message, or messages; `{{name}}` in text
+   * is replaced with the argument (empty when not given)
+   */
+  messages:
+    | string
+    | PromptMessage[]
+    | ((args: Record<string, string>) => string | PromptMessage[] | Promise<string | PromptMessage[]>);
+}
+
+/**
+ * An argument of a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * A message of a prompt
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  text: string;
 }
 
 /**
@@ -244,6 +594,11 @@ export interface ScopeOptions {
   requiredStates?: string[];
 }
 
+/**
+ * What a handler returns: a promise, or a stream of chunks directly
+ */
+export type HandlerResult<TOutput> = Promise<TOutput> | Extract<TOutput, AsyncIterable<unknown>>;
+
 /**
  * Command schema defining the entire command
  */
@@ -268,17 +623,68 @@ export interface CommandSchema<TInput = any, TOutput = any> {
 
   /** Input schema */
   input: {
-    parameters: Parameter[];
+    /** Parameter list (derived from `schema` when omitted) */
+    parameters?: Parameter[];
+
+    /**
+     * Zod or any Standard Schema-compatible schema for the input object.
+     * Takes over validation and infers TInput; Zod object schemas also
+     * provide the Parameter list for CLI flags, JSON Schema and OpenAPI.
+     */
+    schema?: StandardSchemaV1<any, TInput>;
+
+    /** Cross-parameter constraints (conflicts, implies, one-of groups) */
+    constraints?: InputConstraints;
   };
 
   /** Output schema */
   output: {
     type: 'json' | 'text' | 'stream';
     schema?: any; // JSONSchema
+
+    /** Validate handler results against schema (default: 'off') */
+    validate?: OutputValidationMode;
+
+    /** Called with the issues found when validate is 'warn' (default: console.warn) */
+    onValidationError?: (
+      errors: Array<{ path: string; message: string }>,
+      result: TOutput,
+      context: ExecutionContext
+    ) => void;
   };
 
-  /** Core handler function (works for all interfaces) */
-  handler: (args: TInput, context: ExecutionContext) => Promise<TOutput>;
+  /**
+   * Core handler function (works for all interfaces)
+   * May be an async generator when TOutput is an AsyncIterable of chunks
+   */
+  handler: (args: TInput, context: ExecutionContext) => HandlerResult<TOutput>;
+
+  /**
+   * Abort after this many milliseconds and fail with TimeoutError
+   * Handlers should pass context.signal to long-running work.
+   */
+  timeout?: number;
+
+  /**
+   * Destructive: ask for confirmation before every run
+   * Also marks the MCP tool with destructiveHint
+   */
+  dangerous?: boolean;
+
+  /** Ask for confirmation, optionally only for some arguments */
+  confirm?: ConfirmOptions<TInput>;
+
+  /**
+   * Accept a dryRun argument (--dry-run, ?dryRun=true, MCP dryRun) and pass it
+   * to the handler as context.dryRun. Dry runs skip confirmation
+   */
+  supportsDryRun?: boolean;
+
+  /**
+   * Server-side result caching (enabled by api.cacheControl) and invalidation
+   * Example: { tags: ['requirements'] } on a list, { invalidates: ['requirements'] } on a create
+   */
+  cache?: CacheOptions<TInput>;
 
   /** CLI-specific options */
   cli?: CLIOptions;
@@ -288,6 +694,9 @@ export interface CommandSchema<TInput = any, TOutput = any> {
 
   /** MCP-specific options */
   mcp?: MCPOptions;
+
+  /** MCP prompts offered while the command's scope is loaded */
+  prompts?: PromptDefinition[];
 }
 
 /**
@@ -302,6 +711,17 @@ export interface ValidationResult<T = any> {
   }>;
 }
 
+/**
+ * MCP tool annotations (hints for clients, e.g. to warn before destructive calls)
+ */
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 /**
  * MCP tool definition
  */
@@ -309,16 +729,75 @@ export interface MCPToolDefinition {
   name: string;
   description: string;
   inputSchema: any; // JSONSchema
-  execute: (args: any) => Promise<{
+  annotations?: MCPToolAnnotations;
+  execute: (args: any, extra?: MCPRequestExtra) => Promise<{
     content: Array<{
-      type: 'text' | 'image' | 'resource';
+      type: 'text' | 'image' | 'resource' | 'resource_link';
       text?: string;
       data?: string;
       resource?: string;
+      /** resource_link fields */
+      uri?: string;
+      name?: string;
+      mimeType?: string;
     }>;
   }>;
 }
 
+/**
+ * Per-request data the MCP SDK passes to tools/call handlers
+ */
+export interface MCPRequestExtra {
+  /** Aborted when the client sends notifications/cancelled for the request */
+  signal?: AbortSignal;
+
+  /** Request metadata; progressToken asks for notifications/progress */
+  _meta?: { progressToken?: string | number; [key: string]: unknown };
+
+  /** Sends a request to the client (e.g. elicitation/create) */
+  sendRequest?: (request: { method: string; params?: any }, resultSchema: any) => Promise<any>;
+
+  /** Sends a notification related to the request */
+  sendNotification?: (notification: { method: string; params?: any }) => Promise<void>;
+
+  /**
+   * Sends notifications/message unless its level is below the client's
+   * logging/setLevel (the server's sendLoggingMessage; see withServerLogging)
+   */
+  sendLoggingMessage?: (params: MCPLoggingMessage) => Promise<void>;
+
+  /** Token info from an authenticating HTTP transport */
+  authInfo?: MCPAuthInfo;
+
+  /** Transport session ID (HTTP transports) */
+  sessionId?: string;
+
+  /** HTTP request the message arrived in (headers) */
+  requestInfo?: { headers: Record<string, string | string[] | undefined> };
+
+  [key: string]: any;
+}
+
+/**
+ * Params of an MCP notifications/message
+ */
+export interface MCPLoggingMessage {
+  level: string;
+  logger?: string;
+  data: unknown;
+}
+
+/**
+ * Verified access token passed along by an MCP HTTP transport
+ */
+export interface MCPAuthInfo {
+  token: string;
+  clientId?: string;
+  scopes?: string[];
+  expiresAt?: number;
+  [key: string]: unknown;
+}
+
 /**
  * Next.js API route handler
  */
@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest';
+import { runParameterHooks, validateParameters } from './validation';
+import { UniversalCommand } from './UniversalCommand';
+import { ValidationError } from './errors';
+import type { ExecutionContext, Parameter } from './types';
+
+describe('validateParameters', () => {
+  const tags: Parameter = {
+    name: 'tags',
+    type: 'array',
+    description: 'Tags',
+    items: { name: 'tag', type: 'string', description: 'Tag', pattern: '^[a-z]+$' },
+  };
+
+  const config: Parameter = {
+    name: 'config',
+    type: 'object',
+    description: 'Config',
+    properties: {
+      retries: { name: 'retries', type: 'number', description: 'Retries', required: true, min: 0 },
+      mode: { name: 'mode', type: 'string', description: 'Mode', default: 'fast' },
+    },
+  };
+
+  it('should keep top-level behaviour for flat parameters', () => {
+    const result = validateParameters({ name: 'x', extra: 1 }, [
+      { name: 'name', type: 'string', description: 'Name', required: true },
+      { name: 'count', type: 'number', description: 'Count', default: 3 },
+    ]);
+
+    expect(result).toEqual({ valid: true, data: { name: 'x', count: 3 } });
+  });
+
+  describe('arrays', () => {
+    it('should validate each item with an indexed path', () => {
+      const result = validateParameters({ tags: ['ok', 2, 'BAD'] }, [tags]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        { path: 'tags[1]', message: 'Must be a string' },
+        { path: 'tags[2]', message: 'Value does not match pattern: ^[a-z]+$' },
+      ]);
+    });
+
+    it('should reject numbers arrays containing strings', () => {
+      const result = validateParameters({ ids: [1, '2'] }, [
+        {
+          name: 'ids',
+          type: 'array',
+          description: 'IDs',
+          items: { name: 'id', type: 'number', description: 'ID' },
+        },
+      ]);
+
+      expect(result.errors).toEqual([{ path: 'ids[1]', message: 'Must be a number' }]);
+    });
+
+    it('should enforce minItems and maxItems', () => {
+      const param: Parameter = { ...tags, minItems: 1, maxItems: 2 };
+
+      expect(validateParameters({ tags: [] }, [param]).errors).toEqual([
+        { path: 'tags', message: 'Must contain at least 1 items' },
+      ]);
+      expect(validateParameters({ tags: ['a', 'b', 'c'] }, [param]).errors).toEqual([
+        { path: 'tags', message: 'Must contain at most 2 items' },
+      ]);
+    });
+
+    it('should enforce uniqueItems with deep equality', () => {
+      const result = validateParameters({ list: [{ a: 1 }, { a: 2 }, { a: 1 }] }, [
+        { name: 'list', type: 'array', description: 'List', uniqueItems: true },
+      ]);
+
+      expect(result.errors).toEqual([{ path: 'list[2]', message: 'Duplicate of item 0' }]);
+    });
+  });
+
+  describe('objects', () => {
+    it('should validate nested properties with dotted paths', () => {
+      const result = validateParameters({ config: { retries: 'three' } }, [config]);
+
+      expect(result.errors).toEqual([{ path: 'config.retries', message: 'Must be a number' }]);
+    });
+
+    it('should report missing nested required properties', () => {
+      const result = validateParameters({ config: {} }, [config]);
+
+      expect(result.errors).toEqual([
+        { path: 'config.retries', message: "Parameter 'config.retries' is required" },
+      ]);
+    });
+
+    it('should apply nested defaults', () => {
+      const result = validateParameters({ config: { retries: 1 } }, [config]);
+
+      expect(result.data).toEqual({ config: { retries: 1, mode: 'fast' } });
+    });
+
+    it('should reject unknown properties when additionalProperties is false', () => {
+      const result = validateParameters({ config: { retries: 1, other: true } }, [
+        { ...config, additionalProperties: false },
+      ]);
+
+      expect(result.errors).toEqual([
+        { path: 'config.other', message: "Unknown property 'other'" },
+      ]);
+    });
+
+    it('should validate additional properties against a parameter', () => {
+      const result = validateParameters({ env: { A: '1', B: 2 } }, [
+        {
+          name: 'env',
+          type: 'object',
+          description: 'Environment',
+          additionalProperties: { name: 'value', type: 'string', description: 'Value' },
+        },
+      ]);
+
+      expect(result.errors).toEqual([{ path: 'env.B', message: 'Must be a string' }]);
+    });
+
+    it('should recurse through arrays of objects', () => {
+      const result = validateParameters({ jobs: [{ retries: 1 }, { retries: -1 }] }, [
+        { name: 'jobs', type: 'array', description: 'Jobs', items: config },
+      ]);
+
+      expect(result.errors).toEqual([{ path: 'jobs[1].retries', message: 'Value must be >= 0' }]);
+    });
+  });
+
+  describe('JSON Schema output', () => {
+    it('should emit array and object constraints', () => {
+      const cmd = new UniversalCommand({
+        name: 'nested',
+        description: 'Nested params',
+        input: {
+          parameters: [
+            { ...tags, minItems: 1, maxItems: 5, uniqueItems: true },
+            { ...config, additionalProperties: false },
+          ],
+        },
+        output: { type: 'json' },
+        handler: async () => ({}),
+      });
+
+      const schema = cmd.toMCP().inputSchema;
+
+      expect(schema.properties.tags).toMatchObject({ minItems: 1, maxItems: 5, uniqueItems: true });
+      expect(schema.properties.config).toMatchObject({
+        required: ['retries'],
+        additionalProperties: false,
+      });
+    });
+  });
+});
+
+describe('runParameterHooks', () => {
+  const execution: ExecutionContext = { interface: 'api' };
+
+  it('should report false and message results from validate', async () => {
+    const errors: Array<{ path: string; message: string }> = [];
+    await runParameterHooks(
+      { branch: 'gone', count: 3 },
+      [
+        {
+          name: 'branch',
+          type: 'string',
+          description: 'Branch',
+          validate: async (value) => value !== 'gone' || 'Branch does not exist',
+        },
+        { name: 'count', type: 'number', description: 'Count', validate: (value) => value < 2 },
+      ],
+      execution,
+      errors
+    );
+
+    expect(errors).toEqual([
+      { path: 'branch', message: 'Branch does not exist' },
+      { path: 'count', message: 'Invalid value' },
+    ]);
+  });
+
+  it('should report thrown errors as issues', async () => {
+    const errors: Array<{ path: string; message: string }> = [];
+    await runParameterHooks(
+      { path: 'x' },
+      [
+        {
+          name: 'path',
+          type: 'string',
+          description: 'Path',
+          validate: async () => {
+            throw new Error('ENOENT');
+          },
+        },
+      ],
+      execution,
+      errors
+    );
+
+    expect(errors).toEqual([{ path: 'path', message: 'ENOENT' }]);
+  });
+
+  it('should transform values and pass the hook context', async () => {
+    const seen: any[] = [];
+    const errors: Array<{ path: string; message: string }> = [];
+    const data = await runParameterHooks(
+      { name: ' Alice ', other: 1 },
+      [
+        {
+          name: 'name',
+          type: 'string',
+          description: 'Name',
+          transform: async (value: string, context) => {
+            seen.push(context);
+            return value.trim();
+          },
+        },
+      ],
+      execution,
+      errors
+    );
+
+    expect(errors).toEqual([]);
+    expect(data).toEqual({ name: 'Alice', other: 1 });
+    expect(seen[0]).toMatchObject({ path: 'name', args: { name: ' Alice ' }, execution });
+  });
+
+  it('should run hooks on nested items and properties with their paths', async () => {
+    const errors: Array<{ path: string; message: string }> = [];
+    const data = await runParameterHooks(
+      { jobs: [{ id: 'a' }, { id: 'b' }] },
+      [
+        {
+          name: 'jobs',
+          type: 'array',
+          description: 'Jobs',
+          items: {
+            name: 'job',
+            type: 'object',
+            description: 'Job',
+            properties: {
+              id: {
+                name: 'id',
+                type: 'string',
+                description: 'ID',
+                validate: (value) => value !== 'b' || 'Unknown job',
+                transform: (value: string) => value.toUpperCase(),
+              },
+            },
+          },
+        },
+      ],
+      execution,
+      errors
+    );
+
+    expect(errors).toEqual([{ path: 'jobs[1].id', message: 'Unknown job' }]);
+    expect(data.jobs[0]).toEqual({ id: 'A' });
+  });
+
+  it('should run in execute before the handler', async () => {
+    const handled: any[] = [];
+    const cmd = new UniversalCommand({
+      name: 'hooks',
+      description: 'Hooks',
+      input: {
+        parameters: [
+          {
+            name: 'port',
+            type: 'number',
+            description: 'Port',
+            validate: (value) => value !== 80 || 'Port is in use',
+            transform: (value: number) => `:${value}`,
+          },
+        ],
+      },
+      output: { type: 'json' },
+      handler: async (args) => {
+        handled.push(args);
+        return args;
+      },
+    });
+
+    await expect(cmd.execute({ port: 8080 }, execution)).resolves.toEqual({ port: ':8080' });
+
+    const error = await cmd.execute({ port: 80 }, execution).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual([{ path: 'port', message: 'Port is in use' }]);
+    expect(handled).toHaveLength(1);
+  });
+
+  it('should not run hooks when declarative validation fails', async () => {
+    let called = false;
+    const cmd = new UniversalCommand({
+      name: 'hooks',
+      description: 'Hooks',
+      input: {
+        parameters: [
+          {
+            name: 'port',
+            type: 'number',
+            description: 'Port',
+            validate: () => {
+              called = true;
+            },
+          },
+        ],
+      },
+      output: { type: 'json' },
+      handler: async (args) => args,
+    });
+
+    await expect(cmd.execute({ port: 'x' } as any, execution)).rejects.toThrow(ValidationError);
+    expect(called).toBe(false);
+  });
+});
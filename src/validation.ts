@@ -0,0 +1,337 @@
+/**
+ * Parameter validation
+ *
+ * Validates argument objects against Parameter declarations, descending into
+ * array items and object properties. Errors carry JSON-pointer style paths
+ * (`tags[2]`, `config.retries`) so every interface reports the same location.
+ *
+ * Custom validate/transform hooks run separately (and asynchronously) through
+ * runParameterHooks once declarative validation has passed.
+ */
+
+import { checkFormat, isCoerced } from './formats';
+import type { ExecutionContext, Parameter, ValidationResult } from './types';
+
+/**
+ * Single validation failure
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate an arguments object against a parameter list
+ *
+ * Returns only declared parameters in `data`, with defaults applied at every
+ * level of nesting. Relative `file` / `directory` paths are checked against
+ * `baseDir` (the project root; default: the working directory).
+ */
+export function validateParameters(
+  args: unknown,
+  parameters: Parameter[],
+  baseDir?: string
+): ValidationResult {
+  const errors: ValidationIssue[] = [];
+  const data: any = {};
+
+  for (const param of parameters) {
+    const value = validateProperty((args as any)?.[param.name], param, param.name, errors, baseDir);
+    if (value !== undefined) {
+      data[param.name] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, data };
+}
+
+/**
+ * Validate a named value: required check and default before the value itself
+ */
+function validateProperty(
+  value: any,
+  param: Parameter,
+  path: string,
+  errors: ValidationIssue[],
+  baseDir?: string
+): any {
+  // Check required
+  if (param.required && (value === undefined || (value === null && !param.nullable))) {
+    errors.push({ path, message: `Parameter '${path}' is required` });
+    return undefined;
+  }
+
+  if (value === null && param.nullable) {
+    return null;
+  }
+
+  // Use default if not provided
+  if (value === undefined) {
+    return param.default;
+  }
+
+  return validateValue(value, param, path, errors, baseDir);
+}
+
+/**
+ * Validate a single value against a parameter, recursing into items/properties
+ *
+ * Returns the value to pass on (with nested defaults applied), or undefined
+ * when it failed a top-level check.
+ */
+export function validateValue(
+  value: any,
+  param: Parameter,
+  path: string,
+  errors: ValidationIssue[],
+  baseDir?: string
+): any {
+  // Already-coerced format values (Date, milliseconds) pass through
+  if (param.format && isCoerced(value, param.format)) {
+    return value;
+  }
+
+  // Type validation
+  const typeError = checkType(value, param);
+  if (typeError) {
+    errors.push({ path, message: typeError });
+    return undefined;
+  }
+
+  // Enum validation
+  if (param.enum && !param.enum.includes(value)) {
+    errors.push({ path, message: `Value must be one of: ${param.enum.join(', ')}` });
+    return undefined;
+  }
+
+  switch (param.type) {
+    case 'number':
+      // Range validation
+      if (param.min !== undefined && value < param.min) {
+        errors.push({ path, message: `Value must be >= ${param.min}` });
+        return undefined;
+      }
+      if (param.max !== undefined && value > param.max) {
+        errors.push({ path, message: `Value must be <= ${param.max}` });
+        return undefined;
+      }
+      return value;
+
+    case 'string':
+      // Pattern validation
+      if (param.pattern && !new RegExp(param.pattern).test(value)) {
+        errors.push({ path, message: `Value does not match pattern: ${param.pattern}` });
+        return undefined;
+      }
+
+      // Format validation and coercion
+      if (param.format) {
+        const formatted = checkFormat(value, param.format, baseDir);
+        if (!formatted.valid) {
+          errors.push({ path, message: formatted.message });
+          return undefined;
+        }
+        return formatted.value;
+      }
+      return value;
+
+    case 'array':
+      return validateArray(value, param, path, errors, baseDir);
+
+    case 'object':
+      return validateObject(value, param, path, errors, baseDir);
+
+    default:
+      return value;
+  }
+}
+
+function validateArray(
+  value: any[],
+  param: Parameter,
+  path: string,
+  errors: ValidationIssue[],
+  baseDir?: string
+) {
+  if (param.minItems !== undefined && value.length < param.minItems) {
+    errors.push({ path, message: `Must contain at least ${param.minItems} items` });
+  }
+  if (param.maxItems !== undefined && value.length > param.maxItems) {
+    errors.push({ path, message: `Must contain at most ${param.maxItems} items` });
+  }
+
+  if (param.uniqueItems) {
+    const seen = new Map<string, number>();
+    value.forEach((item, index) => {
+      const key = JSON.stringify(item);
+      const first = seen.get(key);
+      if (first !== undefined) {
+        errors.push({ path: `${path}[${index}]`, message: `Duplicate of item ${first}` });
+      } else {
+        seen.set(key, index);
+      }
+    });
+  }
+
+  if (!param.items) {
+    return value;
+  }
+
+  return value.map((item, index) =>
+    validateValue(item, param.items!, `${path}[${index}]`, errors, baseDir)
+  );
+}
+
+function validateObject(
+  value: Record<string, any>,
+  param: Parameter,
+  path: string,
+  errors: ValidationIssue[],
+  baseDir?: string
+) {
+  const properties = param.properties || {};
+  const result: Record<string, any> = {};
+
+  for (const [key, prop] of Object.entries(properties)) {
+    const propValue = validateProperty(value[key], prop, `${path}.${key}`, errors, baseDir);
+    if (propValue !== undefined) {
+      result[key] = propValue;
+    }
+  }
+
+  for (const [key, extra] of Object.entries(value)) {
+    if (key in properties) continue;
+
+    if (param.additionalProperties === false) {
+      errors.push({ path: `${path}.${key}`, message: `Unknown property '${key}'` });
+    } else if (typeof param.additionalProperties === 'object') {
+      result[key] = validateValue(
+        extra,
+        param.additionalProperties,
+        `${path}.${key}`,
+        errors,
+        baseDir
+      );
+    } else {
+      result[key] = extra;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check the JavaScript type of a value, returning an error message on mismatch
+ */
+function checkType(value: any, param: Parameter): string | undefined {
+  switch (param.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'Must be a string';
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return 'Must be a number';
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') return 'Must be a boolean';
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) return 'Must be an array';
+      break;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'Must be an object';
+      }
+      break;
+  }
+
+  return undefined;
+}
+
+/**
+ * Run Parameter.validate and Parameter.transform hooks over validated arguments
+ *
+ * Hooks run depth-first (items and properties before their container), so a
+ * container's hooks see already-transformed children. Failures are collected
+ * into `errors` rather than thrown.
+ */
+export async function runParameterHooks(
+  args: Record<string, any>,
+  parameters: Parameter[],
+  execution: ExecutionContext,
+  errors: ValidationIssue[]
+): Promise<Record<string, any>> {
+  const result = { ...args };
+
+  for (const param of parameters) {
+    if (result[param.name] === undefined) continue;
+    result[param.name] = await runHooks(
+      result[param.name],
+      param,
+      param.name,
+      { args, execution },
+      errors
+    );
+  }
+
+  return result;
+}
+
+async function runHooks(
+  value: any,
+  param: Parameter,
+  path: string,
+  shared: { args: Record<string, any>; execution: ExecutionContext },
+  errors: ValidationIssue[]
+): Promise<any> {
+  // Children first
+  if (param.type === 'array' && param.items && Array.isArray(value)) {
+    const items: any[] = [];
+    for (let i = 0; i < value.length; i++) {
+      items.push(await runHooks(value[i], param.items, `${path}[${i}]`, shared, errors));
+    }
+    value = items;
+  } else if (param.type === 'object' && param.properties && value && typeof value === 'object') {
+    value = { ...value };
+    for (const [key, prop] of Object.entries(param.properties)) {
+      if (value[key] === undefined) continue;
+      value[key] = await runHooks(value[key], prop, `${path}.${key}`, shared, errors);
+    }
+  }
+
+  if (!param.validate && !param.transform) {
+    return value;
+  }
+
+  const context = { path, args: shared.args, execution: shared.execution };
+
+  if (param.validate) {
+    try {
+      const outcome = await param.validate(value, context);
+      if (outcome === false || typeof outcome === 'string') {
+        errors.push({ path, message: typeof outcome === 'string' ? outcome : 'Invalid value' });
+        return value;
+      }
+    } catch (error: any) {
+      errors.push({ path, message: error?.message || 'Invalid value' });
+      return value;
+    }
+  }
+
+  if (param.transform) {
+    try {
+      return await param.transform(value, context);
+    } catch (error: any) {
+      errors.push({ path, message: error?.message || 'Could not transform value' });
+    }
+  }
+
+  return value;
+}
@@ -24,6 +24,7 @@ export default defineConfig({
     'commander',
     'next',
     'next/server',
-    '@modelcontextprotocol/sdk'
+    '@modelcontextprotocol/sdk',
+    'yaml'
   ]
 });